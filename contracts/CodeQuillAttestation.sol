@@ -1,19 +1,31 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
+import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import {SignatureChecker} from "@openzeppelin/contracts/utils/cryptography/SignatureChecker.sol";
+import {Context} from "@openzeppelin/contracts/utils/Context.sol";
+import {ERC2771Context} from "@openzeppelin/contracts/metatx/ERC2771Context.sol";
+import {CodeQuillNonces} from "./CodeQuillNonces.sol";
+
 interface ICodeQuillWorkspaceRegistry {
+    function ROLE_ATTESTOR() external view returns (uint256);
+
     function isMember(bytes32 contextId, address wallet) external view returns (bool);
+    function hasRole(bytes32 contextId, address wallet, uint256 role) external view returns (bool);
+    function isActive(bytes32 contextId) external view returns (bool);
 }
 
 interface ICodeQuillDelegation {
     function SCOPE_ATTEST() external view returns (uint256);
+    function SCOPE_REVOKE() external view returns (uint256);
 
-    function isAuthorized(
+    function consume(
         address owner_,
         address relayer_,
         uint256 scope,
-        bytes32 contextId
-    ) external view returns (bool);
+        bytes32 contextId,
+        bytes32 resourceId
+    ) external returns (bool);
 }
 
 interface ICodeQuillReleaseRegistry {
@@ -42,7 +54,8 @@ interface ICodeQuillReleaseRegistry {
 /// @title CodeQuillAttestationRegistry
 /// @notice Registry for attestations (sha256 artifact digests) bound to an on-chain release.
 /// @dev Uniqueness is keyed by (releaseId, artifactDigest).
-contract CodeQuillAttestationRegistry {
+/// Calls through the trusted ERC-2771 forwarder act as the signer of the forwarded request.
+contract CodeQuillAttestationRegistry is EIP712, ERC2771Context, CodeQuillNonces {
     ICodeQuillWorkspaceRegistry public immutable workspace;
     ICodeQuillDelegation public immutable delegation;
     ICodeQuillReleaseRegistry public immutable releaseRegistry;
@@ -59,6 +72,12 @@ contract CodeQuillAttestationRegistry {
     mapping(bytes32 => Attestation[]) private attestationsByRelease;
     mapping(bytes32 => mapping(bytes32 => uint256)) public attestationIndexByReleaseDigest;
 
+    // CreateAttestation(releaseId,artifactDigest,attestationCid,author,nonce,deadline)
+    bytes32 private constant CREATE_ATTESTATION_TYPEHASH =
+    keccak256(
+        "CreateAttestation(bytes32 releaseId,bytes32 artifactDigest,string attestationCid,address author,uint256 nonce,uint256 deadline)"
+    );
+
     event AttestationCreated(
         uint256 indexed attestationIndex,
         address indexed author,
@@ -78,8 +97,9 @@ contract CodeQuillAttestationRegistry {
     constructor(
         address workspaceAddr,
         address delegationAddr,
-        address releaseRegistryAddr
-    ) {
+        address releaseRegistryAddr,
+        address trustedForwarder
+    ) EIP712("CodeQuillAttestationRegistry", "1") ERC2771Context(trustedForwarder) {
         require(workspaceAddr != address(0), "zero workspace");
         require(delegationAddr != address(0), "zero delegation");
         require(releaseRegistryAddr != address(0), "zero releaseRegistry");
@@ -89,18 +109,19 @@ contract CodeQuillAttestationRegistry {
         releaseRegistry = ICodeQuillReleaseRegistry(releaseRegistryAddr);
     }
 
-    /// @dev author must be self OR delegated, and must be a member of the release contextId.
+    /// @dev author must be self OR delegated, and must be an attestor of the release contextId.
     modifier onlySelfOrDelegatedMember(address author, bytes32 contextId) {
         require(contextId != bytes32(0), "zero context");
         require(author != address(0), "zero author");
         require(workspace.isMember(contextId, author), "author not member");
+        require(workspace.hasRole(contextId, author, workspace.ROLE_ATTESTOR()), "author not attestor");
 
-        if (msg.sender == author) {
+        if (_msgSender() == author) {
             _;
             return;
         }
 
-        bool ok = delegation.isAuthorized(author, msg.sender, delegation.SCOPE_ATTEST(), contextId);
+        bool ok = delegation.consume(author, _msgSender(), delegation.SCOPE_ATTEST(), contextId, bytes32(0));
         require(ok, "not authorized");
         _;
     }
@@ -111,6 +132,47 @@ contract CodeQuillAttestationRegistry {
         string calldata attestationCid,
         address author
     ) external {
+        _createAttestation(releaseId, artifactDigest, attestationCid, author, false);
+    }
+
+    /// @notice Create an attestation signed by its author. Any relayer may submit it, but cannot alter it.
+    /// @dev Signature is over:
+    ///  CreateAttestation(releaseId, artifactDigest, attestationCid, author, nonce, deadline)
+    /// The author may be an EOA or an ERC-1271 contract wallet. No delegation is needed.
+    function createAttestationWithSig(
+        bytes32 releaseId,
+        bytes32 artifactDigest,
+        string calldata attestationCid,
+        address author,
+        uint256 nonce,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        require(block.timestamp <= deadline, "sig expired");
+
+        bytes32 digest = _hashTypedDataV4(keccak256(abi.encode(
+            CREATE_ATTESTATION_TYPEHASH,
+            releaseId,
+            artifactDigest,
+            keccak256(bytes(attestationCid)),
+            author,
+            nonce,
+            deadline
+        )));
+        require(SignatureChecker.isValidSignatureNow(author, digest, signature), "bad signer");
+
+        _useNonce(author, nonce);
+        _createAttestation(releaseId, artifactDigest, attestationCid, author, true);
+    }
+
+    /// @dev `signed` is true when the author signed this exact attestation, which stands in for delegation.
+    function _createAttestation(
+        bytes32 releaseId,
+        bytes32 artifactDigest,
+        string calldata attestationCid,
+        address author,
+        bool signed
+    ) internal {
         require(releaseId != bytes32(0), "zero releaseId");
         require(artifactDigest != bytes32(0), "zero digest");
         require(bytes(attestationCid).length > 0, "empty CID");
@@ -130,8 +192,14 @@ contract CodeQuillAttestationRegistry {
         require(!revoked, "release revoked");
         require(status == ICodeQuillReleaseRegistry.GouvernanceStatus.ACCEPTED, "release not accepted");
 
-        // enforce delegation + membership against the release context
-        _requireSelfOrDelegatedMember(author, contextId);
+        require(workspace.isActive(contextId), "context not active");
+
+        // enforce delegation (unless signed) + membership against the release context
+        if (signed) {
+            _requireAttestor(author, contextId);
+        } else {
+            _requireSelfOrDelegatedMember(author, contextId, delegation.SCOPE_ATTEST());
+        }
 
         require(attestationIndexByReleaseDigest[releaseId][artifactDigest] == 0, "duplicate attestation");
 
@@ -180,7 +248,7 @@ contract CodeQuillAttestationRegistry {
         ignoredStatusAuthor;
         require(contextId != bytes32(0), "release not found");
 
-        _requireSelfOrDelegatedMember(author, contextId);
+        _requireSelfOrDelegatedMember(author, contextId, delegation.SCOPE_REVOKE());
 
         Attestation storage a = attestationsByRelease[releaseId][idx1 - 1];
         require(!a.revoked, "already revoked");
@@ -195,17 +263,23 @@ contract CodeQuillAttestationRegistry {
         );
     }
 
-    function _requireSelfOrDelegatedMember(address author, bytes32 contextId) internal view {
-        require(contextId != bytes32(0), "zero context");
-        require(author != address(0), "zero author");
-        require(workspace.isMember(contextId, author), "author not member");
+    /// @dev `scope` is SCOPE_ATTEST for creating and SCOPE_REVOKE for revoking.
+    function _requireSelfOrDelegatedMember(address author, bytes32 contextId, uint256 scope) internal {
+        _requireAttestor(author, contextId);
 
-        if (msg.sender == author) return;
+        if (_msgSender() == author) return;
 
-        bool ok = delegation.isAuthorized(author, msg.sender, delegation.SCOPE_ATTEST(), contextId);
+        bool ok = delegation.consume(author, _msgSender(), scope, contextId, bytes32(0));
         require(ok, "not authorized");
     }
 
+    function _requireAttestor(address author, bytes32 contextId) internal view {
+        require(contextId != bytes32(0), "zero context");
+        require(author != address(0), "zero author");
+        require(workspace.isMember(contextId, author), "author not member");
+        require(workspace.hasRole(contextId, author, workspace.ROLE_ATTESTOR()), "author not attestor");
+    }
+
     function isRevoked(bytes32 releaseId, bytes32 artifactDigest) external view returns (bool) {
         uint256 idx1 = attestationIndexByReleaseDigest[releaseId][artifactDigest];
         if (idx1 == 0) return false;
@@ -249,4 +323,16 @@ contract CodeQuillAttestationRegistry {
         Attestation storage a = attestationsByRelease[releaseId][idx1 - 1];
         return (a.attestationCid, a.timestamp, a.author, idx1 - 1, a.revoked);
     }
+
+    function _msgSender() internal view override(Context, ERC2771Context) returns (address) {
+        return ERC2771Context._msgSender();
+    }
+
+    function _msgData() internal view override(Context, ERC2771Context) returns (bytes calldata) {
+        return ERC2771Context._msgData();
+    }
+
+    function _contextSuffixLength() internal view override(Context, ERC2771Context) returns (uint256) {
+        return ERC2771Context._contextSuffixLength();
+    }
 }
\ No newline at end of file
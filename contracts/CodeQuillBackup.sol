@@ -1,24 +1,38 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
+import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import {SignatureChecker} from "@openzeppelin/contracts/utils/cryptography/SignatureChecker.sol";
+import {Context} from "@openzeppelin/contracts/utils/Context.sol";
+import {ERC2771Context} from "@openzeppelin/contracts/metatx/ERC2771Context.sol";
+import {CodeQuillNonces} from "./CodeQuillNonces.sol";
+
 interface ICodeQuillRepositoryRegistry {
     function repoOwner(bytes32 repoId) external view returns (address);
     function repoContextId(bytes32 repoId) external view returns (bytes32);
+    function isWritable(bytes32 repoId) external view returns (bool);
+    function ROLE_BACKUP_OPERATOR() external view returns (uint256);
+    function hasRepoRole(bytes32 repoId, address wallet, uint256 role) external view returns (bool);
 }
 
 interface ICodeQuillWorkspaceRegistry {
+    function ROLE_MAINTAINER() external view returns (uint256);
+
     function isMember(bytes32 contextId, address wallet) external view returns (bool);
+    function hasRole(bytes32 contextId, address wallet, uint256 role) external view returns (bool);
+    function isActive(bytes32 contextId) external view returns (bool);
 }
 
 interface ICodeQuillDelegation {
     function SCOPE_BACKUP() external view returns (uint256);
 
-    function isAuthorized(
+    function consume(
         address owner_,
         address relayer_,
         uint256 scope,
-        bytes32 contextId
-    ) external view returns (bool);
+        bytes32 contextId,
+        bytes32 resourceId
+    ) external returns (bool);
 }
 
 interface ICodeQuillSnapshotRegistry {
@@ -29,7 +43,7 @@ interface ICodeQuillSnapshotRegistry {
 /// @title CodeQuillBackupRegistry
 /// @notice Optional registry for anchoring existence of encrypted backups bound to a published snapshot.
 /// @dev This anchors metadata only (hashes + optional CID). It does NOT store plaintext and does NOT prove build causality.
-contract CodeQuillBackupRegistry {
+contract CodeQuillBackupRegistry is EIP712, ERC2771Context, CodeQuillNonces {
     ICodeQuillRepositoryRegistry public immutable registry;
     ICodeQuillWorkspaceRegistry public immutable workspace;
     ICodeQuillDelegation public immutable delegation;
@@ -41,12 +55,18 @@ contract CodeQuillBackupRegistry {
         bytes32 metadataSha256;     // optional: sha256 of backup_metadata JSON (0x0 if unused)
         string  backupCid;          // optional: encrypted blob CID / locator (can be empty)
         uint256 timestamp;          // block.timestamp
-        address author;             // repo owner (recorded for provenance)
+        address author;             // repo owner or backup operator (recorded for provenance)
     }
 
-    // repoId => snapshotRoot => single backup (overwrite allowed)
+    // repoId => snapshotRoot => single backup (overwrite allowed while the author is still owner or backup operator)
     mapping(bytes32 => mapping(bytes32 => Backup)) private backupsOf;
 
+    // AnchorBackup(repoId,contextId,snapshotMerkleRoot,archiveSha256,metadataSha256,backupCid,author,nonce,deadline)
+    bytes32 private constant ANCHOR_BACKUP_TYPEHASH =
+    keccak256(
+        "AnchorBackup(bytes32 repoId,bytes32 contextId,bytes32 snapshotMerkleRoot,bytes32 archiveSha256,bytes32 metadataSha256,string backupCid,address author,uint256 nonce,uint256 deadline)"
+    );
+
     event BackupAnchored(
         bytes32 indexed repoId,
         bytes32 indexed snapshotMerkleRoot,
@@ -62,8 +82,9 @@ contract CodeQuillBackupRegistry {
         address registryAddr,
         address workspaceAddr,
         address delegationAddr,
-        address snapshotAddr
-    ) {
+        address snapshotAddr,
+        address trustedForwarder
+    ) EIP712("CodeQuillBackupRegistry", "1") ERC2771Context(trustedForwarder) {
         require(registryAddr != address(0), "zero registry");
         require(workspaceAddr != address(0), "zero workspace");
         require(delegationAddr != address(0), "zero delegation");
@@ -77,13 +98,13 @@ contract CodeQuillBackupRegistry {
 
     /// @notice Anchor a backup record for a snapshot root.
     /// @dev Works for:
-    ///  - direct repo owner call (msg.sender == repoOwner), and
-    ///  - relayed call where repo owner delegated SCOPE_BACKUP to msg.sender within contextId.
+    ///  - direct author call (msg.sender == author, or forwarded by the author), and
+    ///  - relayed call where the author delegated SCOPE_BACKUP to msg.sender within contextId.
     ///
     /// Principles enforced:
     /// - repo must belong to contextId
-    /// - repo owner must be a member of contextId
-    /// - author must be repo owner (provenance)
+    /// - repo owner (and the author, if different) must be a member of contextId holding ROLE_MAINTAINER
+    /// - author must be repo owner or a repo maintainer holding ROLE_BACKUP_OPERATOR (provenance)
     function anchorBackup(
         bytes32 repoId,
         bytes32 contextId,
@@ -93,24 +114,81 @@ contract CodeQuillBackupRegistry {
         string calldata backupCid,
         address author
     ) external {
+        _anchorBackup(repoId, contextId, snapshotMerkleRoot, archiveSha256, metadataSha256, backupCid, author, false);
+    }
+
+    /// @notice Anchor a backup record signed by its author. Any relayer may submit it, but cannot alter it.
+    /// @dev Signature is over:
+    ///  AnchorBackup(repoId, contextId, snapshotMerkleRoot, archiveSha256, metadataSha256, backupCid, author, nonce, deadline)
+    /// The author may be an EOA or an ERC-1271 contract wallet. No delegation is needed.
+    function anchorBackupWithSig(
+        bytes32 repoId,
+        bytes32 contextId,
+        bytes32 snapshotMerkleRoot,
+        bytes32 archiveSha256,
+        bytes32 metadataSha256,
+        string calldata backupCid,
+        address author,
+        uint256 nonce,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        require(block.timestamp <= deadline, "sig expired");
+
+        bytes32 digest = _hashTypedDataV4(keccak256(abi.encode(
+            ANCHOR_BACKUP_TYPEHASH,
+            repoId,
+            contextId,
+            snapshotMerkleRoot,
+            archiveSha256,
+            metadataSha256,
+            keccak256(bytes(backupCid)),
+            author,
+            nonce,
+            deadline
+        )));
+        require(SignatureChecker.isValidSignatureNow(author, digest, signature), "bad signer");
+
+        _useNonce(author, nonce);
+        _anchorBackup(repoId, contextId, snapshotMerkleRoot, archiveSha256, metadataSha256, backupCid, author, true);
+    }
+
+    /// @dev `signed` is true when the author signed this exact record, which stands in for delegation.
+    function _anchorBackup(
+        bytes32 repoId,
+        bytes32 contextId,
+        bytes32 snapshotMerkleRoot,
+        bytes32 archiveSha256,
+        bytes32 metadataSha256,
+        string calldata backupCid,
+        address author,
+        bool signed
+    ) internal {
         require(contextId != bytes32(0), "zero context");
         require(snapshotMerkleRoot != bytes32(0), "zero snapshot root");
         require(archiveSha256 != bytes32(0), "zero archive sha");
 
         address owner_ = registry.repoOwner(repoId);
         require(owner_ != address(0), "repo not claimed");
+        require(registry.isWritable(repoId), "repo not writable");
 
         bytes32 repoCtx = registry.repoContextId(repoId);
         require(repoCtx == contextId, "repo wrong context");
 
+        require(workspace.isActive(contextId), "context not active");
         require(workspace.isMember(contextId, owner_), "owner not member");
+        require(workspace.hasRole(contextId, owner_, workspace.ROLE_MAINTAINER()), "owner not maintainer");
 
-        // provenance: author is repo owner
-        require(author == owner_, "author must be repo owner");
+        // provenance: author is repo owner or a backup operator of the repo
+        require(registry.hasRepoRole(repoId, author, registry.ROLE_BACKUP_OPERATOR()), "author not backup operator");
+        if (author != owner_) {
+            require(workspace.isMember(contextId, author), "author not member");
+            require(workspace.hasRole(contextId, author, workspace.ROLE_MAINTAINER()), "author not maintainer");
+        }
 
-        // Authorization: owner calls directly OR owner delegated caller for this context
-        if (msg.sender != owner_) {
-            bool isDelegated = delegation.isAuthorized(owner_, msg.sender, delegation.SCOPE_BACKUP(), contextId);
+        // Authorization: author signed this record, calls directly OR delegated caller for this context
+        if (!signed && _msgSender() != author) {
+            bool isDelegated = delegation.consume(author, _msgSender(), delegation.SCOPE_BACKUP(), contextId, repoId);
             require(isDelegated, "not authorized");
         }
 
@@ -118,6 +196,13 @@ contract CodeQuillBackupRegistry {
         uint256 snapIdx1 = snapshot.snapshotIndexByRoot(repoId, snapshotMerkleRoot);
         require(snapIdx1 != 0, "snapshot not found");
 
+        // An existing record can only be replaced while its author still holds a role on the repo, so a later owner
+        // (e.g. after a verified claim override) cannot rewrite the previous owner's backups
+        address previousAuthor = backupsOf[repoId][snapshotMerkleRoot].author;
+        if (previousAuthor != address(0)) {
+            require(registry.hasRepoRole(repoId, previousAuthor, registry.ROLE_BACKUP_OPERATOR()), "backup locked");
+        }
+
         backupsOf[repoId][snapshotMerkleRoot] = Backup({
             snapshotMerkleRoot: snapshotMerkleRoot,
             archiveSha256: archiveSha256,
@@ -158,4 +243,16 @@ contract CodeQuillBackupRegistry {
         require(b.timestamp != 0, "backup not found");
         return (b.archiveSha256, b.metadataSha256, b.backupCid, b.timestamp, b.author);
     }
+
+    function _msgSender() internal view override(Context, ERC2771Context) returns (address) {
+        return ERC2771Context._msgSender();
+    }
+
+    function _msgData() internal view override(Context, ERC2771Context) returns (bytes calldata) {
+        return ERC2771Context._msgData();
+    }
+
+    function _contextSuffixLength() internal view override(Context, ERC2771Context) returns (uint256) {
+        return ERC2771Context._contextSuffixLength();
+    }
 }
\ No newline at end of file
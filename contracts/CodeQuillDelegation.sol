@@ -1,8 +1,10 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
 import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import {SignatureChecker} from "@openzeppelin/contracts/utils/cryptography/SignatureChecker.sol";
+import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+import {EnumerableSet} from "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
 
 /**
  * @title CodeQuillDelegation
@@ -12,13 +14,22 @@ import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
  * - Gives cryptographic guarantees that a delegation is valid only for a specific "workspace", without needing an
  *   on-chain workspace registry.
  *
+ * Signatures are checked with SignatureChecker, so owners may be EOAs or ERC-1271 contract wallets (e.g. Safe).
+ *
  * Authorization rule:
  *  - delegation exists for (owner, relayer, contextId) if expiry != 0 and >= now
  *  - and (storedScopes & requiredScope) != 0
- *  - SCOPE_ALL authorizes any scope
+ *  - SCOPE_ALL authorizes any scope; otherwise only the scope bits listed in the catalogue may be granted
+ *  - a delegation signed with a resource allow-list (repoIds / projectIds) only authorizes those resources,
+ *    checked through isAuthorizedFor; without one it covers every resource of the context
+ *  - a delegation with a use limit and/or a per-period quota stops authorizing once it is used up;
+ *    registered registries (consumers) count uses through consume
+ *  - a relayer may sub-delegate a subset of its scopes, until no later than its own expiry; every link up
+ *    to the owner-signed delegation must still hold, so revoking or replacing a link cuts off its descendants
+ *  - revokeAll bumps the owner's epoch, which invalidates every delegation registered under an earlier epoch
  */
-contract CodeQuillDelegation is EIP712 {
-    using ECDSA for bytes32;
+contract CodeQuillDelegation is EIP712, Ownable {
+    using EnumerableSet for EnumerableSet.Bytes32Set;
 
     // ---- Scopes (bitmask) ----
     uint256 public constant SCOPE_CLAIM = 1 << 0;
@@ -26,8 +37,15 @@ contract CodeQuillDelegation is EIP712 {
     uint256 public constant SCOPE_ATTEST = 1 << 2;
     uint256 public constant SCOPE_BACKUP = 1 << 3;
     uint256 public constant SCOPE_RELEASE = 1 << 4;
+    uint256 public constant SCOPE_GOVERN = 1 << 5;     // accept / reject releases
+    uint256 public constant SCOPE_DAO_CONFIG = 1 << 6; // set a context's DAO executor
+    uint256 public constant SCOPE_TRANSFER = 1 << 7;   // transfer repositories
+    uint256 public constant SCOPE_REVOKE = 1 << 8;     // revoke / supersede releases, revoke attestations
     uint256 public constant SCOPE_ALL = type(uint256).max;
 
+    /// @dev Union of every defined scope bit; see scopeCatalogue.
+    uint256 public constant SCOPE_DEFINED = (1 << 9) - 1;
+
     // ---- Storage ----
     // owner -> relayer -> contextId -> scopes bitmask
     mapping(address => mapping(address => mapping(bytes32 => uint256))) public scopesOf;
@@ -35,14 +53,108 @@ contract CodeQuillDelegation is EIP712 {
     // owner -> relayer -> contextId -> unix expiry seconds
     mapping(address => mapping(address => mapping(bytes32 => uint64))) public expiryOf;
 
+    // owner -> relayer -> contextId -> key of the resource allow-list (zero means every resource)
+    mapping(address => mapping(address => mapping(bytes32 => bytes32))) public resourceListOf;
+
+    // allow-list key -> resourceId -> allowed
+    mapping(bytes32 => mapping(bytes32 => bool)) private allowedResource;
+
+    // Use limits of a delegation; all zero means unlimited
+    struct Usage {
+        uint64 maxUses;      // total uses allowed (0 = unlimited)
+        uint64 used;         // total uses so far
+        uint64 quota;        // uses allowed per period (0 = no quota)
+        uint64 period;       // period length in seconds
+        uint64 window;       // index of the period `usedInWindow` refers to (timestamp / period)
+        uint64 usedInWindow; // uses within that period
+    }
+
+    // owner -> relayer -> contextId -> usage limits and counters
+    mapping(address => mapping(address => mapping(bytes32 => Usage))) public usageOf;
+
+    // registry -> allowed to call consume
+    mapping(address => bool) public isConsumer;
+
+    // ---- Sub-delegation ----
+    // Maximum number of sub-delegation hops below an owner-signed delegation
+    uint8 public constant MAX_DELEGATION_DEPTH = 3;
+
+    // Position of a delegation in its chain
+    struct Link {
+        address delegator;  // relayer that sub-delegated (zero for owner-signed delegations)
+        uint64 id;          // unique per registration, zero once revoked
+        uint64 delegatorId; // id of the delegator's link when this one was created
+        uint8 depth;        // 0 for owner-signed delegations
+        uint64 epoch;       // owner's epoch at registration; stale once the owner calls revokeAll
+    }
+
+    // owner -> relayer -> contextId -> chain link
+    mapping(address => mapping(address => mapping(bytes32 => Link))) public linkOf;
+
+    uint64 private lastLinkId;
+
+    // owner -> current delegation epoch (bumped by revokeAll)
+    mapping(address => uint64) public epochOf;
+
+    // ---- Enumeration ----
+    struct DelegationKey {
+        address owner;
+        address relayer;
+        bytes32 contextId;
+    }
+
+    // Row returned by the paginated views; `active` is false once expired or cut off from its chain
+    struct DelegationInfo {
+        address owner;
+        address relayer;
+        bytes32 contextId;
+        uint256 scopes;
+        uint64 expiry;
+        bool active;
+    }
+
+    /// @dev Indexes of registered delegations by keccak256(owner, relayer, contextId), kept in sync by
+    /// _indexDelegation / _clearDelegation. Expired entries stay listed until they are revoked.
+    mapping(bytes32 => DelegationKey) private delegationKeys;
+    mapping(address => EnumerableSet.Bytes32Set) private grantedBy;
+    mapping(address => EnumerableSet.Bytes32Set) private heldBy;
+    mapping(bytes32 => EnumerableSet.Bytes32Set) private delegationsIn;
+
     // EIP-712 nonce per owner (global across contexts; simple & safe)
     mapping(address => uint256) public nonces;
 
+    // Nonces with this bit set are unordered (Permit2-style): consumed from `nonceBitmap`
+    // (word = low 255 bits >> 8, bit = low 8 bits) instead of the sequential counter.
+    uint256 public constant UNORDERED_NONCE_FLAG = 1 << 255;
+
+    // owner -> word position -> bitmap of consumed unordered nonces
+    mapping(address => mapping(uint256 => uint256)) public nonceBitmap;
+
+    // One context of a DelegateBatch: unrestricted resources, no use limits
+    struct DelegationEntry {
+        bytes32 contextId;
+        uint256 scopes;
+        uint256 expiry;
+    }
+
     // ---- EIP-712 typehashes ----
-    // Delegate(owner,relayer,contextId,scopes,nonce,expiry,deadline)
+    // Delegate(owner,relayer,contextId,scopes,resources,maxUses,quota,period,epoch,nonce,expiry,deadline)
     bytes32 private constant DELEGATE_TYPEHASH =
     keccak256(
-        "Delegate(address owner,address relayer,bytes32 contextId,uint256 scopes,uint256 nonce,uint256 expiry,uint256 deadline)"
+        "Delegate(address owner,address relayer,bytes32 contextId,uint256 scopes,bytes32[] resources,uint64 maxUses,uint64 quota,uint64 period,uint64 epoch,uint256 nonce,uint256 expiry,uint256 deadline)"
+    );
+
+    // DelegationEntry(contextId,scopes,expiry)
+    bytes32 private constant DELEGATION_ENTRY_TYPEHASH =
+    keccak256(
+        "DelegationEntry(bytes32 contextId,uint256 scopes,uint256 expiry)"
+    );
+
+    // DelegateBatch(owner,relayer,entries,epoch,nonce,deadline)
+    bytes32 private constant DELEGATE_BATCH_TYPEHASH =
+    keccak256(
+        "DelegateBatch(address owner,address relayer,DelegationEntry[] entries,uint64 epoch,uint256 nonce,uint256 deadline)"
+        "DelegationEntry(bytes32 contextId,uint256 scopes,uint256 expiry)"
     );
 
     // Revoke(owner,relayer,contextId,nonce,deadline)
@@ -51,6 +163,24 @@ contract CodeQuillDelegation is EIP712 {
         "Revoke(address owner,address relayer,bytes32 contextId,uint256 nonce,uint256 deadline)"
     );
 
+    // RevokeAll(owner,nonce,deadline)
+    bytes32 private constant REVOKE_ALL_TYPEHASH =
+    keccak256(
+        "RevokeAll(address owner,uint256 nonce,uint256 deadline)"
+    );
+
+    // CancelSignature(owner,nonce,deadline) -- consuming `nonce` is itself the replay protection
+    bytes32 private constant CANCEL_SIGNATURE_TYPEHASH =
+    keccak256(
+        "CancelSignature(address owner,uint256 nonce,uint256 deadline)"
+    );
+
+    // InvalidateNonces(owner,wordPos,mask,nonce,deadline)
+    bytes32 private constant INVALIDATE_NONCES_TYPEHASH =
+    keccak256(
+        "InvalidateNonces(address owner,uint256 wordPos,uint256 mask,uint256 nonce,uint256 deadline)"
+    );
+
     // ---- Events ----
     event Delegated(
         address indexed owner,
@@ -60,33 +190,218 @@ contract CodeQuillDelegation is EIP712 {
         uint64 expiry
     );
 
+    event ResourcesRestricted(
+        address indexed owner,
+        address indexed relayer,
+        bytes32 indexed contextId,
+        bytes32[] resources
+    );
+
+    event UsageLimitsSet(
+        address indexed owner,
+        address indexed relayer,
+        bytes32 indexed contextId,
+        uint64 maxUses,
+        uint64 quota,
+        uint64 period
+    );
+
+    // remaining values are type(uint256).max when the corresponding limit is not set
+    event DelegationUsed(
+        address indexed owner,
+        address indexed relayer,
+        bytes32 indexed contextId,
+        uint256 remainingUses,
+        uint256 remainingInPeriod
+    );
+
+    event ConsumerSet(address indexed consumer, bool allowed);
+
+    event SubDelegated(
+        address indexed owner,
+        address indexed delegator,
+        address indexed delegate,
+        bytes32 contextId,
+        uint256 scopes,
+        uint64 expiry
+    );
+
     event Revoked(
         address indexed owner,
         address indexed relayer,
         bytes32 indexed contextId
     );
 
+    event AllRevoked(address indexed owner, uint64 epoch);
+
+    event SignatureCancelled(address indexed owner, uint256 nonce);
+
+    event NoncesInvalidated(address indexed owner, uint256 indexed wordPos, uint256 mask);
+
     constructor()
     EIP712("CodeQuillDelegation", "1")
+    Ownable(msg.sender)
     {}
 
     // ---- Views ----
 
+    // ---- Scope catalogue ----
+
+    /// @notice Name of a single defined scope bit, or "" if `scope` is not one.
+    function scopeName(uint256 scope) public pure returns (string memory) {
+        if (scope == SCOPE_CLAIM) return "CLAIM";
+        if (scope == SCOPE_SNAPSHOT) return "SNAPSHOT";
+        if (scope == SCOPE_ATTEST) return "ATTEST";
+        if (scope == SCOPE_BACKUP) return "BACKUP";
+        if (scope == SCOPE_RELEASE) return "RELEASE";
+        if (scope == SCOPE_GOVERN) return "GOVERN";
+        if (scope == SCOPE_DAO_CONFIG) return "DAO_CONFIG";
+        if (scope == SCOPE_TRANSFER) return "TRANSFER";
+        if (scope == SCOPE_REVOKE) return "REVOKE";
+        return "";
+    }
+
+    /// @notice Every defined scope bit with its name, in bit order.
+    function scopeCatalogue() external pure returns (uint256[] memory scopes, string[] memory names) {
+        uint256 count = 0;
+        while (1 << count <= SCOPE_DEFINED) count++;
+        scopes = new uint256[](count);
+        names = new string[](count);
+        for (uint256 i = 0; i < count; i++) {
+            scopes[i] = 1 << i;
+            names[i] = scopeName(1 << i);
+        }
+    }
+
+    /// @notice True if `scopes` is SCOPE_ALL or only uses defined scope bits.
+    function isValidScopes(uint256 scopes) public pure returns (bool) {
+        return scopes == SCOPE_ALL || scopes & ~SCOPE_DEFINED == 0;
+    }
+
+    /**
+     * @notice Migration helper: the scopes a grant needs today to keep what `scopes` allowed before
+     * SCOPE_GOVERN, SCOPE_DAO_CONFIG, SCOPE_TRANSFER and SCOPE_REVOKE were split out.
+     * @dev SCOPE_RELEASE used to cover governance, DAO config and release revocation, SCOPE_CLAIM used to
+     * cover transfers, and SCOPE_ATTEST used to cover attestation revocation. Owners re-sign their grants
+     * with the expanded scopes; existing grants are not widened on-chain.
+     * SCOPE_REVOKE is shared by releases and attestations, so the expansion is wider than the legacy grant:
+     * an expanded release grant can also revoke attestations, and an expanded attest grant can also revoke
+     * and supersede releases.
+     */
+    function expandLegacyScopes(uint256 scopes) external pure returns (uint256) {
+        if (scopes == SCOPE_ALL) return SCOPE_ALL;
+        if (scopes & SCOPE_RELEASE != 0) scopes |= SCOPE_GOVERN | SCOPE_DAO_CONFIG | SCOPE_REVOKE;
+        if (scopes & SCOPE_CLAIM != 0) scopes |= SCOPE_TRANSFER;
+        if (scopes & SCOPE_ATTEST != 0) scopes |= SCOPE_REVOKE;
+        return scopes;
+    }
+
+    /**
+     * @notice Context-wide authorization check.
+     * @dev Resource-restricted delegations never pass it; use isAuthorizedFor for resource-bound actions.
+     */
     function isAuthorized(
         address owner_,
         address relayer_,
         uint256 scope,
         bytes32 contextId
+    ) public view returns (bool) {
+        return isAuthorizedFor(owner_, relayer_, scope, contextId, bytes32(0));
+    }
+
+    /**
+     * @notice Authorization check for an action on `resourceId` (a repoId or projectId) within `contextId`.
+     * @dev `resourceId == 0` stands for a context-wide action, which only unrestricted delegations cover.
+     * For a sub-delegation, every link up to the owner-signed delegation must authorize the action.
+     */
+    function isAuthorizedFor(
+        address owner_,
+        address relayer_,
+        uint256 scope,
+        bytes32 contextId,
+        bytes32 resourceId
     ) public view returns (bool) {
         if (contextId == bytes32(0)) return false;
 
-        uint64 exp = expiryOf[owner_][relayer_][contextId];
-        if (exp == 0 || exp < block.timestamp) return false;
+        for (uint256 i = 0; i <= MAX_DELEGATION_DEPTH; i++) {
+            if (!_linkAuthorizes(owner_, relayer_, scope, contextId, resourceId)) return false;
 
-        uint256 scopes = scopesOf[owner_][relayer_][contextId];
-        if (scopes == SCOPE_ALL) return true;
+            Link memory l = linkOf[owner_][relayer_][contextId];
+            if (l.delegator == address(0)) return true;
+            if (linkOf[owner_][l.delegator][contextId].id != l.delegatorId) return false;
+
+            relayer_ = l.delegator;
+        }
+        return false;
+    }
+
+    /**
+     * @notice Uses left on a delegation: in total, and in the current period.
+     * @dev Each value is type(uint256).max when the corresponding limit is not set.
+     */
+    function remainingUses(
+        address owner_,
+        address relayer_,
+        bytes32 contextId
+    ) public view returns (uint256 uses, uint256 inPeriod) {
+        Usage memory u = usageOf[owner_][relayer_][contextId];
+
+        uses = u.maxUses == 0 ? type(uint256).max : u.maxUses - u.used;
+
+        if (u.quota == 0) {
+            inPeriod = type(uint256).max;
+        } else if (block.timestamp / u.period != u.window) {
+            inPeriod = u.quota;
+        } else {
+            inPeriod = u.quota - u.usedInWindow;
+        }
+    }
+
+    function getDelegationCountByOwner(address owner_) external view returns (uint256) {
+        return grantedBy[owner_].length();
+    }
+
+    function getDelegationCountByRelayer(address relayer_) external view returns (uint256) {
+        return heldBy[relayer_].length();
+    }
+
+    function getDelegationCountByContext(bytes32 contextId) external view returns (uint256) {
+        return delegationsIn[contextId].length();
+    }
+
+    /// @notice Paginated delegations granted by `owner_`, including sub-delegations of them (order is not stable).
+    function getDelegationsByOwner(address owner_, uint256 offset, uint256 limit)
+    external
+    view
+    returns (DelegationInfo[] memory)
+    {
+        return _page(grantedBy[owner_], offset, limit);
+    }
+
+    /// @notice Paginated delegations held by `relayer_` (order is not stable).
+    function getDelegationsByRelayer(address relayer_, uint256 offset, uint256 limit)
+    external
+    view
+    returns (DelegationInfo[] memory)
+    {
+        return _page(heldBy[relayer_], offset, limit);
+    }
+
+    /// @notice Paginated delegations registered in `contextId` (order is not stable).
+    function getDelegationsByContext(bytes32 contextId, uint256 offset, uint256 limit)
+    external
+    view
+    returns (DelegationInfo[] memory)
+    {
+        return _page(delegationsIn[contextId], offset, limit);
+    }
 
-        return (scopes & scope) != 0;
+    /**
+     * @notice True if `nonce` can no longer be used by `owner_` (sequential: already passed; unordered: bit set).
+     */
+    function isNonceUsed(address owner_, uint256 nonce) external view returns (bool) {
+        if (nonce & UNORDERED_NONCE_FLAG == 0) return nonce < nonces[owner_];
+        return nonceBitmap[owner_][(nonce ^ UNORDERED_NONCE_FLAG) >> 8] & (1 << (nonce & 0xff)) != 0;
     }
 
     // ---- Writes ----
@@ -95,25 +410,34 @@ contract CodeQuillDelegation is EIP712 {
      * @notice Register or update a delegation using an EIP-712 signature from `owner_`.
      *
      * @dev Signature is over:
-     *  Delegate(owner, relayer, contextId, scopes, nonce, expiry, deadline)
+     *  Delegate(owner, relayer, contextId, scopes, resources, maxUses, quota, period, epoch, nonce, expiry, deadline)
+     *
+     * `epoch` is the owner's current epochOf, taken from storage rather than passed in: a signature made
+     * before the owner's last revokeAll no longer verifies, so a relayer cannot register it afterwards.
+     * An empty `resources` list delegates for every resource of the context; otherwise only the listed
+     * repoIds / projectIds are covered. `maxUses` caps the total number of relayed actions and `quota` the
+     * number per `period` seconds (0 = no limit). Re-registering replaces the list and resets the counters.
      */
     function registerDelegationWithSig(
         address owner_,
         address relayer_,
         bytes32 contextId,
         uint256 scopes,
+        bytes32[] calldata resources,
+        uint64 maxUses,
+        uint64 quota,
+        uint64 period,    // seconds, required with a quota
         uint256 expiry,   // unix seconds
+        uint256 nonce,    // sequential, or UNORDERED_NONCE_FLAG | n
         uint256 deadline, // unix seconds
-        uint8 v,
-        bytes32 r,
-        bytes32 s
+        bytes calldata signature
     ) external {
         if (block.timestamp > deadline) revert("SigExpired");
         if (expiry <= block.timestamp) revert("BadExpiry");
         if (owner_ == address(0) || relayer_ == address(0)) revert("ZeroAddr");
         if (contextId == bytes32(0)) revert("ZeroContext");
-
-        uint256 nonce = nonces[owner_];
+        if ((quota == 0) != (period == 0)) revert("BadQuota");
+        if (!isValidScopes(scopes)) revert("UndefinedScope");
 
         bytes32 structHash = keccak256(
             abi.encode(
@@ -122,6 +446,11 @@ contract CodeQuillDelegation is EIP712 {
                 relayer_,
                 contextId,
                 scopes,
+                keccak256(abi.encodePacked(resources)),
+                maxUses,
+                quota,
+                period,
+                epochOf[owner_],
                 nonce,
                 expiry,
                 deadline
@@ -129,15 +458,154 @@ contract CodeQuillDelegation is EIP712 {
         );
 
         bytes32 digest = _hashTypedDataV4(structHash);
-        address signer = ECDSA.recover(digest, v, r, s);
-        if (signer != owner_) revert("BadSigner");
+        if (!SignatureChecker.isValidSignatureNow(owner_, digest, signature)) revert("BadSigner");
 
-        nonces[owner_] = nonce + 1;
+        _useNonce(owner_, nonce);
 
-        scopesOf[owner_][relayer_][contextId] = scopes;
-        expiryOf[owner_][relayer_][contextId] = uint64(expiry);
+        _setResources(owner_, relayer_, contextId, digest, resources);
+        _setUsage(owner_, relayer_, contextId, maxUses, quota, period);
+        _storeDelegation(owner_, relayer_, contextId, scopes, expiry);
+    }
 
-        emit Delegated(owner_, relayer_, contextId, scopes, uint64(expiry));
+    /**
+     * @notice Register or update delegations to one relayer in several contexts with a single signature.
+     *
+     * @dev Signature is over:
+     *  DelegateBatch(owner, relayer, entries, epoch, nonce, deadline)
+     *  DelegationEntry(contextId, scopes, expiry)
+     *
+     * As for a single delegation, `epoch` is the owner's current epochOf, so revokeAll voids pending batches.
+     * Each entry is an unrestricted delegation without use limits, replacing any existing one in that
+     * context. All entries are registered atomically, with one Delegated event per entry.
+     */
+    function registerDelegationBatchWithSig(
+        address owner_,
+        address relayer_,
+        DelegationEntry[] calldata entries,
+        uint256 nonce,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        if (block.timestamp > deadline) revert("SigExpired");
+        if (owner_ == address(0) || relayer_ == address(0)) revert("ZeroAddr");
+        if (entries.length == 0) revert("EmptyBatch");
+
+        bytes32[] memory entryHashes = new bytes32[](entries.length);
+        for (uint256 i = 0; i < entries.length; i++) {
+            DelegationEntry calldata e = entries[i];
+            if (e.expiry <= block.timestamp) revert("BadExpiry");
+            if (e.contextId == bytes32(0)) revert("ZeroContext");
+            if (!isValidScopes(e.scopes)) revert("UndefinedScope");
+            entryHashes[i] = keccak256(abi.encode(DELEGATION_ENTRY_TYPEHASH, e.contextId, e.scopes, e.expiry));
+        }
+
+        bytes32 digest = _hashTypedDataV4(keccak256(abi.encode(
+            DELEGATE_BATCH_TYPEHASH,
+            owner_,
+            relayer_,
+            keccak256(abi.encodePacked(entryHashes)),
+            epochOf[owner_],
+            nonce,
+            deadline
+        )));
+        if (!SignatureChecker.isValidSignatureNow(owner_, digest, signature)) revert("BadSigner");
+
+        _useNonce(owner_, nonce);
+
+        for (uint256 i = 0; i < entries.length; i++) {
+            DelegationEntry calldata e = entries[i];
+            resourceListOf[owner_][relayer_][e.contextId] = bytes32(0);
+            _setUsage(owner_, relayer_, e.contextId, 0, 0, 0);
+            _storeDelegation(owner_, relayer_, e.contextId, e.scopes, e.expiry);
+        }
+    }
+
+    /**
+     * @notice Count one relayed action against a delegation. Only registered consumers can call it.
+     * @dev Returns false, without side effects, if the delegation does not authorize the action
+     * (see isAuthorizedFor); the calling registry reverts in that case. For a sub-delegation, the use
+     * is counted on every link of the chain, so a parent's limits also cap its delegates.
+     */
+    function consume(
+        address owner_,
+        address relayer_,
+        uint256 scope,
+        bytes32 contextId,
+        bytes32 resourceId
+    ) external returns (bool) {
+        if (!isConsumer[msg.sender]) revert("NotConsumer");
+        if (!isAuthorizedFor(owner_, relayer_, scope, contextId, resourceId)) return false;
+
+        // isAuthorizedFor has checked the chain, so it ends at the owner-signed delegation
+        while (relayer_ != address(0)) {
+            _countUse(owner_, relayer_, contextId);
+            relayer_ = linkOf[owner_][relayer_][contextId].delegator;
+        }
+        return true;
+    }
+
+    /**
+     * @notice Allow or disallow a registry to call consume.
+     */
+    function setConsumer(address consumer, bool allowed) external onlyOwner {
+        if (consumer == address(0)) revert("ZeroAddr");
+        isConsumer[consumer] = allowed;
+        emit ConsumerSet(consumer, allowed);
+    }
+
+    /**
+     * @notice Hand a subset of msg.sender's delegation from `owner_` to `delegate_`.
+     * @dev `scopes` must be covered by msg.sender's scopes and `expiry` may not exceed its expiry. The sub-delegation
+     * inherits the resource allow-list and use limits of every link above it, and stops working as soon as any of
+     * them is revoked, replaced or expires. msg.sender can only overwrite its own sub-delegations.
+     */
+    function subDelegate(
+        address owner_,
+        address delegate_,
+        bytes32 contextId,
+        uint256 scopes,
+        uint256 expiry
+    ) external {
+        if (delegate_ == address(0)) revert("ZeroAddr");
+        if (delegate_ == owner_ || delegate_ == msg.sender) revert("SelfDelegation");
+        if (!_chainActive(owner_, msg.sender, contextId)) revert("NotDelegated");
+
+        Link memory parent = linkOf[owner_][msg.sender][contextId];
+        if (parent.depth >= MAX_DELEGATION_DEPTH) revert("TooDeep");
+
+        uint256 parentScopes = scopesOf[owner_][msg.sender][contextId];
+        if (scopes == 0 || (parentScopes != SCOPE_ALL && scopes & ~parentScopes != 0)) revert("ScopeEscalation");
+        if (!isValidScopes(scopes)) revert("UndefinedScope");
+        if (expiry <= block.timestamp || expiry > expiryOf[owner_][msg.sender][contextId]) revert("BadExpiry");
+
+        Link memory existing = linkOf[owner_][delegate_][contextId];
+        if (existing.id != 0 && existing.delegator != msg.sender && _chainActive(owner_, delegate_, contextId)) {
+            revert("DelegateTaken");
+        }
+
+        _clearDelegation(owner_, delegate_, contextId);
+        scopesOf[owner_][delegate_][contextId] = scopes;
+        expiryOf[owner_][delegate_][contextId] = uint64(expiry);
+        linkOf[owner_][delegate_][contextId] = Link({
+            delegator: msg.sender,
+            id: ++lastLinkId,
+            delegatorId: parent.id,
+            depth: parent.depth + 1,
+            epoch: parent.epoch
+        });
+        _indexDelegation(owner_, delegate_, contextId);
+
+        emit SubDelegated(owner_, msg.sender, delegate_, contextId, scopes, uint64(expiry));
+    }
+
+    /**
+     * @notice Revoke a sub-delegation msg.sender handed to `delegate_` (and, with it, everything below it).
+     */
+    function revokeSubDelegation(address owner_, address delegate_, bytes32 contextId) external {
+        if (linkOf[owner_][delegate_][contextId].delegator != msg.sender) revert("NotDelegator");
+
+        _clearDelegation(owner_, delegate_, contextId);
+        emit Revoked(owner_, delegate_, contextId);
     }
 
     /**
@@ -147,8 +615,7 @@ contract CodeQuillDelegation is EIP712 {
         if (relayer_ == address(0)) revert("ZeroAddr");
         if (contextId == bytes32(0)) revert("ZeroContext");
 
-        scopesOf[msg.sender][relayer_][contextId] = 0;
-        expiryOf[msg.sender][relayer_][contextId] = 0;
+        _clearDelegation(msg.sender, relayer_, contextId);
 
         emit Revoked(msg.sender, relayer_, contextId);
     }
@@ -163,17 +630,14 @@ contract CodeQuillDelegation is EIP712 {
         address owner_,
         address relayer_,
         bytes32 contextId,
+        uint256 nonce,
         uint256 deadline,
-        uint8 v,
-        bytes32 r,
-        bytes32 s
+        bytes calldata signature
     ) external {
         if (block.timestamp > deadline) revert("SigExpired");
         if (owner_ == address(0) || relayer_ == address(0)) revert("ZeroAddr");
         if (contextId == bytes32(0)) revert("ZeroContext");
 
-        uint256 nonce = nonces[owner_];
-
         bytes32 structHash = keccak256(
             abi.encode(
                 REVOKE_TYPEHASH,
@@ -186,14 +650,304 @@ contract CodeQuillDelegation is EIP712 {
         );
 
         bytes32 digest = _hashTypedDataV4(structHash);
-        address signer = ECDSA.recover(digest, v, r, s);
-        if (signer != owner_) revert("BadSigner");
+        if (!SignatureChecker.isValidSignatureNow(owner_, digest, signature)) revert("BadSigner");
+
+        _useNonce(owner_, nonce);
+
+        _clearDelegation(owner_, relayer_, contextId);
+
+        emit Revoked(owner_, relayer_, contextId);
+    }
+
+    /**
+     * @notice Invalidate every delegation msg.sender has granted, across all relayers and contexts.
+     * @dev Signed Delegate messages that have not been submitted yet are not affected; burn their nonces
+     * with cancelSignature / invalidateNonces.
+     */
+    function revokeAll() external {
+        _revokeAll(msg.sender);
+    }
+
+    /**
+     * @notice revokeAll on behalf of `owner_`, using its EIP-712 signature.
+     *
+     * @dev Signature is over:
+     *  RevokeAll(owner, nonce, deadline)
+     */
+    function revokeAllWithSig(
+        address owner_,
+        uint256 nonce,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        if (block.timestamp > deadline) revert("SigExpired");
+
+        bytes32 digest = _hashTypedDataV4(
+            keccak256(abi.encode(REVOKE_ALL_TYPEHASH, owner_, nonce, deadline))
+        );
+        if (!SignatureChecker.isValidSignatureNow(owner_, digest, signature)) revert("BadSigner");
+
+        _useNonce(owner_, nonce);
+        _revokeAll(owner_);
+    }
+
+    /**
+     * @notice Burn one of msg.sender's nonces so a signature handed out with it can never be used.
+     * @dev A sequential nonce must be the next one; burning it unblocks the following nonce.
+     */
+    function cancelSignature(uint256 nonce) external {
+        _useNonce(msg.sender, nonce);
+        emit SignatureCancelled(msg.sender, nonce);
+    }
+
+    /**
+     * @notice cancelSignature on behalf of `owner_`, using its EIP-712 signature.
+     *
+     * @dev Signature is over:
+     *  CancelSignature(owner, nonce, deadline)
+     */
+    function cancelSignatureWithSig(
+        address owner_,
+        uint256 nonce,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        if (block.timestamp > deadline) revert("SigExpired");
+
+        bytes32 digest = _hashTypedDataV4(
+            keccak256(abi.encode(CANCEL_SIGNATURE_TYPEHASH, owner_, nonce, deadline))
+        );
+        if (!SignatureChecker.isValidSignatureNow(owner_, digest, signature)) revert("BadSigner");
+
+        _useNonce(owner_, nonce);
+        emit SignatureCancelled(owner_, nonce);
+    }
+
+    /**
+     * @notice Mark every unordered nonce of msg.sender in `mask` (within bitmap word `wordPos`) as used.
+     */
+    function invalidateNonces(uint256 wordPos, uint256 mask) external {
+        _invalidateNonces(msg.sender, wordPos, mask);
+    }
+
+    /**
+     * @notice invalidateNonces on behalf of `owner_`, using its EIP-712 signature.
+     *
+     * @dev Signature is over:
+     *  InvalidateNonces(owner, wordPos, mask, nonce, deadline)
+     */
+    function invalidateNoncesWithSig(
+        address owner_,
+        uint256 wordPos,
+        uint256 mask,
+        uint256 nonce,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        if (block.timestamp > deadline) revert("SigExpired");
+
+        bytes32 digest = _hashTypedDataV4(
+            keccak256(abi.encode(INVALIDATE_NONCES_TYPEHASH, owner_, wordPos, mask, nonce, deadline))
+        );
+        if (!SignatureChecker.isValidSignatureNow(owner_, digest, signature)) revert("BadSigner");
+
+        _useNonce(owner_, nonce);
+        _invalidateNonces(owner_, wordPos, mask);
+    }
+
+    // ---- Internals ----
+
+    function _useNonce(address owner_, uint256 nonce) internal {
+        if (nonce & UNORDERED_NONCE_FLAG == 0) {
+            if (nonce != nonces[owner_]) revert("BadNonce");
+            nonces[owner_] = nonce + 1;
+        } else {
+            uint256 wordPos = (nonce ^ UNORDERED_NONCE_FLAG) >> 8;
+            uint256 bit = 1 << (nonce & 0xff);
+            if (nonceBitmap[owner_][wordPos] & bit != 0) revert("NonceUsed");
+            nonceBitmap[owner_][wordPos] |= bit;
+        }
+    }
+
+    /// @dev Stores the allow-list under a fresh key (the unique signature digest), so a replaced list
+    /// never leaks entries into the new one.
+    function _setResources(
+        address owner_,
+        address relayer_,
+        bytes32 contextId,
+        bytes32 key,
+        bytes32[] calldata resources
+    ) internal {
+        if (resources.length == 0) {
+            resourceListOf[owner_][relayer_][contextId] = bytes32(0);
+            return;
+        }
+
+        for (uint256 i = 0; i < resources.length; i++) {
+            if (resources[i] == bytes32(0)) revert("ZeroResource");
+            allowedResource[key][resources[i]] = true;
+        }
+        resourceListOf[owner_][relayer_][contextId] = key;
+
+        emit ResourcesRestricted(owner_, relayer_, contextId, resources);
+    }
+
+    /// @dev Stores an owner-signed delegation as a fresh root link (cutting off the old chain) and indexes it.
+    function _storeDelegation(
+        address owner_,
+        address relayer_,
+        bytes32 contextId,
+        uint256 scopes,
+        uint256 expiry
+    ) internal {
+        scopesOf[owner_][relayer_][contextId] = scopes;
+        expiryOf[owner_][relayer_][contextId] = uint64(expiry);
+        linkOf[owner_][relayer_][contextId] = Link({
+            delegator: address(0),
+            id: ++lastLinkId,
+            delegatorId: 0,
+            depth: 0,
+            epoch: epochOf[owner_]
+        });
+        _indexDelegation(owner_, relayer_, contextId);
+
+        emit Delegated(owner_, relayer_, contextId, scopes, uint64(expiry));
+    }
+
+    function _setUsage(
+        address owner_,
+        address relayer_,
+        bytes32 contextId,
+        uint64 maxUses,
+        uint64 quota,
+        uint64 period
+    ) internal {
+        usageOf[owner_][relayer_][contextId] = Usage({
+            maxUses: maxUses,
+            used: 0,
+            quota: quota,
+            period: period,
+            window: 0,
+            usedInWindow: 0
+        });
+
+        if (maxUses != 0 || quota != 0) {
+            emit UsageLimitsSet(owner_, relayer_, contextId, maxUses, quota, period);
+        }
+    }
+
+    /// @dev Checks a single link, ignoring its delegator.
+    function _linkAuthorizes(
+        address owner_,
+        address relayer_,
+        uint256 scope,
+        bytes32 contextId,
+        bytes32 resourceId
+    ) internal view returns (bool) {
+        uint64 exp = expiryOf[owner_][relayer_][contextId];
+        if (exp == 0 || exp < block.timestamp) return false;
+        if (linkOf[owner_][relayer_][contextId].epoch != epochOf[owner_]) return false;
+
+        uint256 scopes = scopesOf[owner_][relayer_][contextId];
+        if (scopes != SCOPE_ALL && (scopes & scope) == 0) return false;
+
+        bytes32 list = resourceListOf[owner_][relayer_][contextId];
+        if (list != bytes32(0) && !allowedResource[list][resourceId]) return false;
 
-        nonces[owner_] = nonce + 1;
+        (uint256 uses, uint256 inPeriod) = remainingUses(owner_, relayer_, contextId);
+        return uses != 0 && inPeriod != 0;
+    }
+
+    /// @dev True while every link from `relayer_` up to the owner-signed delegation is intact and unexpired.
+    function _chainActive(address owner_, address relayer_, bytes32 contextId) internal view returns (bool) {
+        for (uint256 i = 0; i <= MAX_DELEGATION_DEPTH; i++) {
+            uint64 exp = expiryOf[owner_][relayer_][contextId];
+            if (exp == 0 || exp < block.timestamp) return false;
+
+            Link memory l = linkOf[owner_][relayer_][contextId];
+            if (l.epoch != epochOf[owner_]) return false;
+            if (l.delegator == address(0)) return true;
+            if (linkOf[owner_][l.delegator][contextId].id != l.delegatorId) return false;
+
+            relayer_ = l.delegator;
+        }
+        return false;
+    }
+
+    /// @dev Counts one use on a link with limits.
+    function _countUse(address owner_, address relayer_, bytes32 contextId) internal {
+        Usage storage u = usageOf[owner_][relayer_][contextId];
+        if (u.maxUses == 0 && u.quota == 0) return;
+
+        if (u.maxUses != 0) u.used++;
+        if (u.quota != 0) {
+            uint64 window = uint64(block.timestamp / u.period);
+            if (window != u.window) {
+                u.window = window;
+                u.usedInWindow = 0;
+            }
+            u.usedInWindow++;
+        }
+
+        (uint256 uses, uint256 inPeriod) = remainingUses(owner_, relayer_, contextId);
+        emit DelegationUsed(owner_, relayer_, contextId, uses, inPeriod);
+    }
 
+    function _clearDelegation(address owner_, address relayer_, bytes32 contextId) internal {
         scopesOf[owner_][relayer_][contextId] = 0;
         expiryOf[owner_][relayer_][contextId] = 0;
+        resourceListOf[owner_][relayer_][contextId] = bytes32(0);
+        delete usageOf[owner_][relayer_][contextId];
+        delete linkOf[owner_][relayer_][contextId];
+
+        bytes32 key = keccak256(abi.encode(owner_, relayer_, contextId));
+        grantedBy[owner_].remove(key);
+        heldBy[relayer_].remove(key);
+        delegationsIn[contextId].remove(key);
+    }
 
-        emit Revoked(owner_, relayer_, contextId);
+    function _indexDelegation(address owner_, address relayer_, bytes32 contextId) internal {
+        bytes32 key = keccak256(abi.encode(owner_, relayer_, contextId));
+        if (!grantedBy[owner_].add(key)) return;
+
+        heldBy[relayer_].add(key);
+        delegationsIn[contextId].add(key);
+        delegationKeys[key] = DelegationKey({owner: owner_, relayer: relayer_, contextId: contextId});
+    }
+
+    function _page(EnumerableSet.Bytes32Set storage set, uint256 offset, uint256 limit)
+    internal
+    view
+    returns (DelegationInfo[] memory page)
+    {
+        uint256 total = set.length();
+        if (offset >= total) return new DelegationInfo[](0);
+
+        uint256 end = offset + limit;
+        if (end > total) end = total;
+
+        page = new DelegationInfo[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            DelegationKey memory k = delegationKeys[set.at(i)];
+            page[i - offset] = DelegationInfo({
+                owner: k.owner,
+                relayer: k.relayer,
+                contextId: k.contextId,
+                scopes: scopesOf[k.owner][k.relayer][k.contextId],
+                expiry: expiryOf[k.owner][k.relayer][k.contextId],
+                active: _chainActive(k.owner, k.relayer, k.contextId)
+            });
+        }
+    }
+
+    function _revokeAll(address owner_) internal {
+        uint64 epoch = epochOf[owner_] + 1;
+        epochOf[owner_] = epoch;
+        emit AllRevoked(owner_, epoch);
+    }
+
+    function _invalidateNonces(address owner_, uint256 wordPos, uint256 mask) internal {
+        nonceBitmap[owner_][wordPos] |= mask;
+        emit NoncesInvalidated(owner_, wordPos, mask);
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,13 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {ERC2771Forwarder} from "@openzeppelin/contracts/metatx/ERC2771Forwarder.sol";
+
+/// @title CodeQuillForwarder
+/// @notice ERC-2771 forwarder trusted by the CodeQuill registries.
+/// @dev Verifies a user's EIP-712 ForwardRequest (from, to, value, gas, nonce, deadline, data) and calls the
+/// target with the signer appended to calldata, so any gas relayer can submit it while the registry sees the
+/// user as the caller. Requests are single-use (sequential nonce per signer) and expire at `deadline`.
+contract CodeQuillForwarder is ERC2771Forwarder {
+    constructor() ERC2771Forwarder("CodeQuillForwarder") {}
+}
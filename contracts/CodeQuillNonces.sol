@@ -0,0 +1,54 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {Context} from "@openzeppelin/contracts/utils/Context.sol";
+
+/// @title CodeQuillNonces - per-signer replay protection for signed intents
+/// @notice Shared by the registries that accept EIP-712 signed intents. Each signer has a sequential counter and a
+/// bitmap of unordered nonces, and can burn either kind before a handed-out signature is used.
+abstract contract CodeQuillNonces is Context {
+    // Nonce per signer for signed intents (prevents signature replay)
+    mapping(address => uint256) public nonces;
+
+    /// @dev Nonces with this bit set are unordered: they are consumed from a bitmap (word = low 255 bits >> 8,
+    /// bit = low 8 bits) instead of the sequential counter, so they can be used in any order.
+    uint256 public constant UNORDERED_NONCE_FLAG = 1 << 255;
+
+    // signer -> word position -> bitmap of consumed unordered nonces
+    mapping(address => mapping(uint256 => uint256)) public nonceBitmap;
+
+    event SignatureCancelled(address indexed signer, uint256 nonce);
+    event NoncesInvalidated(address indexed signer, uint256 indexed wordPos, uint256 mask);
+
+    /// @notice True if `nonce` can no longer be used by `signer` (sequential: already passed; unordered: bit set).
+    function isNonceUsed(address signer, uint256 nonce) external view returns (bool) {
+        if (nonce & UNORDERED_NONCE_FLAG == 0) return nonce < nonces[signer];
+        return nonceBitmap[signer][(nonce ^ UNORDERED_NONCE_FLAG) >> 8] & (1 << (nonce & 0xff)) != 0;
+    }
+
+    /// @notice Burn one of msg.sender's nonces so a signed intent handed out with it can never be used.
+    /// @dev A sequential nonce must be the next one; burning it unblocks the following nonce.
+    function cancelSignature(uint256 nonce) external {
+        _useNonce(_msgSender(), nonce);
+        emit SignatureCancelled(_msgSender(), nonce);
+    }
+
+    /// @notice Mark every unordered nonce of msg.sender in `mask` (within bitmap word `wordPos`) as used.
+    function invalidateNonces(uint256 wordPos, uint256 mask) external {
+        nonceBitmap[_msgSender()][wordPos] |= mask;
+        emit NoncesInvalidated(_msgSender(), wordPos, mask);
+    }
+
+    /// @dev Consumes a signer nonce: sequential unless UNORDERED_NONCE_FLAG is set.
+    function _useNonce(address signer, uint256 nonce) internal {
+        if (nonce & UNORDERED_NONCE_FLAG == 0) {
+            require(nonce == nonces[signer], "bad nonce");
+            nonces[signer] = nonce + 1;
+        } else {
+            uint256 wordPos = (nonce ^ UNORDERED_NONCE_FLAG) >> 8;
+            uint256 bit = 1 << (nonce & 0xff);
+            require(nonceBitmap[signer][wordPos] & bit == 0, "nonce used");
+            nonceBitmap[signer][wordPos] |= bit;
+        }
+    }
+}
@@ -1,24 +1,40 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
+import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import {SignatureChecker} from "@openzeppelin/contracts/utils/cryptography/SignatureChecker.sol";
+import {Context} from "@openzeppelin/contracts/utils/Context.sol";
+import {ERC2771Context} from "@openzeppelin/contracts/metatx/ERC2771Context.sol";
+import {CodeQuillNonces} from "./CodeQuillNonces.sol";
+
 interface ICodeQuillRepositoryRegistry {
     function repoOwner(bytes32 repoId) external view returns (address);
     function repoContextId(bytes32 repoId) external view returns (bytes32);
+    function isWritable(bytes32 repoId) external view returns (bool);
 }
 
 interface ICodeQuillWorkspaceRegistry {
+    function ROLE_RELEASER() external view returns (uint256);
+    function ROLE_GOVERNOR() external view returns (uint256);
+
     function isMember(bytes32 contextId, address wallet) external view returns (bool);
+    function hasRole(bytes32 contextId, address wallet, uint256 role) external view returns (bool);
+    function isActive(bytes32 contextId) external view returns (bool);
 }
 
 interface ICodeQuillDelegation {
     function SCOPE_RELEASE() external view returns (uint256);
+    function SCOPE_GOVERN() external view returns (uint256);
+    function SCOPE_DAO_CONFIG() external view returns (uint256);
+    function SCOPE_REVOKE() external view returns (uint256);
 
-    function isAuthorized(
+    function consume(
         address owner_,
         address relayer_,
         uint256 scope,
-        bytes32 contextId
-    ) external view returns (bool);
+        bytes32 contextId,
+        bytes32 resourceId
+    ) external returns (bool);
 }
 
 interface ICodeQuillSnapshotRegistry {
@@ -31,15 +47,19 @@ interface ICodeQuillSnapshotRegistry {
  *
  * Hard guarantees (no backend trust):
  * - Release is bound to contextId (workspace).
- * - author + governanceAuthority must be workspace members for that contextId.
+ * - author + governanceAuthority must be workspace members for that contextId,
+ *   holding ROLE_RELEASER and ROLE_GOVERNOR respectively. ROLE_GOVERNOR is re-checked on accept / reject;
+ *   the author can revoke / supersede its releases even after losing ROLE_RELEASER.
  * - Repos referenced must belong to the same contextId.
  * - Multi-owner releases are allowed, but only if the author is a workspace member.
  *   (Repo ownership is NOT required to build a release, by design.)
+ * - anchorReleaseWithSig lets any relayer submit a release the author signed, without a delegation.
+ * - Calls through the trusted ERC-2771 forwarder act as the signer of the forwarded request.
  *
  * Note:
  * - If you later want stronger repo-level authorization, add a rule in the loop.
  */
-contract CodeQuillReleaseRegistry {
+contract CodeQuillReleaseRegistry is EIP712, ERC2771Context, CodeQuillNonces {
     ICodeQuillRepositoryRegistry public immutable registry;
     ICodeQuillWorkspaceRegistry public immutable workspace;
     ICodeQuillDelegation public immutable delegation;
@@ -70,6 +90,12 @@ contract CodeQuillReleaseRegistry {
     /// @notice mapping from contextId to Aragon DAO executor address allowed to accept/reject. address(0) means "DAO not configured".
     mapping(bytes32 => address) public daoExecutors;
 
+    // AnchorRelease(projectId,releaseId,contextId,manifestCid,name,author,governanceAuthority,repoIds,merkleRoots,nonce,deadline)
+    bytes32 private constant ANCHOR_RELEASE_TYPEHASH =
+    keccak256(
+        "AnchorRelease(bytes32 projectId,bytes32 releaseId,bytes32 contextId,string manifestCid,string name,address author,address governanceAuthority,bytes32[] repoIds,bytes32[] merkleRoots,uint256 nonce,uint256 deadline)"
+    );
+
     event ReleaseAnchored(
         bytes32 indexed projectId,
         bytes32 indexed releaseId,
@@ -109,8 +135,9 @@ contract CodeQuillReleaseRegistry {
         address registryAddr,
         address workspaceAddr,
         address delegationAddr,
-        address snapshotRegistryAddr
-    ) {
+        address snapshotRegistryAddr,
+        address trustedForwarder
+    ) EIP712("CodeQuillReleaseRegistry", "1") ERC2771Context(trustedForwarder) {
         require(registryAddr != address(0), "zero registry");
         require(workspaceAddr != address(0), "zero workspace");
         require(delegationAddr != address(0), "zero delegation");
@@ -126,40 +153,51 @@ contract CodeQuillReleaseRegistry {
         bytes32 contextId,
         address author,
         address daoExecutor_
-    ) external onlySelfOrDelegated(author, delegation.SCOPE_RELEASE(), contextId) {
+    ) external onlySelfOrDelegated(author, delegation.SCOPE_DAO_CONFIG(), contextId, bytes32(0)) {
+        require(workspace.isActive(contextId), "context not active");
         require(workspace.isMember(contextId, author), "author not member");
+        require(workspace.hasRole(contextId, author, workspace.ROLE_GOVERNOR()), "author not governor");
         daoExecutors[contextId] = daoExecutor_;
         emit DaoExecutorSet(contextId, daoExecutor_);
     }
 
-    modifier onlySelfOrDelegated(address authority, uint256 scope, bytes32 contextId) {
+    /// @dev `resourceId` is the projectId acted on, or zero for context-wide settings.
+    modifier onlySelfOrDelegated(address authority, uint256 scope, bytes32 contextId, bytes32 resourceId) {
         require(contextId != bytes32(0), "zero context");
-        if (msg.sender == authority) {
+        if (_msgSender() == authority) {
             _;
             return;
         }
-        bool ok = delegation.isAuthorized(authority, msg.sender, scope, contextId);
+        bool ok = delegation.consume(authority, _msgSender(), scope, contextId, resourceId);
         require(ok, "not authorized");
         _;
     }
 
+    /// @dev The DAO executor acts as is; otherwise governanceAuthority must still hold ROLE_GOVERNOR at decision time,
+    /// so a governor demoted after the release was anchored can no longer accept or reject it.
     modifier onlyGovernance(bytes32 releaseId) {
         Release storage r = releaseById[releaseId];
         require(r.timestamp != 0, "release not found");
+        require(workspace.isActive(r.contextId), "context not active");
 
         address exec = daoExecutors[r.contextId];
-        if (exec != address(0) && msg.sender == exec) {
+        if (exec != address(0) && _msgSender() == exec) {
             _;
             return;
         }
 
-        uint256 scope = delegation.SCOPE_RELEASE();
-        if (msg.sender == r.governanceAuthority) {
+        require(
+            workspace.hasRole(r.contextId, r.governanceAuthority, workspace.ROLE_GOVERNOR()),
+            "governance not governor"
+        );
+
+        uint256 scope = delegation.SCOPE_GOVERN();
+        if (_msgSender() == r.governanceAuthority) {
             _;
             return;
         }
 
-        bool ok = delegation.isAuthorized(r.governanceAuthority, msg.sender, scope, r.contextId);
+        bool ok = delegation.consume(r.governanceAuthority, _msgSender(), scope, r.contextId, r.projectId);
         require(ok, "not governance");
         _;
     }
@@ -174,7 +212,85 @@ contract CodeQuillReleaseRegistry {
         address governanceAuthority,
         bytes32[] calldata repoIds,
         bytes32[] calldata merkleRoots
-    ) external onlySelfOrDelegated(author, delegation.SCOPE_RELEASE(), contextId) {
+    ) external onlySelfOrDelegated(author, delegation.SCOPE_RELEASE(), contextId, projectId) {
+        _anchorRelease(
+            projectId,
+            releaseId,
+            contextId,
+            manifestCid,
+            name,
+            author,
+            governanceAuthority,
+            repoIds,
+            merkleRoots
+        );
+    }
+
+    /**
+     * @notice Anchor a release signed by its author. Any relayer may submit it, but cannot alter it.
+     * @dev Signature is over:
+     *  AnchorRelease(projectId, releaseId, contextId, manifestCid, name, author, governanceAuthority,
+     *                repoIds, merkleRoots, nonce, deadline)
+     * The author may be an EOA or an ERC-1271 contract wallet. No delegation is needed.
+     */
+    function anchorReleaseWithSig(
+        bytes32 projectId,
+        bytes32 releaseId,
+        bytes32 contextId,
+        string calldata manifestCid,
+        string calldata name,
+        address author,
+        address governanceAuthority,
+        bytes32[] calldata repoIds,
+        bytes32[] calldata merkleRoots,
+        uint256 nonce,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        require(contextId != bytes32(0), "zero context");
+        require(block.timestamp <= deadline, "sig expired");
+
+        bytes32 digest = _hashTypedDataV4(keccak256(abi.encode(
+            ANCHOR_RELEASE_TYPEHASH,
+            projectId,
+            releaseId,
+            contextId,
+            keccak256(bytes(manifestCid)),
+            keccak256(bytes(name)),
+            author,
+            governanceAuthority,
+            keccak256(abi.encodePacked(repoIds)),
+            keccak256(abi.encodePacked(merkleRoots)),
+            nonce,
+            deadline
+        )));
+        require(SignatureChecker.isValidSignatureNow(author, digest, signature), "bad signer");
+
+        _useNonce(author, nonce);
+        _anchorRelease(
+            projectId,
+            releaseId,
+            contextId,
+            manifestCid,
+            name,
+            author,
+            governanceAuthority,
+            repoIds,
+            merkleRoots
+        );
+    }
+
+    function _anchorRelease(
+        bytes32 projectId,
+        bytes32 releaseId,
+        bytes32 contextId,
+        string calldata manifestCid,
+        string calldata name,
+        address author,
+        address governanceAuthority,
+        bytes32[] calldata repoIds,
+        bytes32[] calldata merkleRoots
+    ) internal {
         require(projectId != bytes32(0), "zero projectId");
         require(releaseId != bytes32(0), "zero releaseId");
         require(releaseById[releaseId].timestamp == 0, "duplicate releaseId");
@@ -184,10 +300,16 @@ contract CodeQuillReleaseRegistry {
         require(author != address(0), "zero author");
         require(governanceAuthority != address(0), "zero governanceAuthority");
 
+        require(workspace.isActive(contextId), "context not active");
+
         // NEW: author + governanceAuthority must be members of the workspace context
         require(workspace.isMember(contextId, author), "author not member");
         require(workspace.isMember(contextId, governanceAuthority), "governance not member");
 
+        // Role enforcement: author releases, governanceAuthority governs
+        require(workspace.hasRole(contextId, author, workspace.ROLE_RELEASER()), "author not releaser");
+        require(workspace.hasRole(contextId, governanceAuthority, workspace.ROLE_GOVERNOR()), "governance not governor");
+
         // Validate each snapshot and ensure repo belongs to same context
         for (uint256 i = 0; i < repoIds.length; i++) {
             bytes32 repoId = repoIds[i];
@@ -197,6 +319,7 @@ contract CodeQuillReleaseRegistry {
 
             address rOwner = registry.repoOwner(repoId);
             require(rOwner != address(0), "repo not claimed");
+            require(registry.isWritable(repoId), "repo not writable");
 
             bytes32 repoCtx = registry.repoContextId(repoId);
             require(repoCtx == contextId, "repo wrong context");
@@ -240,9 +363,9 @@ contract CodeQuillReleaseRegistry {
 
         r.status = GouvernanceStatus.ACCEPTED;
         r.statusTimestamp = block.timestamp;
-        r.statusAuthor = msg.sender;
+        r.statusAuthor = _msgSender();
 
-        emit GouvernanceStatusChanged(releaseId, GouvernanceStatus.ACCEPTED, msg.sender, block.timestamp);
+        emit GouvernanceStatusChanged(releaseId, GouvernanceStatus.ACCEPTED, _msgSender(), block.timestamp);
     }
 
     function reject(bytes32 releaseId) external onlyGovernance(releaseId) {
@@ -252,20 +375,22 @@ contract CodeQuillReleaseRegistry {
 
         r.status = GouvernanceStatus.REJECTED;
         r.statusTimestamp = block.timestamp;
-        r.statusAuthor = msg.sender;
+        r.statusAuthor = _msgSender();
 
-        emit GouvernanceStatusChanged(releaseId, GouvernanceStatus.REJECTED, msg.sender, block.timestamp);
+        emit GouvernanceStatusChanged(releaseId, GouvernanceStatus.REJECTED, _msgSender(), block.timestamp);
     }
 
+    /// @dev Neither the workspace lifecycle nor ROLE_RELEASER is checked here or in supersedeRelease: the author can
+    /// withdraw its releases in a FROZEN or ARCHIVED workspace, and after losing the role or leaving the workspace.
     function revokeRelease(bytes32 projectId, bytes32 releaseId, address author) external {
         Release storage r = releaseById[releaseId];
         require(r.timestamp != 0, "release not found");
         require(r.projectId == projectId, "release not in project");
         require(r.author == author, "mismatched author");
 
-        uint256 scope = delegation.SCOPE_RELEASE();
-        if (msg.sender != author) {
-            bool ok = delegation.isAuthorized(author, msg.sender, scope, r.contextId);
+        uint256 scope = delegation.SCOPE_REVOKE();
+        if (_msgSender() != author) {
+            bool ok = delegation.consume(author, _msgSender(), scope, r.contextId, projectId);
             require(ok, "not authorized");
         }
 
@@ -286,9 +411,9 @@ contract CodeQuillReleaseRegistry {
         require(oldR.supersededBy == bytes32(0), "already superseded");
         require(oldR.author == author, "mismatched author");
 
-        uint256 scope = delegation.SCOPE_RELEASE();
-        if (msg.sender != author) {
-            bool ok = delegation.isAuthorized(author, msg.sender, scope, oldR.contextId);
+        uint256 scope = delegation.SCOPE_REVOKE();
+        if (_msgSender() != author) {
+            bool ok = delegation.consume(author, _msgSender(), scope, oldR.contextId, projectId);
             require(ok, "not authorized");
         }
 
@@ -384,4 +509,16 @@ contract CodeQuillReleaseRegistry {
         require(r.timestamp != 0, "release not found");
         return r.status;
     }
+
+    function _msgSender() internal view override(Context, ERC2771Context) returns (address) {
+        return ERC2771Context._msgSender();
+    }
+
+    function _msgData() internal view override(Context, ERC2771Context) returns (bytes calldata) {
+        return ERC2771Context._msgData();
+    }
+
+    function _contextSuffixLength() internal view override(Context, ERC2771Context) returns (uint256) {
+        return ERC2771Context._contextSuffixLength();
+    }
 }
\ No newline at end of file
@@ -1,33 +1,117 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
+import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import {SignatureChecker} from "@openzeppelin/contracts/utils/cryptography/SignatureChecker.sol";
+import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+import {Context} from "@openzeppelin/contracts/utils/Context.sol";
+import {EnumerableSet} from "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import {ERC2771Context} from "@openzeppelin/contracts/metatx/ERC2771Context.sol";
+import {CodeQuillNonces} from "./CodeQuillNonces.sol";
+
 interface ICodeQuillDelegation {
     function SCOPE_CLAIM() external view returns (uint256);
+    function SCOPE_TRANSFER() external view returns (uint256);
 
-    function isAuthorized(
+    function consume(
         address owner_,
         address relayer_,
         uint256 scope,
-        bytes32 contextId
-    ) external view returns (bool);
+        bytes32 contextId,
+        bytes32 resourceId
+    ) external returns (bool);
 }
 
 interface ICodeQuillWorkspaceRegistry {
+    function ROLE_MAINTAINER() external view returns (uint256);
+
     function isMember(bytes32 contextId, address wallet) external view returns (bool);
+    function hasRole(bytes32 contextId, address wallet, uint256 role) external view returns (bool);
+    function isActive(bytes32 contextId) external view returns (bool);
+    function lifecycleOf(bytes32 contextId) external view returns (uint8);
 }
 
 /// @title CodeQuillRepositoryRegistry
 /// @notice Repository claim registry (repoId -> owner wallet) with context-scoped relayer delegation.
 /// @dev "contextId" is your workspace identifier (bytes32). No on-chain workspace registry required.
-contract CodeQuillRepositoryRegistry {
+/// Calls through the trusted ERC-2771 forwarder act as the signer of the forwarded request.
+/// Claims are first-come unless made through claimRepoVerified, which requires a signature from the configured
+/// claim verifier (an off-chain oracle that checked control of the repo on its git host). A verified claim
+/// overrides an unverified one and cannot itself be overridden.
+/// Ownership only changes with the recipient's consent (offerTransfer, then acceptTransfer / acceptTransferWithSig by
+/// the recipient); transferRepo just moves a repo between workspaces of the same owner.
+/// Each repo also has a maintainer set managed by its owner. Maintainers hold per-repo roles that let them author
+/// snapshots and backups or manage transfers; the set is dropped whenever the repo changes owner.
+/// The owner also controls the repo lifecycle: archived repos accept no new snapshots, backups or releases, and a
+/// relinquished repo has no owner until someone claims it again.
+contract CodeQuillRepositoryRegistry is EIP712, Ownable, ERC2771Context, CodeQuillNonces {
+    using EnumerableSet for EnumerableSet.AddressSet;
+    using EnumerableSet for EnumerableSet.Bytes32Set;
+
+    // Per-repo maintainer roles (bitmask). The repo owner implicitly holds all of them.
+    uint256 public constant ROLE_SNAPSHOTTER = 1 << 0;      // may author snapshots
+    uint256 public constant ROLE_BACKUP_OPERATOR = 1 << 1;  // may author backups
+    uint256 public constant ROLE_TRANSFER_ADMIN = 1 << 2;   // may transfer, offer or cancel offers like the owner
+    uint256 public constant REPO_ROLES_ALL = (1 << 3) - 1;
+
+    // CodeQuillWorkspaceRegistry.Lifecycle.ARCHIVED
+    uint8 private constant WORKSPACE_ARCHIVED = 2;
+
+    /// @dev ACTIVE is the default. DEPRECATED points to a successor but still accepts writes. ARCHIVED stops writes in
+    /// dependent registries permanently. RELINQUISHED releases the claim; a new claim starts again from ACTIVE.
+    enum Lifecycle { ACTIVE, ARCHIVED, DEPRECATED, RELINQUISHED }
+
+    /// @notice repoId (bytes32) -> lifecycle state
+    mapping(bytes32 => Lifecycle) public lifecycleOf;
+
+    /// @notice repoId (bytes32) -> successor repoId while DEPRECATED (bytes32(0) otherwise)
+    mapping(bytes32 => bytes32) public successorOf;
+
     /// @notice repoId (bytes32) -> owner (wallet)
     mapping(bytes32 => address) public repoOwner;
 
     /// @notice repoId (bytes32) -> contextId (workspace identifier)
     mapping(bytes32 => bytes32) public repoContextId;
 
-    /// @dev Convenience list for UI/off-chain; not used for authorization
-    mapping(address => bytes32[]) private reposByOwner;
+    /// @dev Repos currently owned by each wallet, for UI/off-chain; not used for authorization
+    mapping(address => EnumerableSet.Bytes32Set) private reposByOwner;
+
+    /// @dev Repos currently bound to each context, for UI/off-chain; not used for authorization
+    mapping(bytes32 => EnumerableSet.Bytes32Set) private reposByContext;
+
+    /// @notice repoId (bytes32) -> whether the current claim was verified by the claim verifier
+    mapping(bytes32 => bool) public repoVerified;
+
+    /// @notice Key whose signatures verify claims; address(0) disables verified claims
+    address public claimVerifier;
+
+    // ClaimVerification(repoId,owner,contextId,expiry)
+    bytes32 private constant CLAIM_VERIFICATION_TYPEHASH =
+    keccak256("ClaimVerification(bytes32 repoId,address owner,bytes32 contextId,uint256 expiry)");
+
+    /// @notice A pending transfer offer; `from` pins the owner who made it so it lapses if ownership changes.
+    struct TransferOffer {
+        address from;
+        address newOwner;
+        bytes32 newContextId;
+        uint256 expiry;
+    }
+
+    /// @notice repoId (bytes32) -> pending transfer offer (newOwner == address(0) if none)
+    mapping(bytes32 => TransferOffer) public pendingTransfer;
+
+    // repoId -> maintainer generation; bumped on every owner change so earlier grants stop counting
+    mapping(bytes32 => uint256) private maintainerEpoch;
+
+    // repoId -> generation -> maintainer wallets
+    mapping(bytes32 => mapping(uint256 => EnumerableSet.AddressSet)) private maintainerSet;
+
+    // repoId -> generation -> maintainer -> roles
+    mapping(bytes32 => mapping(uint256 => mapping(address => uint256))) private maintainerRolesOf;
+
+    // AcceptTransfer(repoId,from,newOwner,newContextId,expiry,nonce,deadline)
+    bytes32 private constant ACCEPT_TRANSFER_TYPEHASH =
+    keccak256("AcceptTransfer(bytes32 repoId,address from,address newOwner,bytes32 newContextId,uint256 expiry,uint256 nonce,uint256 deadline)");
 
     ICodeQuillDelegation public immutable delegation;
     ICodeQuillWorkspaceRegistry public immutable workspace;
@@ -43,16 +127,66 @@ contract CodeQuillRepositoryRegistry {
         bytes32 newContextId
     );
 
+    /// @notice Emitted when the claim verifier key is set or rotated.
+    event ClaimVerifierSet(address indexed previousVerifier, address indexed newVerifier);
+
+    /// @notice Emitted when a claim is backed by a claim-verifier signature.
+    event RepoVerified(bytes32 indexed repoId, address indexed owner, bytes32 indexed contextId);
+
+    /// @notice Emitted when a verified claim displaces an unverified claim held by another owner.
+    event ClaimOverridden(
+        bytes32 indexed repoId,
+        address indexed previousOwner,
+        address indexed newOwner,
+        bytes32 previousContextId,
+        bytes32 newContextId
+    );
+
+    event TransferOffered(
+        bytes32 indexed repoId,
+        address indexed from,
+        address indexed newOwner,
+        bytes32 newContextId,
+        uint256 expiry
+    );
+
+    event TransferCancelled(bytes32 indexed repoId, address indexed from, address indexed newOwner);
+
+
+    /// @notice Emitted when the owner grants, changes or (roles == 0) removes a maintainer.
+    event MaintainerSet(bytes32 indexed repoId, address indexed maintainer, uint256 roles);
+
+    /// @notice Emitted when a change of owner drops every maintainer of the repo.
+    event MaintainersCleared(bytes32 indexed repoId);
+
+    event LifecycleSet(bytes32 indexed repoId, Lifecycle state, bytes32 successor);
+
+    /// @notice Emitted when the owner gives up a claim; the repoId can be claimed again.
+    event RepoRelinquished(bytes32 indexed repoId, address indexed previousOwner, bytes32 contextId);
+
     constructor(
         address delegationAddr,
-        address workspaceAddr
-    ) {
+        address workspaceAddr,
+        address trustedForwarder
+    ) EIP712("CodeQuillRepositoryRegistry", "1") Ownable(msg.sender) ERC2771Context(trustedForwarder) {
         require(delegationAddr != address(0), "delegation zero");
         require(workspaceAddr != address(0), "workspace zero");
         delegation = ICodeQuillDelegation(delegationAddr);
         workspace = ICodeQuillWorkspaceRegistry(workspaceAddr);
     }
 
+    /// @notice Set or rotate the claim verifier key. address(0) disables claimRepoVerified.
+    function setClaimVerifier(address verifier) external onlyOwner {
+        emit ClaimVerifierSet(claimVerifier, verifier);
+        claimVerifier = verifier;
+    }
+
+    /// @notice True if dependent registries may record new snapshots, backups or releases for the repo.
+    function isWritable(bytes32 repoId) external view returns (bool) {
+        Lifecycle state = lifecycleOf[repoId];
+        return repoOwner[repoId] != address(0) && (state == Lifecycle.ACTIVE || state == Lifecycle.DEPRECATED);
+    }
+
     /// @notice Check if a repoId has already been claimed.
     function isClaimed(bytes32 repoId) external view returns (bool) {
         return repoOwner[repoId] != address(0);
@@ -69,78 +203,413 @@ contract CodeQuillRepositoryRegistry {
 
     /// @notice Claim a repo.
     /// @dev Works for both:
-    ///  - direct EOA claim (msg.sender == owner_), and
+    ///  - direct EOA claim (msg.sender == owner_, or forwarded by owner_), and
     ///  - relayed claim (msg.sender delegated by owner_ for SCOPE_CLAIM in contextId).
     ///
     /// Membership enforcement:
-    /// - owner_ must be a member of the workspace contextId.
+    /// - owner_ must be a member of the workspace contextId holding ROLE_MAINTAINER.
     function claimRepo(
         bytes32 repoId,
         bytes32 contextId,
         string calldata meta,
         address owner_
     ) external {
-        require(contextId != bytes32(0), "zero context");
-        require(owner_ != address(0), "zero owner");
         require(repoOwner[repoId] == address(0), "already claimed");
+        _authorizeClaim(repoId, contextId, owner_);
 
-        require(workspace.isMember(contextId, owner_), "owner not member");
+        repoOwner[repoId] = owner_;
+        repoContextId[repoId] = contextId;
 
-        if (msg.sender != owner_) {
-            bool isDelegated = delegation.isAuthorized(owner_, msg.sender, delegation.SCOPE_CLAIM(), contextId);
-            require(isDelegated, "not authorized");
+        _indexRepo(repoId, owner_, contextId);
+        _resetLifecycle(repoId);
+
+        emit RepoClaimed(repoId, owner_, contextId, meta);
+    }
+
+    /// @notice Claim a repo with proof from the claim verifier that owner_ controls it on its git host.
+    /// @dev Authorization and membership rules are the same as claimRepo. The verifier signs
+    /// ClaimVerification(repoId, owner_, contextId, expiry) over this registry's EIP-712 domain.
+    ///
+    /// Disputes:
+    /// - an unclaimed repo is claimed and marked verified;
+    /// - an unverified claim is overridden (ClaimOverridden when the owner changes) and marked verified;
+    /// - a verified claim cannot be overridden; it only changes owner through an accepted transfer offer.
+    function claimRepoVerified(
+        bytes32 repoId,
+        bytes32 contextId,
+        string calldata meta,
+        address owner_,
+        uint256 expiry,
+        bytes calldata verifierSig
+    ) external {
+        require(claimVerifier != address(0), "verifier not set");
+        require(block.timestamp <= expiry, "sig expired");
+        require(!repoVerified[repoId], "already verified");
+        _authorizeClaim(repoId, contextId, owner_);
+
+        bytes32 digest = _hashTypedDataV4(keccak256(abi.encode(
+            CLAIM_VERIFICATION_TYPEHASH,
+            repoId,
+            owner_,
+            contextId,
+            expiry
+        )));
+        require(SignatureChecker.isValidSignatureNow(claimVerifier, digest, verifierSig), "bad verifier sig");
+
+        address previousOwner = repoOwner[repoId];
+        if (previousOwner != address(0)) {
+            if (previousOwner != owner_) {
+                emit ClaimOverridden(repoId, previousOwner, owner_, repoContextId[repoId], contextId);
+                _clearMaintainers(repoId);
+            }
+            _unindexRepo(repoId, previousOwner, repoContextId[repoId]);
         }
+        _indexRepo(repoId, owner_, contextId);
+        _resetLifecycle(repoId);
 
         repoOwner[repoId] = owner_;
         repoContextId[repoId] = contextId;
-
-        reposByOwner[owner_].push(repoId);
+        repoVerified[repoId] = true;
 
         emit RepoClaimed(repoId, owner_, contextId, meta);
+        emit RepoVerified(repoId, owner_, contextId);
+    }
+
+    function getRepoCountByOwner(address owner_) external view returns (uint256) {
+        return reposByOwner[owner_].length();
+    }
+
+    function getRepoCountByContext(bytes32 contextId) external view returns (uint256) {
+        return reposByContext[contextId].length();
+    }
+
+    /// @notice Paginated repos currently owned by `owner_` (order is not stable).
+    function getReposByOwner(address owner_, uint256 offset, uint256 limit)
+    external
+    view
+    returns (bytes32[] memory)
+    {
+        return _page(reposByOwner[owner_], offset, limit);
+    }
+
+    /// @notice Paginated repos currently bound to `contextId` (order is not stable).
+    function getReposByContext(bytes32 contextId, uint256 offset, uint256 limit)
+    external
+    view
+    returns (bytes32[] memory)
+    {
+        return _page(reposByContext[contextId], offset, limit);
+    }
+
+    /// @notice Grant, change or (roles == 0) remove a maintainer of a repo. Only the repo owner may call this.
+    function setMaintainer(bytes32 repoId, address maintainer, uint256 roles) external {
+        address owner_ = repoOwner[repoId];
+        require(owner_ != address(0), "not claimed");
+        require(_msgSender() == owner_, "not owner");
+        require(maintainer != address(0) && maintainer != owner_, "bad maintainer");
+        require(roles & ~REPO_ROLES_ALL == 0, "bad roles");
+
+        uint256 epoch = maintainerEpoch[repoId];
+        maintainerRolesOf[repoId][epoch][maintainer] = roles;
+        if (roles == 0) {
+            maintainerSet[repoId][epoch].remove(maintainer);
+        } else {
+            maintainerSet[repoId][epoch].add(maintainer);
+        }
+
+        emit MaintainerSet(repoId, maintainer, roles);
+    }
+
+    /// @notice Move a repo through its lifecycle. Only the repo owner may call this.
+    /// @dev `successor` is required for DEPRECATED (calling again with another successor updates it) and must be zero
+    /// otherwise. ARCHIVED is final, so an archived repo cannot be relinquished and reclaimed as writable. RELINQUISHED
+    /// clears the owner, context, verification, maintainers, pending offer and index entries; snapshots and backups
+    /// recorded so far stay readable.
+    function setLifecycle(bytes32 repoId, Lifecycle state, bytes32 successor) external {
+        address owner_ = repoOwner[repoId];
+        require(owner_ != address(0), "not claimed");
+        require(_msgSender() == owner_, "not owner");
+
+        Lifecycle current = lifecycleOf[repoId];
+        require(current != Lifecycle.ARCHIVED, "repo archived");
+        if (state == Lifecycle.DEPRECATED) {
+            require(successor != bytes32(0) && successor != repoId, "bad successor");
+            require(current != state || successor != successorOf[repoId], "same state");
+        } else {
+            require(successor == bytes32(0), "bad successor");
+            require(current != state, "same state");
+        }
+
+        lifecycleOf[repoId] = state;
+        successorOf[repoId] = successor;
+        emit LifecycleSet(repoId, state, successor);
+
+        if (state == Lifecycle.RELINQUISHED) {
+            bytes32 contextId = repoContextId[repoId];
+
+            delete repoOwner[repoId];
+            delete repoContextId[repoId];
+            delete repoVerified[repoId];
+            delete pendingTransfer[repoId];
+            _unindexRepo(repoId, owner_, contextId);
+            _clearMaintainers(repoId);
+
+            emit RepoRelinquished(repoId, owner_, contextId);
+        }
     }
 
-    function getReposByOwner(address owner_) external view returns (bytes32[] memory) {
-        return reposByOwner[owner_];
+    /// @notice Roles a wallet holds as maintainer of a repo (0 if none). Does not include the owner's implicit roles.
+    function maintainerRoles(bytes32 repoId, address wallet) external view returns (uint256) {
+        return maintainerRolesOf[repoId][maintainerEpoch[repoId]][wallet];
     }
 
-    /// @notice Transfer a claimed repo to a new owner AND/OR move it to a new contextId.
+    /// @notice Current maintainers of a repo (the owner is not listed).
+    function getMaintainers(bytes32 repoId) external view returns (address[] memory) {
+        return maintainerSet[repoId][maintainerEpoch[repoId]].values();
+    }
+
+    /// @notice True if `wallet` is the repo owner or a maintainer holding every bit of `role`.
+    function hasRepoRole(bytes32 repoId, address wallet, uint256 role) public view returns (bool) {
+        address owner_ = repoOwner[repoId];
+        if (owner_ == address(0)) return false;
+        if (wallet == owner_) return true;
+        return maintainerRolesOf[repoId][maintainerEpoch[repoId]][wallet] & role == role;
+    }
+
+    /// @notice Move a claimed repo to another contextId of the same owner.
     /// @dev Allowed if:
-    ///  - msg.sender == current owner (direct), OR
-    ///  - msg.sender is delegated by current owner for SCOPE_CLAIM in the CURRENT repo context.
+    ///  - msg.sender == current owner (direct or forwarded), OR
+    ///  - msg.sender is a maintainer holding ROLE_TRANSFER_ADMIN, OR
+    ///  - msg.sender is delegated by current owner for SCOPE_TRANSFER in the CURRENT repo context.
+    ///
+    /// Ownership never changes here: a new owner has to accept an offer (offerTransfer / acceptTransfer).
     ///
     /// Membership enforcement:
-    /// - newOwner must be a member of newContextId.
+    /// - the owner must be a member of newContextId holding ROLE_MAINTAINER.
     ///
-    /// No-op prevention:
-    /// - disallow transfers that don't change owner AND don't change context.
-    function transferRepo(
+    /// newContextId must be ACTIVE; the current context may be ACTIVE or ARCHIVED, but not FROZEN.
+    function transferRepo(bytes32 repoId, bytes32 newContextId) external {
+        require(newContextId != bytes32(0), "zero newContext");
+
+        (address old, bytes32 oldContextId) = _requireTransferAuthority(repoId);
+        require(newContextId != oldContextId, "no change");
+
+        _moveRepo(repoId, old, old, oldContextId, newContextId);
+    }
+
+    /// @notice Offer a claimed repo to `newOwner` (and `newContextId`); nothing moves until they accept.
+    /// @dev Same authorization as transferRepo. A new offer replaces any pending one for the repo.
+    /// Membership of newOwner is checked on acceptance, not here. A maintainer or relayer cannot offer the repo to
+    /// itself, so it cannot take ownership on its own.
+    function offerTransfer(
         bytes32 repoId,
         address newOwner,
-        bytes32 newContextId
+        bytes32 newContextId,
+        uint256 expiry
     ) external {
         require(newContextId != bytes32(0), "zero newContext");
         require(newOwner != address(0), "zero newOwner");
+        require(expiry > block.timestamp, "bad expiry");
+
+        (address old, ) = _requireTransferAuthority(repoId);
+        require(newOwner != old && newOwner != _msgSender(), "offer to self");
+
+        pendingTransfer[repoId] = TransferOffer({
+            from: old,
+            newOwner: newOwner,
+            newContextId: newContextId,
+            expiry: expiry
+        });
+
+        emit TransferOffered(repoId, old, newOwner, newContextId, expiry);
+    }
 
+    /// @notice Withdraw (anyone allowed to transfer the repo) or decline (offered recipient) a pending offer.
+    function cancelTransfer(bytes32 repoId) external {
+        TransferOffer memory offer = pendingTransfer[repoId];
+        require(offer.newOwner != address(0), "no offer");
+
+        if (_msgSender() != offer.newOwner) {
+            _requireTransferAuthority(repoId);
+        }
+
+        delete pendingTransfer[repoId];
+        emit TransferCancelled(repoId, offer.from, offer.newOwner);
+    }
+
+    /// @notice Accept a pending offer as its recipient.
+    function acceptTransfer(bytes32 repoId) external {
+        _acceptTransfer(repoId, _msgSender());
+    }
+
+    /// @notice Accept a pending offer signed by its recipient. Any relayer may submit it.
+    /// @dev Signature is over:
+    ///  AcceptTransfer(repoId, from, newOwner, newContextId, expiry, nonce, deadline)
+    /// from, newContextId and expiry must match the pending offer, so the signature only accepts the exact offer the
+    /// recipient saw; a replaced offer cannot reuse it.
+    function acceptTransferWithSig(
+        bytes32 repoId,
+        address from,
+        address newOwner,
+        bytes32 newContextId,
+        uint256 expiry,
+        uint256 nonce,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        require(block.timestamp <= deadline, "sig expired");
+
+        bytes32 digest = _hashTypedDataV4(keccak256(abi.encode(
+            ACCEPT_TRANSFER_TYPEHASH,
+            repoId,
+            from,
+            newOwner,
+            newContextId,
+            expiry,
+            nonce,
+            deadline
+        )));
+        require(SignatureChecker.isValidSignatureNow(newOwner, digest, signature), "bad signer");
+
+        TransferOffer memory offer = pendingTransfer[repoId];
+        require(
+            offer.from == from && offer.newContextId == newContextId && offer.expiry == expiry,
+            "offer changed"
+        );
+
+        _useNonce(newOwner, nonce);
+        _acceptTransfer(repoId, newOwner);
+    }
+
+    /// @dev Completes a pending offer on behalf of `recipient`, who has already been authenticated.
+    function _acceptTransfer(bytes32 repoId, address recipient) internal {
+        TransferOffer memory offer = pendingTransfer[repoId];
+        require(offer.newOwner != address(0), "no offer");
+        require(offer.newOwner == recipient, "not recipient");
+        require(block.timestamp <= offer.expiry, "offer expired");
+
+        // The offer lapses once the repo changed hands by any other path
         address old = repoOwner[repoId];
+        require(old == offer.from, "stale offer");
+
+        delete pendingTransfer[repoId];
+        _moveRepo(repoId, old, recipient, repoContextId[repoId], offer.newContextId);
+    }
+
+    /// @dev Requires the repo to be claimed and the caller to be its owner, a ROLE_TRANSFER_ADMIN maintainer, or hold
+    /// SCOPE_TRANSFER from the owner in the current repo context. Returns the current owner and context.
+    function _requireTransferAuthority(bytes32 repoId) internal returns (address old, bytes32 oldContextId) {
+        old = repoOwner[repoId];
         require(old != address(0), "not claimed");
 
-        bytes32 oldContextId = repoContextId[repoId];
+        oldContextId = repoContextId[repoId];
         require(oldContextId != bytes32(0), "missing context");
 
-        require(newOwner != old || newContextId != oldContextId, "no change");
-
-        if (msg.sender != old) {
-            bool isDelegated = delegation.isAuthorized(old, msg.sender, delegation.SCOPE_CLAIM(), oldContextId);
+        if (!hasRepoRole(repoId, _msgSender(), ROLE_TRANSFER_ADMIN)) {
+            bool isDelegated = delegation.consume(old, _msgSender(), delegation.SCOPE_TRANSFER(), oldContextId, repoId);
             require(isDelegated, "not authorized");
         }
+    }
+
+    /// @dev Moves ownership and context after checking both workspaces and the new owner's role.
+    function _moveRepo(
+        bytes32 repoId,
+        address old,
+        address newOwner,
+        bytes32 oldContextId,
+        bytes32 newContextId
+    ) internal {
+        // A frozen source keeps its repos until it is unfrozen; an archived one is final, so its repos may still
+        // move out. The destination must be active.
+        require(
+            workspace.isActive(oldContextId) || workspace.lifecycleOf(oldContextId) == WORKSPACE_ARCHIVED,
+            "context not active"
+        );
+        require(workspace.isActive(newContextId), "newContext not active");
 
         require(workspace.isMember(newContextId, newOwner), "newOwner not member");
+        require(workspace.hasRole(newContextId, newOwner, workspace.ROLE_MAINTAINER()), "newOwner not maintainer");
 
         repoOwner[repoId] = newOwner;
         repoContextId[repoId] = newContextId;
 
-        reposByOwner[newOwner].push(repoId);
+        _unindexRepo(repoId, old, oldContextId);
+        _indexRepo(repoId, newOwner, newContextId);
+        if (newOwner != old) {
+            _clearMaintainers(repoId);
+        }
 
         emit RepoTransferred(repoId, old, newOwner, oldContextId, newContextId);
     }
-}
\ No newline at end of file
+
+    /// @dev Shared claim checks: owner_ must be a maintainer of an active contextId, and the caller must be owner_
+    /// or hold SCOPE_CLAIM from owner_ in that context.
+    function _authorizeClaim(bytes32 repoId, bytes32 contextId, address owner_) internal {
+        require(contextId != bytes32(0), "zero context");
+        require(owner_ != address(0), "zero owner");
+
+        require(workspace.isActive(contextId), "context not active");
+        require(workspace.isMember(contextId, owner_), "owner not member");
+        require(workspace.hasRole(contextId, owner_, workspace.ROLE_MAINTAINER()), "owner not maintainer");
+
+        if (_msgSender() != owner_) {
+            bool isDelegated = delegation.consume(owner_, _msgSender(), delegation.SCOPE_CLAIM(), contextId, repoId);
+            require(isDelegated, "not authorized");
+        }
+    }
+
+    function _indexRepo(bytes32 repoId, address owner_, bytes32 contextId) internal {
+        reposByOwner[owner_].add(repoId);
+        reposByContext[contextId].add(repoId);
+    }
+
+    function _unindexRepo(bytes32 repoId, address owner_, bytes32 contextId) internal {
+        reposByOwner[owner_].remove(repoId);
+        reposByContext[contextId].remove(repoId);
+    }
+
+    function _page(EnumerableSet.Bytes32Set storage set, uint256 offset, uint256 limit)
+    internal
+    view
+    returns (bytes32[] memory page)
+    {
+        uint256 total = set.length();
+        if (offset >= total) return new bytes32[](0);
+
+        uint256 end = offset + limit;
+        if (end > total) end = total;
+
+        page = new bytes32[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            page[i - offset] = set.at(i);
+        }
+    }
+
+    /// @dev A claim after relinquishment starts again from ACTIVE. A verified claim over an unverified one keeps the
+    /// current state, so an archived repo stays archived and a deprecated one keeps its successor.
+    function _resetLifecycle(bytes32 repoId) internal {
+        if (lifecycleOf[repoId] != Lifecycle.RELINQUISHED) return;
+
+        lifecycleOf[repoId] = Lifecycle.ACTIVE;
+        delete successorOf[repoId];
+        emit LifecycleSet(repoId, Lifecycle.ACTIVE, bytes32(0));
+    }
+
+    /// @dev Starts a new maintainer generation, so grants made by a previous owner no longer count.
+    function _clearMaintainers(bytes32 repoId) internal {
+        maintainerEpoch[repoId] += 1;
+        emit MaintainersCleared(repoId);
+    }
+
+    function _msgSender() internal view override(Context, ERC2771Context) returns (address) {
+        return ERC2771Context._msgSender();
+    }
+
+    function _msgData() internal view override(Context, ERC2771Context) returns (bytes calldata) {
+        return ERC2771Context._msgData();
+    }
+
+    function _contextSuffixLength() internal view override(Context, ERC2771Context) returns (uint256) {
+        return ERC2771Context._contextSuffixLength();
+    }
+}
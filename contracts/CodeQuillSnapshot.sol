@@ -1,29 +1,45 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
+import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import {SignatureChecker} from "@openzeppelin/contracts/utils/cryptography/SignatureChecker.sol";
+import {Context} from "@openzeppelin/contracts/utils/Context.sol";
+import {ERC2771Context} from "@openzeppelin/contracts/metatx/ERC2771Context.sol";
+import {CodeQuillNonces} from "./CodeQuillNonces.sol";
+
 interface ICodeQuillRepositoryRegistry {
     function repoOwner(bytes32 repoId) external view returns (address);
     function repoContextId(bytes32 repoId) external view returns (bytes32);
+    function isWritable(bytes32 repoId) external view returns (bool);
+    function ROLE_SNAPSHOTTER() external view returns (uint256);
+    function hasRepoRole(bytes32 repoId, address wallet, uint256 role) external view returns (bool);
 }
 
 interface ICodeQuillWorkspaceRegistry {
+    function ROLE_MAINTAINER() external view returns (uint256);
+
     function isMember(bytes32 contextId, address wallet) external view returns (bool);
+    function hasRole(bytes32 contextId, address wallet, uint256 role) external view returns (bool);
+    function isActive(bytes32 contextId) external view returns (bool);
 }
 
 interface ICodeQuillDelegation {
     function SCOPE_SNAPSHOT() external view returns (uint256);
 
-    function isAuthorized(
+    function consume(
         address owner_,
         address relayer_,
         uint256 scope,
-        bytes32 contextId
-    ) external view returns (bool);
+        bytes32 contextId,
+        bytes32 resourceId
+    ) external returns (bool);
 }
 
 /// @title CodeQuillSnapshotRegistry - lightweight snapshot via merkle roots + off-chain manifest
-/// @notice Snapshot creation is allowed for repo owner OR relayer delegated by repo owner within a contextId (workspace).
-contract CodeQuillSnapshotRegistry {
+/// @notice Snapshot creation is allowed for the author (repo owner or a ROLE_SNAPSHOTTER repo maintainer) OR relayer
+/// delegated by the author within a contextId (workspace), or for any relayer carrying the author's signature over the
+/// exact snapshot (createSnapshotWithSig).
+contract CodeQuillSnapshotRegistry is EIP712, ERC2771Context, CodeQuillNonces {
     ICodeQuillRepositoryRegistry public immutable registry;
     ICodeQuillWorkspaceRegistry public immutable workspace;
     ICodeQuillDelegation public immutable delegation;
@@ -33,12 +49,18 @@ contract CodeQuillSnapshotRegistry {
         bytes32 merkleRoot;  // merkle tree root of all file hashes
         string  manifestCid; // IPFS CID of JSON manifest with file list
         uint256 timestamp;
-        address author;      // repo owner (recorded for provenance)
+        address author;      // repo owner or snapshotter (recorded for provenance)
     }
 
     mapping(bytes32 => Snapshot[]) private snapshotsOf;
     mapping(bytes32 => mapping(bytes32 => uint256)) public snapshotIndexByRoot;
 
+    // CreateSnapshot(repoId,contextId,commitHash,merkleRoot,manifestCid,author,nonce,deadline)
+    bytes32 private constant CREATE_SNAPSHOT_TYPEHASH =
+    keccak256(
+        "CreateSnapshot(bytes32 repoId,bytes32 contextId,bytes32 commitHash,bytes32 merkleRoot,string manifestCid,address author,uint256 nonce,uint256 deadline)"
+    );
+
     event SnapshotCreated(
         bytes32 indexed repoId,
         uint256 indexed snapshotIndex,
@@ -53,8 +75,9 @@ contract CodeQuillSnapshotRegistry {
     constructor(
         address registryAddr,
         address workspaceAddr,
-        address delegationAddr
-    ) {
+        address delegationAddr,
+        address trustedForwarder
+    ) EIP712("CodeQuillSnapshotRegistry", "1") ERC2771Context(trustedForwarder) {
         require(registryAddr != address(0), "zero registry");
         require(workspaceAddr != address(0), "zero workspace");
         require(delegationAddr != address(0), "zero delegation");
@@ -66,10 +89,11 @@ contract CodeQuillSnapshotRegistry {
 
     /// @notice Create a snapshot
     /// @dev Works for:
-    ///  - direct repo owner call (msg.sender == repoOwner), and
-    ///  - relayed call where repo owner delegated SCOPE_SNAPSHOT to msg.sender within contextId.
+    ///  - direct author call (msg.sender == author, or forwarded by the author), and
+    ///  - relayed call where the author delegated SCOPE_SNAPSHOT to msg.sender within contextId.
     ///
-    /// @param author Logical author wallet to record on-chain. Must be the repo owner.
+    /// @param author Logical author wallet to record on-chain. Must be the repo owner or a repo maintainer holding
+    /// ROLE_SNAPSHOTTER in the repository registry.
     function createSnapshot(
         bytes32 repoId,
         bytes32 contextId,
@@ -78,6 +102,53 @@ contract CodeQuillSnapshotRegistry {
         string calldata manifestCid,
         address author
     ) external {
+        _createSnapshot(repoId, contextId, commitHash, merkleRoot, manifestCid, author, false);
+    }
+
+    /// @notice Create a snapshot signed by its author. Any relayer may submit it, but cannot alter it.
+    /// @dev Signature is over:
+    ///  CreateSnapshot(repoId, contextId, commitHash, merkleRoot, manifestCid, author, nonce, deadline)
+    /// The author may be an EOA or an ERC-1271 contract wallet. No delegation is needed.
+    function createSnapshotWithSig(
+        bytes32 repoId,
+        bytes32 contextId,
+        bytes32 commitHash,
+        bytes32 merkleRoot,
+        string calldata manifestCid,
+        address author,
+        uint256 nonce,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        require(block.timestamp <= deadline, "sig expired");
+
+        bytes32 digest = _hashTypedDataV4(keccak256(abi.encode(
+            CREATE_SNAPSHOT_TYPEHASH,
+            repoId,
+            contextId,
+            commitHash,
+            merkleRoot,
+            keccak256(bytes(manifestCid)),
+            author,
+            nonce,
+            deadline
+        )));
+        require(SignatureChecker.isValidSignatureNow(author, digest, signature), "bad signer");
+
+        _useNonce(author, nonce);
+        _createSnapshot(repoId, contextId, commitHash, merkleRoot, manifestCid, author, true);
+    }
+
+    /// @dev `signed` is true when the author signed this exact snapshot, which stands in for delegation.
+    function _createSnapshot(
+        bytes32 repoId,
+        bytes32 contextId,
+        bytes32 commitHash,
+        bytes32 merkleRoot,
+        string calldata manifestCid,
+        address author,
+        bool signed
+    ) internal {
         require(contextId != bytes32(0), "zero context");
         require(merkleRoot != bytes32(0), "zero root");
         require(bytes(manifestCid).length > 0, "empty CID");
@@ -86,19 +157,30 @@ contract CodeQuillSnapshotRegistry {
         address owner_ = registry.repoOwner(repoId);
         require(owner_ != address(0), "repo not claimed");
 
+        // Archived repos accept no new snapshots; existing ones stay readable
+        require(registry.isWritable(repoId), "repo not writable");
+
         // Repo must belong to this workspace context
         bytes32 repoCtx = registry.repoContextId(repoId);
         require(repoCtx == contextId, "repo wrong context");
 
-        // Snapshot provenance: author must be repo owner
-        require(author == owner_, "author must be repo owner");
+        // Snapshot provenance: author must be repo owner or a snapshotter of the repo
+        require(registry.hasRepoRole(repoId, author, registry.ROLE_SNAPSHOTTER()), "author not snapshotter");
+
+        // Frozen / archived workspaces accept no new snapshots
+        require(workspace.isActive(contextId), "context not active");
 
-        // Membership enforcement: repo owner must be a member of the workspace context
+        // Membership enforcement: repo owner (and a co-maintainer author) must be maintainers of the workspace context
         require(workspace.isMember(contextId, owner_), "owner not member");
+        require(workspace.hasRole(contextId, owner_, workspace.ROLE_MAINTAINER()), "owner not maintainer");
+        if (author != owner_) {
+            require(workspace.isMember(contextId, author), "author not member");
+            require(workspace.hasRole(contextId, author, workspace.ROLE_MAINTAINER()), "author not maintainer");
+        }
 
-        // Authorization: owner calls directly OR owner delegated caller for this context
-        if (msg.sender != owner_) {
-            bool isDelegated = delegation.isAuthorized(owner_, msg.sender, delegation.SCOPE_SNAPSHOT(), contextId);
+        // Authorization: author signed this snapshot, calls directly OR delegated caller for this context
+        if (!signed && _msgSender() != author) {
+            bool isDelegated = delegation.consume(author, _msgSender(), delegation.SCOPE_SNAPSHOT(), contextId, repoId);
             require(isDelegated, "not authorized");
         }
 
@@ -162,4 +244,16 @@ contract CodeQuillSnapshotRegistry {
         Snapshot storage s = snapshotsOf[repoId][idx1 - 1];
         return (s.commitHash, s.manifestCid, s.timestamp, s.author, idx1 - 1);
     }
+
+    function _msgSender() internal view override(Context, ERC2771Context) returns (address) {
+        return ERC2771Context._msgSender();
+    }
+
+    function _msgData() internal view override(Context, ERC2771Context) returns (bytes calldata) {
+        return ERC2771Context._msgData();
+    }
+
+    function _contextSuffixLength() internal view override(Context, ERC2771Context) returns (uint256) {
+        return ERC2771Context._contextSuffixLength();
+    }
 }
\ No newline at end of file
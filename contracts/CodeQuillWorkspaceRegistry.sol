@@ -1,40 +1,372 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
 import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import {SignatureChecker} from "@openzeppelin/contracts/utils/cryptography/SignatureChecker.sol";
+import {EnumerableSet} from "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
 
 /// @title CodeQuillWorkspaceRegistry
 /// @notice On-chain registry binding wallets to a workspace contextId (bytes32),
 ///         controlled by a workspace authority wallet (default wallet).
+/// @dev Each member holds a roles bitmask; a wallet is a member if it holds any role.
+///      Signatures go through SignatureChecker, so any signer may be an ERC-1271 contract wallet.
 contract CodeQuillWorkspaceRegistry is EIP712 {
-    using ECDSA for bytes32;
+    using EnumerableSet for EnumerableSet.AddressSet;
+    using EnumerableSet for EnumerableSet.Bytes32Set;
 
     // contextId -> authority wallet
     mapping(bytes32 => address) public authorityOf;
 
-    // contextId -> wallet -> isMember
-    mapping(bytes32 => mapping(address => bool)) public isMember;
+    /// @dev Top byte of every derived contextId. initAuthority refuses this namespace, so a derived
+    /// context can only ever be bootstrapped for the authority it was derived from.
+    bytes1 private constant DERIVED_CONTEXT_PREFIX = 0xff;
 
-    // Nonce per authority (prevents signature replay)
+    // ---- Roles (bitmask) ----
+    uint256 public constant ROLE_MAINTAINER = 1 << 0; // claim/transfer repos, snapshots, backups
+    uint256 public constant ROLE_RELEASER = 1 << 1;   // anchor/revoke/supersede releases
+    uint256 public constant ROLE_GOVERNOR = 1 << 2;   // release governance, DAO executor config
+    uint256 public constant ROLE_ATTESTOR = 1 << 3;   // create/revoke attestations
+    uint256 public constant ROLE_AUDITOR = 1 << 4;    // read-only membership, no write privileges
+    uint256 public constant ROLE_ALL = type(uint256).max;
+
+    // contextId -> wallet -> roles bitmask (0 means not a member)
+    mapping(bytes32 => mapping(address => uint256)) public rolesOf;
+
+    // contextId -> wallet -> unix seconds after which the roles lapse (0 means no expiry)
+    mapping(bytes32 => mapping(address => uint64)) public memberValidUntil;
+
+    /// @dev Enumerable membership indexes, kept in sync with rolesOf by _setRoles.
+    /// Expired members stay listed until they are removed or leave.
+    mapping(bytes32 => EnumerableSet.AddressSet) private membersOf;
+    mapping(address => EnumerableSet.Bytes32Set) private contextsOf;
+
+    // ---- Invitations ----
+    struct Invite {
+        uint256 roles;  // roles granted on acceptance
+        uint64 expiry;  // unix seconds after which the invite can no longer be accepted
+    }
+
+    // contextId -> invitee -> pending invite (roles == 0 means none)
+    mapping(bytes32 => mapping(address => Invite)) public invites;
+
+    // contextId -> wallets with a pending invite
+    mapping(bytes32 => EnumerableSet.AddressSet) private inviteesOf;
+
+    // contextId -> true if members can only join by accepting an invite
+    mapping(bytes32 => bool) public inviteOnly;
+
+    // ---- Workspace profile ----
+    /// @dev ACTIVE is the default. FROZEN pauses writes in dependent registries; ARCHIVED does so permanently.
+    enum Lifecycle { ACTIVE, FROZEN, ARCHIVED }
+
+    // contextId -> lifecycle state
+    mapping(bytes32 => Lifecycle) public lifecycleOf;
+
+    // contextId -> metadata CID (name, description, avatar, ...)
+    mapping(bytes32 => string) public metadataCidOf;
+
+    // ---- Hierarchy ----
+    /// @dev Maximum number of ancestors a context can have; bounds the inheritance walk in isMember / hasRole.
+    uint256 public constant MAX_CONTEXT_DEPTH = 4;
+
+    // child contextId -> parent contextId (zero for top-level contexts)
+    mapping(bytes32 => bytes32) public parentOf;
+
+    // child contextId -> true if members of the parent are also members of the child (with the parent's roles)
+    mapping(bytes32 => bool) public inheritsMembers;
+
+    // parent contextId -> child contexts
+    mapping(bytes32 => EnumerableSet.Bytes32Set) private childrenOf;
+
+    // Nonce per signer: authority, or invitee countersigning an invite (prevents signature replay)
     mapping(address => uint256) public nonces;
 
+    /// @dev Nonces with this bit set are unordered: they are consumed from a bitmap (word = low 255 bits >> 8,
+    /// bit = low 8 bits) instead of the sequential counter, so they can be used in any order.
+    uint256 public constant UNORDERED_NONCE_FLAG = 1 << 255;
+
+    // signer -> word position -> bitmap of consumed unordered nonces
+    mapping(address => mapping(uint256 => uint256)) public nonceBitmap;
+
+    // ---- Threshold mode ----
+    // contextId -> signer set (empty unless the context is governed by M-of-N signatures)
+    mapping(bytes32 => EnumerableSet.AddressSet) private signersOf;
+
+    // contextId -> required signatures (0 means single-authority mode)
+    mapping(bytes32 => uint256) public thresholdOf;
+
+    // Nonce per context in threshold mode (prevents signature replay)
+    mapping(bytes32 => uint256) public contextNonces;
+
+    // contextId -> word position -> bitmap of consumed unordered nonces in threshold mode
+    mapping(bytes32 => mapping(uint256 => uint256)) public contextNonceBitmap;
+
     // EIP-712 typehashes
+    // InitAuthority(contextId,authority,nonce,deadline)
+    bytes32 private constant INIT_AUTHORITY_TYPEHASH =
+    keccak256("InitAuthority(bytes32 contextId,address authority,uint256 nonce,uint256 deadline)");
+
     // SetAuthority(contextId,authority,nonce,deadline)
     bytes32 private constant SET_AUTHORITY_TYPEHASH =
     keccak256("SetAuthority(bytes32 contextId,address authority,uint256 nonce,uint256 deadline)");
 
+    // SetAuthorityApproval(contextId,authority,nonce,deadline) -- threshold mode
+    bytes32 private constant SET_AUTHORITY_APPROVAL_TYPEHASH =
+    keccak256("SetAuthorityApproval(bytes32 contextId,address authority,uint256 nonce,uint256 deadline)");
+
     // SetMember(contextId,member,isMember,nonce,deadline)
     bytes32 private constant SET_MEMBER_TYPEHASH =
     keccak256("SetMember(bytes32 contextId,address member,bool isMember,uint256 nonce,uint256 deadline)");
 
+    // SetMemberApproval(contextId,member,isMember,nonce,deadline) -- threshold mode
+    bytes32 private constant SET_MEMBER_APPROVAL_TYPEHASH =
+    keccak256("SetMemberApproval(bytes32 contextId,address member,bool isMember,uint256 nonce,uint256 deadline)");
+
+    // SetMembers(contextId,members,statuses,nonce,deadline)
+    bytes32 private constant SET_MEMBERS_TYPEHASH =
+    keccak256("SetMembers(bytes32 contextId,address[] members,bool[] statuses,uint256 nonce,uint256 deadline)");
+
+    // SetMembersApproval(contextId,members,statuses,nonce,deadline) -- threshold mode
+    bytes32 private constant SET_MEMBERS_APPROVAL_TYPEHASH =
+    keccak256("SetMembersApproval(bytes32 contextId,address[] members,bool[] statuses,uint256 nonce,uint256 deadline)");
+
+    // SetRoles(contextId,member,roles,nonce,deadline)
+    bytes32 private constant SET_ROLES_TYPEHASH =
+    keccak256("SetRoles(bytes32 contextId,address member,uint256 roles,uint256 nonce,uint256 deadline)");
+
+    // SetRolesApproval(contextId,member,roles,nonce,deadline) -- threshold mode
+    bytes32 private constant SET_ROLES_APPROVAL_TYPEHASH =
+    keccak256("SetRolesApproval(bytes32 contextId,address member,uint256 roles,uint256 nonce,uint256 deadline)");
+
+    // SetRolesUntil(contextId,member,roles,validUntil,nonce,deadline)
+    bytes32 private constant SET_ROLES_UNTIL_TYPEHASH =
+    keccak256(
+        "SetRolesUntil(bytes32 contextId,address member,uint256 roles,uint256 validUntil,uint256 nonce,uint256 deadline)"
+    );
+
+    // SetRolesUntilApproval(contextId,member,roles,validUntil,nonce,deadline) -- threshold mode
+    bytes32 private constant SET_ROLES_UNTIL_APPROVAL_TYPEHASH =
+    keccak256(
+        "SetRolesUntilApproval(bytes32 contextId,address member,uint256 roles,uint256 validUntil,uint256 nonce,uint256 deadline)"
+    );
+
+    // Invite(contextId,member,roles,expiry,nonce,deadline)
+    bytes32 private constant INVITE_TYPEHASH =
+    keccak256(
+        "Invite(bytes32 contextId,address member,uint256 roles,uint256 expiry,uint256 nonce,uint256 deadline)"
+    );
+
+    // InviteApproval(contextId,member,roles,expiry,nonce,deadline) -- threshold mode
+    bytes32 private constant INVITE_APPROVAL_TYPEHASH =
+    keccak256(
+        "InviteApproval(bytes32 contextId,address member,uint256 roles,uint256 expiry,uint256 nonce,uint256 deadline)"
+    );
+
+    // CancelInvite(contextId,member,nonce,deadline)
+    bytes32 private constant CANCEL_INVITE_TYPEHASH =
+    keccak256("CancelInvite(bytes32 contextId,address member,uint256 nonce,uint256 deadline)");
+
+    // CancelInviteApproval(contextId,member,nonce,deadline) -- threshold mode
+    bytes32 private constant CANCEL_INVITE_APPROVAL_TYPEHASH =
+    keccak256("CancelInviteApproval(bytes32 contextId,address member,uint256 nonce,uint256 deadline)");
+
+    // AcceptInvite(contextId,member,nonce,deadline) -- signed by the invitee
+    bytes32 private constant ACCEPT_INVITE_TYPEHASH =
+    keccak256("AcceptInvite(bytes32 contextId,address member,uint256 nonce,uint256 deadline)");
+
+    // SetInviteOnly(contextId,enabled,nonce,deadline)
+    bytes32 private constant SET_INVITE_ONLY_TYPEHASH =
+    keccak256("SetInviteOnly(bytes32 contextId,bool enabled,uint256 nonce,uint256 deadline)");
+
+    // SetInviteOnlyApproval(contextId,enabled,nonce,deadline) -- threshold mode
+    bytes32 private constant SET_INVITE_ONLY_APPROVAL_TYPEHASH =
+    keccak256("SetInviteOnlyApproval(bytes32 contextId,bool enabled,uint256 nonce,uint256 deadline)");
+
+    // CancelSignature(signer,nonce,deadline) -- consuming `nonce` is itself the replay protection
+    bytes32 private constant CANCEL_SIGNATURE_TYPEHASH =
+    keccak256("CancelSignature(address signer,uint256 nonce,uint256 deadline)");
+
+    // InvalidateNonces(signer,wordPos,mask,nonce,deadline)
+    bytes32 private constant INVALIDATE_NONCES_TYPEHASH =
+    keccak256("InvalidateNonces(address signer,uint256 wordPos,uint256 mask,uint256 nonce,uint256 deadline)");
+
+    // CancelContextSignatureApproval(contextId,nonce,deadline) -- threshold mode; consuming `nonce` is the replay protection
+    bytes32 private constant CANCEL_CONTEXT_SIGNATURE_APPROVAL_TYPEHASH =
+    keccak256("CancelContextSignatureApproval(bytes32 contextId,uint256 nonce,uint256 deadline)");
+
+    // InvalidateContextNoncesApproval(contextId,wordPos,mask,nonce,deadline) -- threshold mode
+    bytes32 private constant INVALIDATE_CONTEXT_NONCES_APPROVAL_TYPEHASH =
+    keccak256("InvalidateContextNoncesApproval(bytes32 contextId,uint256 wordPos,uint256 mask,uint256 nonce,uint256 deadline)");
+
+    // SetMetadata(contextId,metadataCid,nonce,deadline)
+    bytes32 private constant SET_METADATA_TYPEHASH =
+    keccak256("SetMetadata(bytes32 contextId,string metadataCid,uint256 nonce,uint256 deadline)");
+
+    // SetMetadataApproval(contextId,metadataCid,nonce,deadline) -- threshold mode
+    bytes32 private constant SET_METADATA_APPROVAL_TYPEHASH =
+    keccak256("SetMetadataApproval(bytes32 contextId,string metadataCid,uint256 nonce,uint256 deadline)");
+
+    // SetLifecycle(contextId,state,nonce,deadline)
+    bytes32 private constant SET_LIFECYCLE_TYPEHASH =
+    keccak256("SetLifecycle(bytes32 contextId,uint8 state,uint256 nonce,uint256 deadline)");
+
+    // SetLifecycleApproval(contextId,state,nonce,deadline) -- threshold mode
+    bytes32 private constant SET_LIFECYCLE_APPROVAL_TYPEHASH =
+    keccak256("SetLifecycleApproval(bytes32 contextId,uint8 state,uint256 nonce,uint256 deadline)");
+
+    // CreateChild(parentId,salt,authority,inheritMembers,nonce,deadline)
+    bytes32 private constant CREATE_CHILD_TYPEHASH =
+    keccak256(
+        "CreateChild(bytes32 parentId,bytes32 salt,address authority,bool inheritMembers,uint256 nonce,uint256 deadline)"
+    );
+
+    // CreateChildApproval(parentId,salt,authority,inheritMembers,nonce,deadline) -- threshold mode
+    bytes32 private constant CREATE_CHILD_APPROVAL_TYPEHASH =
+    keccak256(
+        "CreateChildApproval(bytes32 parentId,bytes32 salt,address authority,bool inheritMembers,uint256 nonce,uint256 deadline)"
+    );
+
+    // SetInheritance(contextId,enabled,nonce,deadline)
+    bytes32 private constant SET_INHERITANCE_TYPEHASH =
+    keccak256("SetInheritance(bytes32 contextId,bool enabled,uint256 nonce,uint256 deadline)");
+
+    // SetInheritanceApproval(contextId,enabled,nonce,deadline) -- threshold mode
+    bytes32 private constant SET_INHERITANCE_APPROVAL_TYPEHASH =
+    keccak256("SetInheritanceApproval(bytes32 contextId,bool enabled,uint256 nonce,uint256 deadline)");
+
+    // OverrideAuthority(contextId,authority,nonce,deadline)
+    bytes32 private constant OVERRIDE_AUTHORITY_TYPEHASH =
+    keccak256("OverrideAuthority(bytes32 contextId,address authority,uint256 nonce,uint256 deadline)");
+
+    // OverrideAuthorityApproval(contextId,authority,nonce,deadline) -- threshold mode
+    bytes32 private constant OVERRIDE_AUTHORITY_APPROVAL_TYPEHASH =
+    keccak256("OverrideAuthorityApproval(bytes32 contextId,address authority,uint256 nonce,uint256 deadline)");
+
+    // SetSigners(contextId,signers,threshold,nonce,deadline)
+    bytes32 private constant SET_SIGNERS_TYPEHASH =
+    keccak256("SetSigners(bytes32 contextId,address[] signers,uint256 threshold,uint256 nonce,uint256 deadline)");
+
+    // SetSignersApproval(contextId,signers,threshold,nonce,deadline) -- threshold mode
+    bytes32 private constant SET_SIGNERS_APPROVAL_TYPEHASH =
+    keccak256(
+        "SetSignersApproval(bytes32 contextId,address[] signers,uint256 threshold,uint256 nonce,uint256 deadline)"
+    );
+
     event AuthoritySet(bytes32 indexed contextId, address indexed authority);
     event MemberSet(bytes32 indexed contextId, address indexed member, bool isMember);
+    event RolesSet(bytes32 indexed contextId, address indexed member, uint256 roles);
+    event MemberExpirySet(bytes32 indexed contextId, address indexed member, uint64 validUntil);
+    event InviteCreated(bytes32 indexed contextId, address indexed member, uint256 roles, uint64 expiry);
+    event InviteAccepted(bytes32 indexed contextId, address indexed member, uint256 roles);
+    event InviteCancelled(bytes32 indexed contextId, address indexed member);
+    event InviteOnlySet(bytes32 indexed contextId, bool enabled);
+    event SignersSet(bytes32 indexed contextId, address[] signers, uint256 threshold);
+    event MetadataSet(bytes32 indexed contextId, string metadataCid);
+    event LifecycleSet(bytes32 indexed contextId, Lifecycle state);
+    event ChildContextCreated(bytes32 indexed parentId, bytes32 indexed contextId, bool inheritMembers);
+    event InheritanceSet(bytes32 indexed contextId, bool enabled);
+    event AuthorityOverridden(bytes32 indexed contextId, bytes32 indexed parentId, address indexed authority);
+    event SignatureCancelled(address indexed signer, uint256 nonce);
+    event NoncesInvalidated(address indexed signer, uint256 indexed wordPos, uint256 mask);
+    event ContextSignatureCancelled(bytes32 indexed contextId, uint256 nonce);
+    event ContextNoncesInvalidated(bytes32 indexed contextId, uint256 indexed wordPos, uint256 mask);
 
     constructor()
     EIP712("CodeQuillWorkspaceRegistry", "1")
     {}
 
+    // --------------------
+    // Views
+    // --------------------
+
+    /// @notice Squatting-resistant contextId for `authority` (see initDerivedAuthority).
+    function deriveContextId(address authority, bytes32 salt) public pure returns (bytes32) {
+        bytes32 h = keccak256(abi.encode(authority, salt));
+        return (h >> 8) | bytes32(DERIVED_CONTEXT_PREFIX);
+    }
+
+    /// @notice ContextId of the child `salt` under `parentId` (see createChildWithSig).
+    /// @dev Three-word preimage, so it can never collide with deriveContextId.
+    function deriveChildContextId(bytes32 parentId, bytes32 salt) public pure returns (bytes32) {
+        bytes32 h = keccak256(abi.encode(parentId, address(0), salt));
+        return (h >> 8) | bytes32(DERIVED_CONTEXT_PREFIX);
+    }
+
+    /// @notice True if `wallet` holds any unexpired role in `contextId`, directly or inherited from a parent.
+    function isMember(bytes32 contextId, address wallet) public view returns (bool) {
+        return _effectiveRoles(contextId, wallet) != 0;
+    }
+
+    /// @notice True if `wallet` holds at least one of the bits in `role` for `contextId`, and has not expired.
+    /// @dev Includes roles inherited from ancestors while inheritance is enabled.
+    function hasRole(bytes32 contextId, address wallet, uint256 role) public view returns (bool) {
+        return (_effectiveRoles(contextId, wallet) & role) != 0;
+    }
+
+    function getMemberCount(bytes32 contextId) external view returns (uint256) {
+        return membersOf[contextId].length();
+    }
+
+    /// @notice Paginated member list of a context (order is not stable across removals).
+    function getMembers(bytes32 contextId, uint256 offset, uint256 limit)
+    external
+    view
+    returns (address[] memory members)
+    {
+        EnumerableSet.AddressSet storage set = membersOf[contextId];
+        uint256 total = set.length();
+        if (offset >= total) return new address[](0);
+
+        uint256 end = offset + limit;
+        if (end > total) end = total;
+
+        members = new address[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            members[i - offset] = set.at(i);
+        }
+    }
+
+    /// @notice True unless the context is frozen or archived; dependent registries refuse writes otherwise.
+    function isActive(bytes32 contextId) external view returns (bool) {
+        return lifecycleOf[contextId] == Lifecycle.ACTIVE;
+    }
+
+    /// @notice Child contexts created under `parentId`.
+    function getChildren(bytes32 parentId) external view returns (bytes32[] memory) {
+        return childrenOf[parentId].values();
+    }
+
+    /// @notice Contexts in which `wallet` currently holds any role (direct memberships only).
+    function getContextsOf(address wallet) external view returns (bytes32[] memory) {
+        return contextsOf[wallet].values();
+    }
+
+    /// @notice Wallets with a pending invite in `contextId` (may include expired invites).
+    function getInvitees(bytes32 contextId) external view returns (address[] memory) {
+        return inviteesOf[contextId].values();
+    }
+
+    /// @notice Threshold signer set of a context (empty in single-authority mode).
+    function getSigners(bytes32 contextId) external view returns (address[] memory) {
+        return signersOf[contextId].values();
+    }
+
+    function isSigner(bytes32 contextId, address wallet) external view returns (bool) {
+        return signersOf[contextId].contains(wallet);
+    }
+
+    /// @notice True if `nonce` can no longer be used by `signer` (sequential: already passed; unordered: bit set).
+    function isNonceUsed(address signer, uint256 nonce) external view returns (bool) {
+        if (nonce & UNORDERED_NONCE_FLAG == 0) return nonce < nonces[signer];
+        return nonceBitmap[signer][(nonce ^ UNORDERED_NONCE_FLAG) >> 8] & (1 << (nonce & 0xff)) != 0;
+    }
+
+    /// @notice isNonceUsed for the threshold-mode nonces of a context.
+    function isContextNonceUsed(bytes32 contextId, uint256 nonce) external view returns (bool) {
+        if (nonce & UNORDERED_NONCE_FLAG == 0) return nonce < contextNonces[contextId];
+        return contextNonceBitmap[contextId][(nonce ^ UNORDERED_NONCE_FLAG) >> 8] & (1 << (nonce & 0xff)) != 0;
+    }
+
     // --------------------
     // Bootstrap / Authority management
     // --------------------
@@ -43,66 +375,128 @@ contract CodeQuillWorkspaceRegistry is EIP712 {
      * @notice Initialize the authority for a contextId (one-time).
      * @dev Use this when you create the workspace off-chain and want to anchor its default wallet on-chain.
      *
-     * If you prefer *only* signature-based authority setting, you can delete this and use setAuthorityWithSig only.
+     * Legacy, first-come-first-served: anyone watching the mempool can claim the same contextId first.
+     * New workspaces should use initDerivedAuthority / initAuthorityWithSig, whose namespace this refuses.
      */
     function initAuthority(bytes32 contextId, address authority) external {
         require(contextId != bytes32(0), "zero context");
-        require(authority != address(0), "zero authority");
-        require(authorityOf[contextId] == address(0), "authority already set");
-
-        authorityOf[contextId] = authority;
-
-        // Make the authority a member automatically
-        isMember[contextId][authority] = true;
+        require(contextId[0] != DERIVED_CONTEXT_PREFIX, "derived context");
+        _initAuthority(contextId, authority);
+    }
 
-        emit AuthoritySet(contextId, authority);
-        emit MemberSet(contextId, authority, true);
+    /**
+     * @notice Initialize the derived contextId of msg.sender (one-time).
+     * @dev The contextId is bound to the caller, so copying this transaction only bootstraps the copier's own context.
+     */
+    function initDerivedAuthority(bytes32 salt) external returns (bytes32 contextId) {
+        contextId = deriveContextId(msg.sender, salt);
+        _initAuthority(contextId, msg.sender);
     }
 
     /**
-     * @notice Change authority using an EIP-712 signature by the *current* authority.
-     * @dev Backend can pay gas; cannot cheat without authority signature.
+     * @notice Initialize the derived contextId of `authority` using its EIP-712 signature (one-time).
+     * @dev Lets a relayer pay gas for the bootstrap. Front-running the transaction can only complete the same
+     * initialization for the same authority.
      */
-    function setAuthorityWithSig(
-        bytes32 contextId,
-        address newAuthority,
+    function initAuthorityWithSig(
+        bytes32 salt,
+        address authority,
+        uint256 nonce,
         uint256 deadline,
-        uint8 v,
-        bytes32 r,
-        bytes32 s
-    ) external {
-        require(contextId != bytes32(0), "zero context");
-        require(newAuthority != address(0), "zero authority");
+        bytes calldata signature
+    ) external returns (bytes32 contextId) {
         require(block.timestamp <= deadline, "sig expired");
 
-        address currentAuthority = authorityOf[contextId];
-        require(currentAuthority != address(0), "authority not set");
-
-        uint256 nonce = nonces[currentAuthority];
+        contextId = deriveContextId(authority, salt);
 
         bytes32 structHash = keccak256(
             abi.encode(
-                SET_AUTHORITY_TYPEHASH,
+                INIT_AUTHORITY_TYPEHASH,
                 contextId,
-                newAuthority,
+                authority,
                 nonce,
                 deadline
             )
         );
 
         bytes32 digest = _hashTypedDataV4(structHash);
-        address signer = ECDSA.recover(digest, v, r, s);
-        require(signer == currentAuthority, "bad signer");
+        require(SignatureChecker.isValidSignatureNow(authority, digest, signature), "bad signer");
 
-        nonces[currentAuthority] = nonce + 1;
+        _useNonce(authority, nonce);
 
-        authorityOf[contextId] = newAuthority;
+        _initAuthority(contextId, authority);
+    }
 
-        // Ensure new authority is a member
-        isMember[contextId][newAuthority] = true;
+    /**
+     * @notice Change authority using an EIP-712 signature by the *current* authority.
+     * @dev Backend can pay gas; cannot cheat without authority signature.
+     */
+    function setAuthorityWithSig(
+        bytes32 contextId,
+        address newAuthority,
+        uint256 nonce,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        bytes32 digest = _setAuthorityDigest(contextId, newAuthority, nonce, deadline, false);
+        _useAuthoritySig(contextId, digest, nonce, signature);
+        _applyAuthority(contextId, newAuthority);
+    }
 
-        emit AuthoritySet(contextId, newAuthority);
-        emit MemberSet(contextId, newAuthority, true);
+    /// @notice Threshold-mode variant of setAuthorityWithSig (see setSignersWithSig).
+    function setAuthorityWithSigs(
+        bytes32 contextId,
+        address newAuthority,
+        uint256 nonce,
+        uint256 deadline,
+        address[] calldata approvers,
+        bytes[] calldata signatures
+    ) external {
+        bytes32 digest = _setAuthorityDigest(contextId, newAuthority, nonce, deadline, true);
+        _useThresholdSigs(contextId, digest, nonce, approvers, signatures);
+        _applyAuthority(contextId, newAuthority);
+    }
+
+    // --------------------
+    // Threshold (M-of-N) authority
+    // --------------------
+
+    /**
+     * @notice Switch a context to threshold mode, signed by the single authority.
+     * @dev Once enabled, authority-signed actions require `threshold` signatures from `signers`
+     * through the `...WithSigs` entry points; the single-signature paths are refused.
+     * Threshold approvals are signed over the `...Approval` variant of each type, so a signature
+     * cannot be replayed between modes even when the two nonce counters line up.
+     */
+    function setSignersWithSig(
+        bytes32 contextId,
+        address[] calldata signers,
+        uint256 threshold,
+        uint256 nonce,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        bytes32 digest = _setSignersDigest(contextId, signers, threshold, nonce, deadline, false);
+        _useAuthoritySig(contextId, digest, nonce, signature);
+        _applySigners(contextId, signers, threshold);
+    }
+
+    /**
+     * @notice Change the signer set and threshold of a context already in threshold mode.
+     * @dev An empty signer set with threshold 0 returns the context to single-authority mode.
+     */
+    function setSignersWithSigs(
+        bytes32 contextId,
+        address[] calldata signers,
+        uint256 threshold,
+        uint256 nonce,
+        uint256 deadline,
+        address[] calldata approvers,
+        bytes[] calldata signatures
+    ) external {
+        bytes32 digest = _setSignersDigest(contextId, signers, threshold, nonce, deadline, true);
+        _useThresholdSigs(contextId, digest, nonce, approvers, signatures);
+        _applySigners(contextId, signers, threshold);
     }
 
     // --------------------
@@ -112,63 +506,1180 @@ contract CodeQuillWorkspaceRegistry is EIP712 {
     /**
      * @notice Add/remove a member using an EIP-712 signature by the workspace authority.
      * @dev Backend can pay gas; cannot cheat without authority signature.
+     * Adding a member grants ROLE_ALL (full membership); use setRolesWithSig for finer-grained roles.
      */
     function setMemberWithSig(
         bytes32 contextId,
         address member,
         bool memberStatus,
+        uint256 nonce,
         uint256 deadline,
-        uint8 v,
-        bytes32 r,
-        bytes32 s
+        bytes calldata signature
     ) external {
-        require(contextId != bytes32(0), "zero context");
-        require(member != address(0), "zero member");
-        require(block.timestamp <= deadline, "sig expired");
+        bytes32 digest = _setMemberDigest(contextId, member, memberStatus, nonce, deadline, false);
+        _useAuthoritySig(contextId, digest, nonce, signature);
+        _applyMember(contextId, member, memberStatus);
+    }
 
-        address auth = authorityOf[contextId];
-        require(auth != address(0), "authority not set");
+    /// @notice Threshold-mode variant of setMemberWithSig (see setSignersWithSig).
+    function setMemberWithSigs(
+        bytes32 contextId,
+        address member,
+        bool memberStatus,
+        uint256 nonce,
+        uint256 deadline,
+        address[] calldata approvers,
+        bytes[] calldata signatures
+    ) external {
+        bytes32 digest = _setMemberDigest(contextId, member, memberStatus, nonce, deadline, true);
+        _useThresholdSigs(contextId, digest, nonce, approvers, signatures);
+        _applyMember(contextId, member, memberStatus);
+    }
+
+    /**
+     * @notice Add/remove many members atomically under a single authority signature.
+     * @dev Consumes one nonce and emits one MemberSet per entry; same rules as setMemberWithSig.
+     */
+    function setMembersWithSig(
+        bytes32 contextId,
+        address[] calldata members,
+        bool[] calldata statuses,
+        uint256 nonce,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        bytes32 digest = _setMembersDigest(contextId, members, statuses, nonce, deadline, false);
+        _useAuthoritySig(contextId, digest, nonce, signature);
+        _applyMembers(contextId, members, statuses);
+    }
+
+    /// @notice Threshold-mode variant of setMembersWithSig (see setSignersWithSig).
+    function setMembersWithSigs(
+        bytes32 contextId,
+        address[] calldata members,
+        bool[] calldata statuses,
+        uint256 nonce,
+        uint256 deadline,
+        address[] calldata approvers,
+        bytes[] calldata signatures
+    ) external {
+        bytes32 digest = _setMembersDigest(contextId, members, statuses, nonce, deadline, true);
+        _useThresholdSigs(contextId, digest, nonce, approvers, signatures);
+        _applyMembers(contextId, members, statuses);
+    }
+
+    /**
+     * @notice Set the roles bitmask of a member using an EIP-712 signature by the workspace authority.
+     * @dev roles == 0 removes the member; any non-zero value makes the wallet a member.
+     */
+    function setRolesWithSig(
+        bytes32 contextId,
+        address member,
+        uint256 roles,
+        uint256 nonce,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        bytes32 digest = _setRolesDigest(contextId, member, roles, nonce, deadline, false);
+        _useAuthoritySig(contextId, digest, nonce, signature);
+        _applyRoles(contextId, member, roles);
+    }
+
+    /// @notice Threshold-mode variant of setRolesWithSig (see setSignersWithSig).
+    function setRolesWithSigs(
+        bytes32 contextId,
+        address member,
+        uint256 roles,
+        uint256 nonce,
+        uint256 deadline,
+        address[] calldata approvers,
+        bytes[] calldata signatures
+    ) external {
+        bytes32 digest = _setRolesDigest(contextId, member, roles, nonce, deadline, true);
+        _useThresholdSigs(contextId, digest, nonce, approvers, signatures);
+        _applyRoles(contextId, member, roles);
+    }
+
+    /**
+     * @notice Grant time-boxed roles (e.g. contractors, auditors) using an EIP-712 signature by the workspace authority.
+     * @dev After `validUntil` the wallet stops being a member everywhere isMember/hasRole is checked, without any
+     * further transaction. A later setMemberWithSig / setRolesWithSig makes the membership permanent again.
+     */
+    function setRolesUntilWithSig(
+        bytes32 contextId,
+        address member,
+        uint256 roles,
+        uint256 validUntil,
+        uint256 nonce,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        bytes32 digest = _setRolesUntilDigest(contextId, member, roles, validUntil, nonce, deadline, false);
+        _useAuthoritySig(contextId, digest, nonce, signature);
+        _applyRolesUntil(contextId, member, roles, validUntil);
+    }
+
+    /// @notice Threshold-mode variant of setRolesUntilWithSig (see setSignersWithSig).
+    function setRolesUntilWithSigs(
+        bytes32 contextId,
+        address member,
+        uint256 roles,
+        uint256 validUntil,
+        uint256 nonce,
+        uint256 deadline,
+        address[] calldata approvers,
+        bytes[] calldata signatures
+    ) external {
+        bytes32 digest = _setRolesUntilDigest(contextId, member, roles, validUntil, nonce, deadline, true);
+        _useThresholdSigs(contextId, digest, nonce, approvers, signatures);
+        _applyRolesUntil(contextId, member, roles, validUntil);
+    }
+
+    // --------------------
+    // Invitations
+    // --------------------
+
+    /**
+     * @notice Invite a wallet using an EIP-712 signature by the workspace authority.
+     * @dev The invitee only becomes a member once it accepts (acceptInvite / acceptInviteWithSig) before `expiry`.
+     * Re-inviting replaces any pending invite for the same wallet.
+     */
+    function inviteWithSig(
+        bytes32 contextId,
+        address member,
+        uint256 roles,
+        uint256 expiry,
+        uint256 nonce,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        bytes32 digest = _inviteDigest(contextId, member, roles, expiry, nonce, deadline, false);
+        _useAuthoritySig(contextId, digest, nonce, signature);
+        _applyInvite(contextId, member, roles, expiry);
+    }
+
+    /// @notice Threshold-mode variant of inviteWithSig (see setSignersWithSig).
+    function inviteWithSigs(
+        bytes32 contextId,
+        address member,
+        uint256 roles,
+        uint256 expiry,
+        uint256 nonce,
+        uint256 deadline,
+        address[] calldata approvers,
+        bytes[] calldata signatures
+    ) external {
+        bytes32 digest = _inviteDigest(contextId, member, roles, expiry, nonce, deadline, true);
+        _useThresholdSigs(contextId, digest, nonce, approvers, signatures);
+        _applyInvite(contextId, member, roles, expiry);
+    }
+
+    /// @notice Accept a pending invite as the invitee.
+    function acceptInvite(bytes32 contextId) external {
+        _acceptInvite(contextId, msg.sender);
+    }
 
-        uint256 nonce = nonces[auth];
+    /**
+     * @notice Accept a pending invite using an EIP-712 countersignature by the invitee.
+     * @dev Lets a relayer complete onboarding; the invitee's own nonce is consumed.
+     */
+    function acceptInviteWithSig(
+        bytes32 contextId,
+        address member,
+        uint256 nonce,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        require(block.timestamp <= deadline, "sig expired");
 
         bytes32 structHash = keccak256(
             abi.encode(
-                SET_MEMBER_TYPEHASH,
+                ACCEPT_INVITE_TYPEHASH,
                 contextId,
                 member,
-                memberStatus,
                 nonce,
                 deadline
             )
         );
 
         bytes32 digest = _hashTypedDataV4(structHash);
-        address signer = ECDSA.recover(digest, v, r, s);
-        require(signer == auth, "bad signer");
+        require(SignatureChecker.isValidSignatureNow(member, digest, signature), "bad signer");
 
-        nonces[auth] = nonce + 1;
+        _useNonce(member, nonce);
 
-        // Prevent removing the authority as a member
-        if (member == auth) {
-            require(memberStatus == true, "cannot remove authority");
-        }
+        _acceptInvite(contextId, member);
+    }
 
-        isMember[contextId][member] = memberStatus;
-        emit MemberSet(contextId, member, memberStatus);
+    /// @notice Decline (or discard) a pending invite as the invitee.
+    function declineInvite(bytes32 contextId) external {
+        require(invites[contextId][msg.sender].roles != 0, "no invite");
+        _clearInvite(contextId, msg.sender);
+        emit InviteCancelled(contextId, msg.sender);
+    }
+
+    /// @notice Cancel a pending invite using an EIP-712 signature by the workspace authority.
+    function cancelInviteWithSig(
+        bytes32 contextId,
+        address member,
+        uint256 nonce,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        bytes32 digest = _cancelInviteDigest(contextId, member, nonce, deadline, false);
+        _useAuthoritySig(contextId, digest, nonce, signature);
+        _applyCancelInvite(contextId, member);
+    }
+
+    /// @notice Threshold-mode variant of cancelInviteWithSig (see setSignersWithSig).
+    function cancelInviteWithSigs(
+        bytes32 contextId,
+        address member,
+        uint256 nonce,
+        uint256 deadline,
+        address[] calldata approvers,
+        bytes[] calldata signatures
+    ) external {
+        bytes32 digest = _cancelInviteDigest(contextId, member, nonce, deadline, true);
+        _useThresholdSigs(contextId, digest, nonce, approvers, signatures);
+        _applyCancelInvite(contextId, member);
     }
 
     /**
-     * @notice Optional self-leave (no signature).
-     * @dev Keeps UX simple for users who want to remove themselves.
-     * If you want authority-only membership changes, remove this function.
+     * @notice Require consent (invite + accept) for new members of a context.
+     * @dev While enabled, setMemberWithSig / setMembersWithSig / setRolesWithSig / setRolesUntilWithSig can still
+     * change or remove existing members, but can no longer add new ones.
      */
-    function leave(bytes32 contextId) external {
-        require(contextId != bytes32(0), "zero context");
+    function setInviteOnlyWithSig(
+        bytes32 contextId,
+        bool enabled,
+        uint256 nonce,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        bytes32 digest = _setInviteOnlyDigest(contextId, enabled, nonce, deadline, false);
+        _useAuthoritySig(contextId, digest, nonce, signature);
+        _applyInviteOnly(contextId, enabled);
+    }
 
-        address auth = authorityOf[contextId];
-        require(msg.sender != auth, "authority cannot leave");
+    /// @notice Threshold-mode variant of setInviteOnlyWithSig (see setSignersWithSig).
+    function setInviteOnlyWithSigs(
+        bytes32 contextId,
+        bool enabled,
+        uint256 nonce,
+        uint256 deadline,
+        address[] calldata approvers,
+        bytes[] calldata signatures
+    ) external {
+        bytes32 digest = _setInviteOnlyDigest(contextId, enabled, nonce, deadline, true);
+        _useThresholdSigs(contextId, digest, nonce, approvers, signatures);
+        _applyInviteOnly(contextId, enabled);
+    }
 
-        isMember[contextId][msg.sender] = false;
-        emit MemberSet(contextId, msg.sender, false);
+    // --------------------
+    // Workspace profile
+    // --------------------
+
+    /// @notice Set the workspace metadata CID using an EIP-712 signature by the authority.
+    function setMetadataWithSig(
+        bytes32 contextId,
+        string calldata metadataCid,
+        uint256 nonce,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        bytes32 digest = _setMetadataDigest(contextId, metadataCid, nonce, deadline, false);
+        _useAuthoritySig(contextId, digest, nonce, signature);
+        _applyMetadata(contextId, metadataCid);
+    }
+
+    /// @notice Threshold-mode variant of setMetadataWithSig (see setSignersWithSig).
+    function setMetadataWithSigs(
+        bytes32 contextId,
+        string calldata metadataCid,
+        uint256 nonce,
+        uint256 deadline,
+        address[] calldata approvers,
+        bytes[] calldata signatures
+    ) external {
+        bytes32 digest = _setMetadataDigest(contextId, metadataCid, nonce, deadline, true);
+        _useThresholdSigs(contextId, digest, nonce, approvers, signatures);
+        _applyMetadata(contextId, metadataCid);
+    }
+
+    /**
+     * @notice Freeze, unfreeze or archive a context using an EIP-712 signature by the authority.
+     * @dev ARCHIVED is final. Membership management keeps working in every state; only the dependent
+     * registries refuse writes while the context is not ACTIVE.
+     */
+    function setLifecycleWithSig(
+        bytes32 contextId,
+        Lifecycle state,
+        uint256 nonce,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        bytes32 digest = _setLifecycleDigest(contextId, state, nonce, deadline, false);
+        _useAuthoritySig(contextId, digest, nonce, signature);
+        _applyLifecycle(contextId, state);
+    }
+
+    /// @notice Threshold-mode variant of setLifecycleWithSig (see setSignersWithSig).
+    function setLifecycleWithSigs(
+        bytes32 contextId,
+        Lifecycle state,
+        uint256 nonce,
+        uint256 deadline,
+        address[] calldata approvers,
+        bytes[] calldata signatures
+    ) external {
+        bytes32 digest = _setLifecycleDigest(contextId, state, nonce, deadline, true);
+        _useThresholdSigs(contextId, digest, nonce, approvers, signatures);
+        _applyLifecycle(contextId, state);
+    }
+
+    // --------------------
+    // Hierarchy
+    // --------------------
+
+    /**
+     * @notice Create a child context under `parentId` using an EIP-712 signature by the parent authority.
+     * @dev The child gets its own authority and member list. With `inheritMembers`, every member of the
+     * parent is also a member of the child, with the roles held in the parent.
+     */
+    function createChildWithSig(
+        bytes32 parentId,
+        bytes32 salt,
+        address authority,
+        bool inheritMembers,
+        uint256 nonce,
+        uint256 deadline,
+        bytes calldata signature
+    ) external returns (bytes32 contextId) {
+        bytes32 digest = _createChildDigest(parentId, salt, authority, inheritMembers, nonce, deadline, false);
+        _useAuthoritySig(parentId, digest, nonce, signature);
+        contextId = _applyCreateChild(parentId, salt, authority, inheritMembers);
+    }
+
+    /// @notice Threshold-mode variant of createChildWithSig (see setSignersWithSig).
+    function createChildWithSigs(
+        bytes32 parentId,
+        bytes32 salt,
+        address authority,
+        bool inheritMembers,
+        uint256 nonce,
+        uint256 deadline,
+        address[] calldata approvers,
+        bytes[] calldata signatures
+    ) external returns (bytes32 contextId) {
+        bytes32 digest = _createChildDigest(parentId, salt, authority, inheritMembers, nonce, deadline, true);
+        _useThresholdSigs(parentId, digest, nonce, approvers, signatures);
+        contextId = _applyCreateChild(parentId, salt, authority, inheritMembers);
+    }
+
+    /// @notice Turn membership inheritance of a child on or off, signed by the *parent* authority.
+    function setInheritanceWithSig(
+        bytes32 contextId,
+        bool enabled,
+        uint256 nonce,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        bytes32 digest = _setInheritanceDigest(contextId, enabled, nonce, deadline, false);
+        _useAuthoritySig(parentOf[contextId], digest, nonce, signature);
+        _applyInheritance(contextId, enabled);
+    }
+
+    /// @notice Threshold-mode variant of setInheritanceWithSig (parent in threshold mode).
+    function setInheritanceWithSigs(
+        bytes32 contextId,
+        bool enabled,
+        uint256 nonce,
+        uint256 deadline,
+        address[] calldata approvers,
+        bytes[] calldata signatures
+    ) external {
+        bytes32 digest = _setInheritanceDigest(contextId, enabled, nonce, deadline, true);
+        _useThresholdSigs(parentOf[contextId], digest, nonce, approvers, signatures);
+        _applyInheritance(contextId, enabled);
+    }
+
+    /**
+     * @notice Emergency replacement of a child's authority, signed by the *parent* authority.
+     * @dev For a lost or compromised child key: the child drops back to single-authority mode and the
+     * previous authority loses its membership.
+     */
+    function overrideAuthorityWithSig(
+        bytes32 contextId,
+        address newAuthority,
+        uint256 nonce,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        bytes32 digest = _overrideAuthorityDigest(contextId, newAuthority, nonce, deadline, false);
+        _useAuthoritySig(parentOf[contextId], digest, nonce, signature);
+        _applyOverrideAuthority(contextId, newAuthority);
+    }
+
+    /// @notice Threshold-mode variant of overrideAuthorityWithSig (parent in threshold mode).
+    function overrideAuthorityWithSigs(
+        bytes32 contextId,
+        address newAuthority,
+        uint256 nonce,
+        uint256 deadline,
+        address[] calldata approvers,
+        bytes[] calldata signatures
+    ) external {
+        bytes32 digest = _overrideAuthorityDigest(contextId, newAuthority, nonce, deadline, true);
+        _useThresholdSigs(parentOf[contextId], digest, nonce, approvers, signatures);
+        _applyOverrideAuthority(contextId, newAuthority);
+    }
+
+    // --------------------
+    // Nonce cancellation
+    // --------------------
+
+    /**
+     * @notice Burn one of msg.sender's nonces so a signature handed out with it can never be used.
+     * @dev A sequential nonce must be the next one; burning it unblocks the following nonce.
+     */
+    function cancelSignature(uint256 nonce) external {
+        _useNonce(msg.sender, nonce);
+        emit SignatureCancelled(msg.sender, nonce);
+    }
+
+    /// @notice cancelSignature on behalf of `signer`, using its EIP-712 signature.
+    function cancelSignatureWithSig(
+        address signer,
+        uint256 nonce,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        require(block.timestamp <= deadline, "sig expired");
+
+        bytes32 digest = _hashTypedDataV4(keccak256(
+            abi.encode(CANCEL_SIGNATURE_TYPEHASH, signer, nonce, deadline)
+        ));
+        require(SignatureChecker.isValidSignatureNow(signer, digest, signature), "bad signer");
+
+        _useNonce(signer, nonce);
+        emit SignatureCancelled(signer, nonce);
+    }
+
+    /// @notice Mark every unordered nonce of msg.sender in `mask` (within bitmap word `wordPos`) as used.
+    function invalidateNonces(uint256 wordPos, uint256 mask) external {
+        _invalidateNonces(msg.sender, wordPos, mask);
+    }
+
+    /// @notice invalidateNonces on behalf of `signer`, using its EIP-712 signature.
+    function invalidateNoncesWithSig(
+        address signer,
+        uint256 wordPos,
+        uint256 mask,
+        uint256 nonce,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        require(block.timestamp <= deadline, "sig expired");
+
+        bytes32 digest = _hashTypedDataV4(keccak256(
+            abi.encode(INVALIDATE_NONCES_TYPEHASH, signer, wordPos, mask, nonce, deadline)
+        ));
+        require(SignatureChecker.isValidSignatureNow(signer, digest, signature), "bad signer");
+
+        _useNonce(signer, nonce);
+        _invalidateNonces(signer, wordPos, mask);
+    }
+
+    /**
+     * @notice Burn one of a threshold-mode context's nonces so approvals collected with it can never be used.
+     * @dev Needs `threshold` signatures from the signer set, like any other threshold action. A sequential nonce
+     * must be the next one; burning it unblocks the following nonce.
+     */
+    function cancelContextSignatureWithSigs(
+        bytes32 contextId,
+        uint256 nonce,
+        uint256 deadline,
+        address[] calldata approvers,
+        bytes[] calldata signatures
+    ) external {
+        require(block.timestamp <= deadline, "sig expired");
+
+        bytes32 digest = _hashTypedDataV4(keccak256(
+            abi.encode(CANCEL_CONTEXT_SIGNATURE_APPROVAL_TYPEHASH, contextId, nonce, deadline)
+        ));
+        _useThresholdSigs(contextId, digest, nonce, approvers, signatures);
+
+        emit ContextSignatureCancelled(contextId, nonce);
+    }
+
+    /// @notice Mark every unordered context nonce in `mask` (within bitmap word `wordPos`) as used, with threshold
+    /// signatures. `nonce` is the context nonce consumed by this call itself.
+    function invalidateContextNoncesWithSigs(
+        bytes32 contextId,
+        uint256 wordPos,
+        uint256 mask,
+        uint256 nonce,
+        uint256 deadline,
+        address[] calldata approvers,
+        bytes[] calldata signatures
+    ) external {
+        require(block.timestamp <= deadline, "sig expired");
+
+        bytes32 digest = _hashTypedDataV4(keccak256(
+            abi.encode(INVALIDATE_CONTEXT_NONCES_APPROVAL_TYPEHASH, contextId, wordPos, mask, nonce, deadline)
+        ));
+        _useThresholdSigs(contextId, digest, nonce, approvers, signatures);
+
+        contextNonceBitmap[contextId][wordPos] |= mask;
+        emit ContextNoncesInvalidated(contextId, wordPos, mask);
+    }
+
+    /**
+     * @notice Optional self-leave (no signature).
+     * @dev Keeps UX simple for users who want to remove themselves.
+     * If you want authority-only membership changes, remove this function.
+     */
+    function leave(bytes32 contextId) external {
+        require(contextId != bytes32(0), "zero context");
+
+        address auth = authorityOf[contextId];
+        require(msg.sender != auth, "authority cannot leave");
+
+        _setRoles(contextId, msg.sender, 0);
+        emit MemberSet(contextId, msg.sender, false);
+    }
+
+    // --------------------
+    // Internals: signatures
+    // --------------------
+
+    /// @dev Consumes a signer nonce: sequential unless UNORDERED_NONCE_FLAG is set.
+    function _useNonce(address signer, uint256 nonce) internal {
+        if (nonce & UNORDERED_NONCE_FLAG == 0) {
+            require(nonce == nonces[signer], "bad nonce");
+            nonces[signer] = nonce + 1;
+        } else {
+            _useNonceBit(nonceBitmap[signer], nonce);
+        }
+    }
+
+    /// @dev Consumes a threshold-mode context nonce: sequential unless UNORDERED_NONCE_FLAG is set.
+    function _useContextNonce(bytes32 contextId, uint256 nonce) internal {
+        if (nonce & UNORDERED_NONCE_FLAG == 0) {
+            require(nonce == contextNonces[contextId], "bad nonce");
+            contextNonces[contextId] = nonce + 1;
+        } else {
+            _useNonceBit(contextNonceBitmap[contextId], nonce);
+        }
+    }
+
+    function _useNonceBit(mapping(uint256 => uint256) storage bitmap, uint256 nonce) internal {
+        uint256 wordPos = (nonce ^ UNORDERED_NONCE_FLAG) >> 8;
+        uint256 bit = 1 << (nonce & 0xff);
+        require(bitmap[wordPos] & bit == 0, "nonce used");
+        bitmap[wordPos] |= bit;
+    }
+
+    function _invalidateNonces(address signer, uint256 wordPos, uint256 mask) internal {
+        nonceBitmap[signer][wordPos] |= mask;
+        emit NoncesInvalidated(signer, wordPos, mask);
+    }
+
+    function _requireSigContext(bytes32 contextId, uint256 deadline) internal view {
+        require(block.timestamp <= deadline, "sig expired");
+        require(authorityOf[contextId] != address(0), "authority not set");
+    }
+
+    /// @dev Verifies a single-authority signature and consumes the authority nonce.
+    function _useAuthoritySig(bytes32 contextId, bytes32 digest, uint256 nonce, bytes calldata signature) internal {
+        require(thresholdOf[contextId] == 0, "threshold mode");
+
+        address auth = authorityOf[contextId];
+        require(SignatureChecker.isValidSignatureNow(auth, digest, signature), "bad signer");
+
+        _useNonce(auth, nonce);
+    }
+
+    /// @dev Verifies at least `thresholdOf[contextId]` signatures from the signer set and consumes the
+    /// context nonce. Approvers are named explicitly so contract wallets (ERC-1271) can take part, and must
+    /// be strictly ascending, which rejects duplicates.
+    function _useThresholdSigs(
+        bytes32 contextId,
+        bytes32 digest,
+        uint256 nonce,
+        address[] calldata approvers,
+        bytes[] calldata signatures
+    ) internal {
+        uint256 threshold = thresholdOf[contextId];
+        require(threshold != 0, "not threshold mode");
+        require(approvers.length == signatures.length, "length mismatch");
+        require(signatures.length >= threshold, "below threshold");
+
+        EnumerableSet.AddressSet storage set = signersOf[contextId];
+        address last = address(0);
+        for (uint256 i = 0; i < signatures.length; i++) {
+            address signer = approvers[i];
+            require(signer > last, "unsorted signers");
+            require(set.contains(signer), "bad signer");
+            require(SignatureChecker.isValidSignatureNow(signer, digest, signatures[i]), "bad signer");
+            last = signer;
+        }
+
+        _useContextNonce(contextId, nonce);
+    }
+
+    function _setAuthorityDigest(
+        bytes32 contextId,
+        address newAuthority,
+        uint256 nonce,
+        uint256 deadline,
+        bool approval
+    ) internal view returns (bytes32) {
+        require(contextId != bytes32(0), "zero context");
+        require(newAuthority != address(0), "zero authority");
+        _requireSigContext(contextId, deadline);
+
+        return _hashTypedDataV4(keccak256(
+            abi.encode(
+                approval ? SET_AUTHORITY_APPROVAL_TYPEHASH : SET_AUTHORITY_TYPEHASH,
+                contextId,
+                newAuthority,
+                nonce,
+                deadline
+            )
+        ));
+    }
+
+    function _setSignersDigest(
+        bytes32 contextId,
+        address[] calldata signers,
+        uint256 threshold,
+        uint256 nonce,
+        uint256 deadline,
+        bool approval
+    ) internal view returns (bytes32) {
+        require(contextId != bytes32(0), "zero context");
+        _requireSigContext(contextId, deadline);
+
+        return _hashTypedDataV4(keccak256(
+            abi.encode(
+                approval ? SET_SIGNERS_APPROVAL_TYPEHASH : SET_SIGNERS_TYPEHASH,
+                contextId,
+                keccak256(abi.encodePacked(signers)),
+                threshold,
+                nonce,
+                deadline
+            )
+        ));
+    }
+
+    function _setMemberDigest(
+        bytes32 contextId,
+        address member,
+        bool memberStatus,
+        uint256 nonce,
+        uint256 deadline,
+        bool approval
+    ) internal view returns (bytes32) {
+        require(contextId != bytes32(0), "zero context");
+        require(member != address(0), "zero member");
+        _requireSigContext(contextId, deadline);
+
+        return _hashTypedDataV4(keccak256(
+            abi.encode(
+                approval ? SET_MEMBER_APPROVAL_TYPEHASH : SET_MEMBER_TYPEHASH,
+                contextId,
+                member,
+                memberStatus,
+                nonce,
+                deadline
+            )
+        ));
+    }
+
+    function _setMembersDigest(
+        bytes32 contextId,
+        address[] calldata members,
+        bool[] calldata statuses,
+        uint256 nonce,
+        uint256 deadline,
+        bool approval
+    ) internal view returns (bytes32) {
+        require(contextId != bytes32(0), "zero context");
+        require(members.length != 0, "empty batch");
+        require(members.length == statuses.length, "length mismatch");
+        _requireSigContext(contextId, deadline);
+
+        return _hashTypedDataV4(keccak256(
+            abi.encode(
+                approval ? SET_MEMBERS_APPROVAL_TYPEHASH : SET_MEMBERS_TYPEHASH,
+                contextId,
+                keccak256(abi.encodePacked(members)),
+                keccak256(abi.encodePacked(statuses)),
+                nonce,
+                deadline
+            )
+        ));
+    }
+
+    function _setRolesDigest(
+        bytes32 contextId,
+        address member,
+        uint256 roles,
+        uint256 nonce,
+        uint256 deadline,
+        bool approval
+    ) internal view returns (bytes32) {
+        require(contextId != bytes32(0), "zero context");
+        require(member != address(0), "zero member");
+        _requireSigContext(contextId, deadline);
+
+        return _hashTypedDataV4(keccak256(
+            abi.encode(
+                approval ? SET_ROLES_APPROVAL_TYPEHASH : SET_ROLES_TYPEHASH,
+                contextId,
+                member,
+                roles,
+                nonce,
+                deadline
+            )
+        ));
+    }
+
+    function _setRolesUntilDigest(
+        bytes32 contextId,
+        address member,
+        uint256 roles,
+        uint256 validUntil,
+        uint256 nonce,
+        uint256 deadline,
+        bool approval
+    ) internal view returns (bytes32) {
+        require(contextId != bytes32(0), "zero context");
+        require(member != address(0), "zero member");
+        _requireSigContext(contextId, deadline);
+
+        return _hashTypedDataV4(keccak256(
+            abi.encode(
+                approval ? SET_ROLES_UNTIL_APPROVAL_TYPEHASH : SET_ROLES_UNTIL_TYPEHASH,
+                contextId,
+                member,
+                roles,
+                validUntil,
+                nonce,
+                deadline
+            )
+        ));
+    }
+
+    function _inviteDigest(
+        bytes32 contextId,
+        address member,
+        uint256 roles,
+        uint256 expiry,
+        uint256 nonce,
+        uint256 deadline,
+        bool approval
+    ) internal view returns (bytes32) {
+        require(contextId != bytes32(0), "zero context");
+        require(member != address(0), "zero member");
+        _requireSigContext(contextId, deadline);
+
+        return _hashTypedDataV4(keccak256(
+            abi.encode(
+                approval ? INVITE_APPROVAL_TYPEHASH : INVITE_TYPEHASH,
+                contextId,
+                member,
+                roles,
+                expiry,
+                nonce,
+                deadline
+            )
+        ));
+    }
+
+    function _cancelInviteDigest(bytes32 contextId, address member, uint256 nonce, uint256 deadline, bool approval)
+    internal
+    view
+    returns (bytes32)
+    {
+        require(contextId != bytes32(0), "zero context");
+        _requireSigContext(contextId, deadline);
+
+        return _hashTypedDataV4(keccak256(
+            abi.encode(
+                approval ? CANCEL_INVITE_APPROVAL_TYPEHASH : CANCEL_INVITE_TYPEHASH,
+                contextId,
+                member,
+                nonce,
+                deadline
+            )
+        ));
+    }
+
+    function _setInviteOnlyDigest(bytes32 contextId, bool enabled, uint256 nonce, uint256 deadline, bool approval)
+    internal
+    view
+    returns (bytes32)
+    {
+        require(contextId != bytes32(0), "zero context");
+        _requireSigContext(contextId, deadline);
+
+        return _hashTypedDataV4(keccak256(
+            abi.encode(
+                approval ? SET_INVITE_ONLY_APPROVAL_TYPEHASH : SET_INVITE_ONLY_TYPEHASH,
+                contextId,
+                enabled,
+                nonce,
+                deadline
+            )
+        ));
+    }
+
+    function _setMetadataDigest(
+        bytes32 contextId,
+        string calldata metadataCid,
+        uint256 nonce,
+        uint256 deadline,
+        bool approval
+    ) internal view returns (bytes32) {
+        require(contextId != bytes32(0), "zero context");
+        _requireSigContext(contextId, deadline);
+
+        return _hashTypedDataV4(keccak256(
+            abi.encode(
+                approval ? SET_METADATA_APPROVAL_TYPEHASH : SET_METADATA_TYPEHASH,
+                contextId,
+                keccak256(bytes(metadataCid)),
+                nonce,
+                deadline
+            )
+        ));
+    }
+
+    function _setLifecycleDigest(bytes32 contextId, Lifecycle state, uint256 nonce, uint256 deadline, bool approval)
+    internal
+    view
+    returns (bytes32)
+    {
+        require(contextId != bytes32(0), "zero context");
+        _requireSigContext(contextId, deadline);
+
+        return _hashTypedDataV4(keccak256(
+            abi.encode(
+                approval ? SET_LIFECYCLE_APPROVAL_TYPEHASH : SET_LIFECYCLE_TYPEHASH,
+                contextId,
+                uint8(state),
+                nonce,
+                deadline
+            )
+        ));
+    }
+
+    function _createChildDigest(
+        bytes32 parentId,
+        bytes32 salt,
+        address authority,
+        bool inheritMembers,
+        uint256 nonce,
+        uint256 deadline,
+        bool approval
+    ) internal view returns (bytes32) {
+        require(parentId != bytes32(0), "zero context");
+        _requireSigContext(parentId, deadline);
+
+        return _hashTypedDataV4(keccak256(
+            abi.encode(
+                approval ? CREATE_CHILD_APPROVAL_TYPEHASH : CREATE_CHILD_TYPEHASH,
+                parentId,
+                salt,
+                authority,
+                inheritMembers,
+                nonce,
+                deadline
+            )
+        ));
+    }
+
+    function _setInheritanceDigest(bytes32 contextId, bool enabled, uint256 nonce, uint256 deadline, bool approval)
+    internal
+    view
+    returns (bytes32)
+    {
+        bytes32 parentId = parentOf[contextId];
+        require(parentId != bytes32(0), "not a child");
+        _requireSigContext(parentId, deadline);
+
+        return _hashTypedDataV4(keccak256(
+            abi.encode(
+                approval ? SET_INHERITANCE_APPROVAL_TYPEHASH : SET_INHERITANCE_TYPEHASH,
+                contextId,
+                enabled,
+                nonce,
+                deadline
+            )
+        ));
+    }
+
+    function _overrideAuthorityDigest(
+        bytes32 contextId,
+        address newAuthority,
+        uint256 nonce,
+        uint256 deadline,
+        bool approval
+    ) internal view returns (bytes32) {
+        bytes32 parentId = parentOf[contextId];
+        require(parentId != bytes32(0), "not a child");
+        require(newAuthority != address(0), "zero authority");
+        _requireSigContext(parentId, deadline);
+
+        return _hashTypedDataV4(keccak256(
+            abi.encode(
+                approval ? OVERRIDE_AUTHORITY_APPROVAL_TYPEHASH : OVERRIDE_AUTHORITY_TYPEHASH,
+                contextId,
+                newAuthority,
+                nonce,
+                deadline
+            )
+        ));
+    }
+
+    // --------------------
+    // Internals: state changes
+    // --------------------
+
+    function _applyMetadata(bytes32 contextId, string calldata metadataCid) internal {
+        require(lifecycleOf[contextId] != Lifecycle.ARCHIVED, "context archived");
+        metadataCidOf[contextId] = metadataCid;
+        emit MetadataSet(contextId, metadataCid);
+    }
+
+    function _applyLifecycle(bytes32 contextId, Lifecycle state) internal {
+        Lifecycle current = lifecycleOf[contextId];
+        require(current != Lifecycle.ARCHIVED, "context archived");
+        require(state != current, "same state");
+
+        lifecycleOf[contextId] = state;
+        emit LifecycleSet(contextId, state);
+    }
+
+    function _applyCreateChild(bytes32 parentId, bytes32 salt, address authority, bool inheritMembers)
+    internal
+    returns (bytes32 contextId)
+    {
+        require(lifecycleOf[parentId] != Lifecycle.ARCHIVED, "context archived");
+
+        uint256 depth = 0;
+        for (bytes32 c = parentId; parentOf[c] != bytes32(0); c = parentOf[c]) depth++;
+        require(depth < MAX_CONTEXT_DEPTH, "too deep");
+
+        contextId = deriveChildContextId(parentId, salt);
+        _initAuthority(contextId, authority);
+
+        parentOf[contextId] = parentId;
+        inheritsMembers[contextId] = inheritMembers;
+        childrenOf[parentId].add(contextId);
+
+        emit ChildContextCreated(parentId, contextId, inheritMembers);
+    }
+
+    function _applyInheritance(bytes32 contextId, bool enabled) internal {
+        inheritsMembers[contextId] = enabled;
+        emit InheritanceSet(contextId, enabled);
+    }
+
+    function _applyOverrideAuthority(bytes32 contextId, address newAuthority) internal {
+        if (thresholdOf[contextId] != 0) {
+            EnumerableSet.AddressSet storage set = signersOf[contextId];
+            for (uint256 i = set.length(); i > 0; i--) {
+                set.remove(set.at(i - 1));
+            }
+            thresholdOf[contextId] = 0;
+            emit SignersSet(contextId, new address[](0), 0);
+        }
+
+        address previous = authorityOf[contextId];
+        _applyAuthority(contextId, newAuthority);
+
+        if (previous != newAuthority) {
+            _setRoles(contextId, previous, 0);
+            emit MemberSet(contextId, previous, false);
+        }
+
+        emit AuthorityOverridden(contextId, parentOf[contextId], newAuthority);
+    }
+
+    function _initAuthority(bytes32 contextId, address authority) internal {
+        require(authority != address(0), "zero authority");
+        require(authorityOf[contextId] == address(0), "authority already set");
+
+        authorityOf[contextId] = authority;
+
+        // Make the authority a member automatically
+        _setRoles(contextId, authority, ROLE_ALL);
+
+        emit AuthoritySet(contextId, authority);
+        emit MemberSet(contextId, authority, true);
+    }
+
+    function _applyAuthority(bytes32 contextId, address newAuthority) internal {
+        authorityOf[contextId] = newAuthority;
+
+        // Ensure new authority is a member
+        _setRoles(contextId, newAuthority, ROLE_ALL);
+
+        emit AuthoritySet(contextId, newAuthority);
+        emit MemberSet(contextId, newAuthority, true);
+    }
+
+    function _applySigners(bytes32 contextId, address[] calldata signers, uint256 threshold) internal {
+        require(threshold <= signers.length, "bad threshold");
+        require((threshold == 0) == (signers.length == 0), "bad threshold");
+
+        EnumerableSet.AddressSet storage set = signersOf[contextId];
+        for (uint256 i = set.length(); i > 0; i--) {
+            set.remove(set.at(i - 1));
+        }
+        for (uint256 i = 0; i < signers.length; i++) {
+            require(signers[i] != address(0), "zero signer");
+            require(set.add(signers[i]), "duplicate signer");
+        }
+
+        thresholdOf[contextId] = threshold;
+        emit SignersSet(contextId, signers, threshold);
+    }
+
+    function _applyInvite(bytes32 contextId, address member, uint256 roles, uint256 expiry) internal {
+        require(roles != 0, "zero roles");
+        require(expiry > block.timestamp && expiry <= type(uint64).max, "bad expiry");
+        require(_activeRoles(contextId, member) == 0, "already member");
+
+        invites[contextId][member] = Invite({roles: roles, expiry: uint64(expiry)});
+        inviteesOf[contextId].add(member);
+
+        emit InviteCreated(contextId, member, roles, uint64(expiry));
+    }
+
+    function _acceptInvite(bytes32 contextId, address member) internal {
+        Invite memory inv = invites[contextId][member];
+        require(inv.roles != 0, "no invite");
+        require(block.timestamp <= inv.expiry, "invite expired");
+        // A wallet that became a member since the invite keeps its current roles (and any expiry on them)
+        require(_activeRoles(contextId, member) == 0 && member != authorityOf[contextId], "already member");
+
+        _clearInvite(contextId, member);
+        _setRoles(contextId, member, inv.roles);
+
+        emit InviteAccepted(contextId, member, inv.roles);
+        emit MemberSet(contextId, member, true);
+    }
+
+    function _applyCancelInvite(bytes32 contextId, address member) internal {
+        require(invites[contextId][member].roles != 0, "no invite");
+        _clearInvite(contextId, member);
+        emit InviteCancelled(contextId, member);
+    }
+
+    function _clearInvite(bytes32 contextId, address member) internal {
+        delete invites[contextId][member];
+        inviteesOf[contextId].remove(member);
+    }
+
+    function _applyInviteOnly(bytes32 contextId, bool enabled) internal {
+        inviteOnly[contextId] = enabled;
+        emit InviteOnlySet(contextId, enabled);
+    }
+
+    /// @dev Direct (non-invite) paths may not add new members to invite-only contexts.
+    function _requireDirectAdd(bytes32 contextId, address member, uint256 roles) internal view {
+        if (roles != 0 && inviteOnly[contextId] && _activeRoles(contextId, member) == 0) {
+            revert("invite only");
+        }
+    }
+
+    function _applyMember(bytes32 contextId, address member, bool memberStatus) internal {
+        // Prevent removing the authority as a member
+        if (member == authorityOf[contextId]) {
+            require(memberStatus == true, "cannot remove authority");
+        }
+        _requireDirectAdd(contextId, member, memberStatus ? ROLE_ALL : 0);
+
+        _setRoles(contextId, member, memberStatus ? ROLE_ALL : 0);
+        emit MemberSet(contextId, member, memberStatus);
+    }
+
+    function _applyMembers(bytes32 contextId, address[] calldata members, bool[] calldata statuses) internal {
+        for (uint256 i = 0; i < members.length; i++) {
+            require(members[i] != address(0), "zero member");
+            _applyMember(contextId, members[i], statuses[i]);
+        }
+    }
+
+    function _applyRoles(bytes32 contextId, address member, uint256 roles) internal {
+        // Prevent removing the authority as a member
+        if (member == authorityOf[contextId]) {
+            require(roles != 0, "cannot remove authority");
+        }
+        _requireDirectAdd(contextId, member, roles);
+
+        bool wasMember = _activeRoles(contextId, member) != 0;
+        _setRoles(contextId, member, roles);
+
+        if (wasMember != (roles != 0)) {
+            emit MemberSet(contextId, member, roles != 0);
+        }
+    }
+
+    function _applyRolesUntil(bytes32 contextId, address member, uint256 roles, uint256 validUntil) internal {
+        require(member != authorityOf[contextId], "authority cannot expire");
+        require(roles != 0, "zero roles");
+        require(validUntil > block.timestamp && validUntil <= type(uint64).max, "bad validUntil");
+        _requireDirectAdd(contextId, member, roles);
+
+        bool wasMember = _activeRoles(contextId, member) != 0;
+        _setRoles(contextId, member, roles);
+
+        memberValidUntil[contextId][member] = uint64(validUntil);
+        emit MemberExpirySet(contextId, member, uint64(validUntil));
+
+        if (!wasMember) {
+            emit MemberSet(contextId, member, true);
+        }
+    }
+
+    /// @dev Roles of `wallet`, or 0 once its membership has expired.
+    function _activeRoles(bytes32 contextId, address wallet) internal view returns (uint256) {
+        uint64 validUntil = memberValidUntil[contextId][wallet];
+        if (validUntil != 0 && validUntil < block.timestamp) return 0;
+        return rolesOf[contextId][wallet];
+    }
+
+    /// @dev Direct roles plus, while inheritance is enabled, the roles held in ancestor contexts.
+    function _effectiveRoles(bytes32 contextId, address wallet) internal view returns (uint256 roles) {
+        roles = _activeRoles(contextId, wallet);
+        while (inheritsMembers[contextId]) {
+            contextId = parentOf[contextId];
+            roles |= _activeRoles(contextId, wallet);
+        }
+    }
+
+    /// @dev Sets permanent roles; any pending expiry is cleared (callers re-apply it when needed).
+    function _setRoles(bytes32 contextId, address wallet, uint256 roles) internal {
+        rolesOf[contextId][wallet] = roles;
+
+        if (memberValidUntil[contextId][wallet] != 0) {
+            memberValidUntil[contextId][wallet] = 0;
+            emit MemberExpirySet(contextId, wallet, 0);
+        }
+
+        if (roles != 0) {
+            membersOf[contextId].add(wallet);
+            contextsOf[wallet].add(contextId);
+        } else {
+            membersOf[contextId].remove(wallet);
+            contextsOf[wallet].remove(contextId);
+        }
+
+        emit RolesSet(contextId, wallet, roles);
     }
 }
\ No newline at end of file
@@ -0,0 +1,38 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import {IERC1271} from "@openzeppelin/contracts/interfaces/IERC1271.sol";
+
+/// @title MockERC1271Wallet
+/// @notice Test-only smart-contract wallet: accepts hashes signed by its EOA owner.
+/// @dev `mode` lets tests simulate a misbehaving wallet (wrong magic value or reverting).
+contract MockERC1271Wallet is IERC1271 {
+    enum Mode {
+        VALID,
+        WRONG_MAGIC,
+        REVERT
+    }
+
+    address public immutable owner;
+    Mode public mode;
+
+    constructor(address owner_) {
+        owner = owner_;
+    }
+
+    function setMode(Mode mode_) external {
+        mode = mode_;
+    }
+
+    function isValidSignature(bytes32 hash, bytes calldata signature) external view returns (bytes4) {
+        if (mode == Mode.REVERT) revert("wallet reverted");
+        if (mode == Mode.WRONG_MAGIC) return 0xdeadbeef;
+
+        (address signer, ECDSA.RecoverError err, ) = ECDSA.tryRecover(hash, signature);
+        if (err == ECDSA.RecoverError.NoError && signer == owner) {
+            return IERC1271.isValidSignature.selector;
+        }
+        return 0xffffffff;
+    }
+}
@@ -3,11 +3,19 @@ import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
 export default buildModule("CodeQuill", (m) => {
     const workspace = m.contract("CodeQuillWorkspaceRegistry", []);
     const delegation = m.contract("CodeQuillDelegation", []);
-    const repository = m.contract("CodeQuillRepositoryRegistry", [delegation, workspace]);
-    const snapshot = m.contract("CodeQuillSnapshotRegistry", [repository, workspace, delegation]);
-    const backup = m.contract("CodeQuillBackupRegistry", [repository, workspace, delegation, snapshot]);
-    const release = m.contract("CodeQuillReleaseRegistry", [repository, workspace, delegation, snapshot]);
-    const attestation = m.contract("CodeQuillAttestationRegistry", [workspace, delegation, release]);
+    const forwarder = m.contract("CodeQuillForwarder", []);
+    const repository = m.contract("CodeQuillRepositoryRegistry", [delegation, workspace, forwarder]);
+    const snapshot = m.contract("CodeQuillSnapshotRegistry", [repository, workspace, delegation, forwarder]);
+    const backup = m.contract("CodeQuillBackupRegistry", [repository, workspace, delegation, snapshot, forwarder]);
+    const release = m.contract("CodeQuillReleaseRegistry", [repository, workspace, delegation, snapshot, forwarder]);
+    const attestation = m.contract("CodeQuillAttestationRegistry", [workspace, delegation, release, forwarder]);
 
-    return { workspace, delegation, repository, snapshot, backup, release, attestation };
+    // Registries count relayed actions against delegation limits
+    m.call(delegation, "setConsumer", [repository, true], { id: "consumerRepository" });
+    m.call(delegation, "setConsumer", [snapshot, true], { id: "consumerSnapshot" });
+    m.call(delegation, "setConsumer", [backup, true], { id: "consumerBackup" });
+    m.call(delegation, "setConsumer", [release, true], { id: "consumerRelease" });
+    m.call(delegation, "setConsumer", [attestation, true], { id: "consumerAttestation" });
+
+    return { workspace, delegation, forwarder, repository, snapshot, backup, release, attestation };
 });
\ No newline at end of file
@@ -2,11 +2,14 @@ import { expect } from "chai";
 import { anyValue } from "@nomicfoundation/hardhat-ethers-chai-matchers/withArgs";
 import {
   asBigInt,
+  createAttestationTypes,
   delegationTypes,
   getEip712Domain,
   getWorkspaceEip712Domain,
+  setWorkspaceLifecycleWithSig,
   setWorkspaceMemberWithSig,
   setupCodeQuill,
+  WorkspaceLifecycle,
 } from "./utils";
 
 describe("CodeQuillAttestationRegistry", function () {
@@ -110,11 +113,11 @@ describe("CodeQuillAttestationRegistry", function () {
     return { projectId, root };
   }
 
-  async function delegateAttest(ownerSigner: any, relayerSigner: any) {
+  async function delegateAttest(ownerSigner: any, relayerSigner: any, scopes?: bigint) {
     const now = asBigInt(await time.latest());
     const expiry = now + 3600n;
     const deadline = now + 7200n;
-    const scopes = await delegation.SCOPE_ATTEST();
+    scopes ??= await delegation.SCOPE_ATTEST();
     const nonce = await delegation.nonces(ownerSigner.address);
 
     const value = {
@@ -122,24 +125,31 @@ describe("CodeQuillAttestationRegistry", function () {
       relayer: relayerSigner.address,
       contextId,
       scopes,
+      resources: [],
+      maxUses: 0n,
+      quota: 0n,
+      period: 0n,
+      epoch: await delegation.epochOf(ownerSigner.address),
       nonce,
       expiry,
       deadline,
     };
 
     const signature = await ownerSigner.signTypedData(domain, delegationTypes, value);
-    const { v, r, s } = ethers.Signature.from(signature);
 
     await delegation.registerDelegationWithSig(
       ownerSigner.address,
       relayerSigner.address,
       contextId,
       scopes,
+      [],
+      0n,
+      0n,
+      0n,
       expiry,
+      nonce,
       deadline,
-      v,
-      r,
-      s,
+      signature,
     );
   }
 
@@ -175,6 +185,57 @@ describe("CodeQuillAttestationRegistry", function () {
       ).to.emit(attestationRegistry, "AttestationCreated");
     });
 
+    it("accepts an attestation signed by the author and submitted by anyone", async function () {
+      const releaseId = ethers.id("release-signed");
+      await setupAcceptedRelease(releaseId);
+
+      const attestationDomain = await getEip712Domain(
+        ethers,
+        "CodeQuillAttestationRegistry",
+        "1",
+        await attestationRegistry.getAddress(),
+      );
+      const value = {
+        releaseId,
+        artifactDigest: ethers.id("artifact-signed"),
+        attestationCid: "QmSigned",
+        author: author.address,
+        nonce: await attestationRegistry.nonces(author.address),
+        deadline: asBigInt(await time.latest()) + 3600n,
+      };
+      const signature = await author.signTypedData(attestationDomain, createAttestationTypes, value);
+
+      await expect(
+        attestationRegistry
+          .connect(other)
+          .createAttestationWithSig(
+            releaseId,
+            ethers.id("other-artifact"),
+            value.attestationCid,
+            author.address,
+            value.nonce,
+            value.deadline,
+            signature,
+          ),
+      ).to.be.revertedWith("bad signer");
+
+      await expect(
+        attestationRegistry
+          .connect(other)
+          .createAttestationWithSig(
+            releaseId,
+            value.artifactDigest,
+            value.attestationCid,
+            author.address,
+            value.nonce,
+            value.deadline,
+            signature,
+          ),
+      )
+        .to.emit(attestationRegistry, "AttestationCreated")
+        .withArgs(0, author.address, releaseId, value.artifactDigest, value.attestationCid, anyValue);
+    });
+
     it("reverts if release is not accepted", async function () {
       const releaseId = ethers.id("release-pending");
 
@@ -215,6 +276,33 @@ describe("CodeQuillAttestationRegistry", function () {
       ).to.be.revertedWith("release not accepted");
     });
 
+    it("refuses attestations in an archived workspace but still allows revocation", async function () {
+      const releaseId = ethers.id("release-archived");
+      await setupAcceptedRelease(releaseId);
+      const first = ethers.id("artifact-a");
+      await attestationRegistry.connect(author).createAttestation(releaseId, first, "QmA", author.address);
+
+      await setWorkspaceLifecycleWithSig({
+        ethers,
+        workspace,
+        authoritySigner: other,
+        relayerSigner: other,
+        domain: workspaceDomain,
+        contextId,
+        state: WorkspaceLifecycle.ARCHIVED,
+        deadline: asBigInt(await time.latest()) + 3600n,
+      });
+
+      await expect(
+        attestationRegistry
+          .connect(author)
+          .createAttestation(releaseId, ethers.id("artifact-b"), "QmB", author.address),
+      ).to.be.revertedWith("context not active");
+
+      await attestationRegistry.connect(author).revokeAttestation(releaseId, first, author.address);
+      expect(await attestationRegistry.isRevoked(releaseId, first)).to.equal(true);
+    });
+
     it("reverts if release does not exist", async function () {
       await expect(
         attestationRegistry
@@ -302,7 +390,13 @@ describe("CodeQuillAttestationRegistry", function () {
         .connect(author)
         .createAttestation(releaseId, digest, "cid", author.address);
 
+      // SCOPE_ATTEST alone does not cover revocation
       await delegateAttest(author, relayer);
+      await expect(
+        attestationRegistry.connect(relayer).revokeAttestation(releaseId, digest, author.address),
+      ).to.be.revertedWith("not authorized");
+
+      await delegateAttest(author, relayer, await delegation.SCOPE_REVOKE());
       await expect(
         attestationRegistry.connect(relayer).revokeAttestation(releaseId, digest, author.address),
       ).to.emit(attestationRegistry, "AttestationRevoked");
@@ -1,12 +1,17 @@
 import { expect } from "chai";
 import { anyValue } from "@nomicfoundation/hardhat-ethers-chai-matchers/withArgs";
 import {
+  anchorBackupTypes,
   asBigInt,
+  claimVerificationTypes,
   delegationTypes,
   getEip712Domain,
   getWorkspaceEip712Domain,
+  RepoLifecycle,
+  setWorkspaceLifecycleWithSig,
   setWorkspaceMemberWithSig,
   setupCodeQuill,
+  WorkspaceLifecycle,
 } from "./utils";
 
 describe("CodeQuillBackupRegistry", function () {
@@ -135,23 +140,30 @@ describe("CodeQuillBackupRegistry", function () {
         relayer: relayer.address,
         contextId,
         scopes,
+        resources: [],
+        maxUses: 0n,
+        quota: 0n,
+        period: 0n,
+        epoch: await delegation.epochOf(repoOwner.address),
         nonce,
         expiry,
         deadline,
       };
 
       const signature = await repoOwner.signTypedData(domain, delegationTypes, value);
-      const { v, r, s } = ethers.Signature.from(signature);
       await delegation.registerDelegationWithSig(
         repoOwner.address,
         relayer.address,
         contextId,
         scopes,
+        [],
+        0n,
+        0n,
+        0n,
         expiry,
+        nonce,
         deadline,
-        v,
-        r,
-        s,
+        signature,
       );
 
       await expect(
@@ -268,6 +280,181 @@ describe("CodeQuillBackupRegistry", function () {
     });
   });
 
+  describe("repo lifecycle", function () {
+    it("refuses backups of archived repos", async function () {
+      const repoId = ethers.encodeBytes32String(repoIdLabel);
+      await repository.connect(repoOwner).setLifecycle(repoId, RepoLifecycle.ARCHIVED, ethers.ZeroHash);
+
+      await expect(
+        backupRegistry
+          .connect(repoOwner)
+          .anchorBackup(repoId, contextId, ethers.id("root"), ethers.id("a"), ethers.ZeroHash, "c", repoOwner.address),
+      ).to.be.revertedWith("repo not writable");
+    });
+  });
+
+  describe("repo maintainers", function () {
+    it("lets a backup operator maintainer anchor backups", async function () {
+      const repoId = ethers.encodeBytes32String(repoIdLabel);
+      const root = ethers.id("root");
+      const archive = ethers.id("archive");
+      const anchorBy = (signer: any) =>
+        backupRegistry
+          .connect(signer)
+          .anchorBackup(repoId, contextId, root, archive, ethers.ZeroHash, "cid", signer.address);
+
+      await setWorkspaceMemberWithSig({
+        ethers,
+        workspace,
+        authoritySigner: deployer,
+        relayerSigner: deployer,
+        domain: workspaceDomain,
+        contextId,
+        member: other.address,
+        memberStatus: true,
+        deadline: asBigInt(await time.latest()) + 3600n,
+      });
+
+      await repository.connect(repoOwner).setMaintainer(repoId, other.address, await repository.ROLE_SNAPSHOTTER());
+      await expect(anchorBy(other)).to.be.revertedWith("author not backup operator");
+
+      await repository.connect(repoOwner).setMaintainer(repoId, other.address, await repository.ROLE_BACKUP_OPERATOR());
+      await expect(anchorBy(other))
+        .to.emit(backupRegistry, "BackupAnchored")
+        .withArgs(repoId, root, archive, contextId, other.address, ethers.ZeroHash, "cid", anyValue);
+    });
+    it("keeps backups of an author who no longer holds a repo role", async function () {
+      const repoId = ethers.encodeBytes32String(repoIdLabel);
+      const root = ethers.id("root");
+      const anchorBy = (signer: any, archive: string) =>
+        backupRegistry
+          .connect(signer)
+          .anchorBackup(repoId, contextId, root, archive, ethers.ZeroHash, "cid", signer.address);
+
+      await setWorkspaceMemberWithSig({
+        ethers,
+        workspace,
+        authoritySigner: deployer,
+        relayerSigner: deployer,
+        domain: workspaceDomain,
+        contextId,
+        member: other.address,
+        memberStatus: true,
+        deadline: asBigInt(await time.latest()) + 3600n,
+      });
+      await anchorBy(repoOwner, ethers.id("archive-old"));
+
+      // A verified claim moves the repo away from the unverified owner who anchored the backup
+      const verifier = ethers.Wallet.createRandom();
+      await repository.connect(deployer).setClaimVerifier(verifier.address);
+      const expiry = asBigInt(await time.latest()) + 3600n;
+      const sig = await verifier.signTypedData(
+        await getEip712Domain(ethers, "CodeQuillRepositoryRegistry", "1", await repository.getAddress()),
+        claimVerificationTypes,
+        { repoId, owner: other.address, contextId, expiry },
+      );
+      await repository.connect(other).claimRepoVerified(repoId, contextId, "meta", other.address, expiry, sig);
+
+      await expect(anchorBy(other, ethers.id("archive-new"))).to.be.revertedWith("backup locked");
+      const b = await backupRegistry.getBackup(repoId, root);
+      expect(b.archiveSha256).to.equal(ethers.id("archive-old"));
+      expect(b.author).to.equal(repoOwner.address);
+    });
+  });
+
+  describe("anchorBackupWithSig", function () {
+    it("lets any relayer submit a backup signed by the repo owner, unaltered", async function () {
+      const repoId = ethers.encodeBytes32String(repoIdLabel);
+      const backupDomain = await getEip712Domain(
+        ethers,
+        "CodeQuillBackupRegistry",
+        "1",
+        await backupRegistry.getAddress(),
+      );
+      const value = {
+        repoId,
+        contextId,
+        snapshotMerkleRoot: ethers.id("root"),
+        archiveSha256: ethers.id("archive"),
+        metadataSha256: ethers.id("metadata"),
+        backupCid: "bafyBackup",
+        author: repoOwner.address,
+        nonce: await backupRegistry.nonces(repoOwner.address),
+        deadline: asBigInt(await time.latest()) + 3600n,
+      };
+      const signature = await repoOwner.signTypedData(backupDomain, anchorBackupTypes, value);
+
+      function submit(archiveSha256: string) {
+        return backupRegistry
+          .connect(other)
+          .anchorBackupWithSig(
+            value.repoId,
+            value.contextId,
+            value.snapshotMerkleRoot,
+            archiveSha256,
+            value.metadataSha256,
+            value.backupCid,
+            value.author,
+            value.nonce,
+            value.deadline,
+            signature,
+          );
+      }
+
+      await expect(submit(ethers.id("tampered"))).to.be.revertedWith("bad signer");
+
+      await expect(submit(value.archiveSha256))
+        .to.emit(backupRegistry, "BackupAnchored")
+        .withArgs(
+          repoId,
+          value.snapshotMerkleRoot,
+          value.archiveSha256,
+          contextId,
+          repoOwner.address,
+          value.metadataSha256,
+          value.backupCid,
+          anyValue,
+        );
+      expect((await backupRegistry.getBackup(repoId, value.snapshotMerkleRoot)).author).to.equal(repoOwner.address);
+
+      await expect(submit(value.archiveSha256)).to.be.revertedWith("bad nonce");
+    });
+  });
+
+  describe("workspace lifecycle", function () {
+    async function setLifecycle(state: number) {
+      return setWorkspaceLifecycleWithSig({
+        ethers,
+        workspace,
+        authoritySigner: deployer,
+        relayerSigner: deployer,
+        domain: workspaceDomain,
+        contextId,
+        state,
+        deadline: asBigInt(await time.latest()) + 3600n,
+      });
+    }
+
+    it("refuses backups while the workspace is archived", async function () {
+      const repoId = ethers.encodeBytes32String(repoIdLabel);
+      await setLifecycle(WorkspaceLifecycle.ARCHIVED);
+
+      await expect(
+        backupRegistry
+          .connect(repoOwner)
+          .anchorBackup(
+            repoId,
+            contextId,
+            ethers.id("root"),
+            ethers.id("archive"),
+            ethers.id("metadata"),
+            "QmBackup",
+            repoOwner.address,
+          ),
+      ).to.be.revertedWith("context not active");
+    });
+  });
+
   describe("views", function () {
     it("hasBackup / getBackup return expected values and revert when missing", async function () {
       const repoId = ethers.encodeBytes32String(repoIdLabel);
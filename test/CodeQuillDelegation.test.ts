@@ -1,10 +1,17 @@
 import { expect } from "chai";
 import {
   asBigInt,
+  delegationBatchTypes,
+  delegationCancelSignatureTypes,
+  delegationInvalidateNoncesTypes,
+  delegationRevokeAllTypes,
   delegationTypes,
+  deployMockERC1271Wallet,
   getEip712Domain,
+  MockWalletMode,
   revokeDelegationTypes,
   setupCodeQuill,
+  UNORDERED_NONCE_FLAG,
 } from "./utils";
 
 describe("CodeQuillDelegation", function () {
@@ -53,13 +60,17 @@ describe("CodeQuillDelegation", function () {
         relayer: relayer.address,
         contextId,
         scopes,
+        resources: [],
+        maxUses: 0n,
+        quota: 0n,
+        period: 0n,
+        epoch: await delegation.epochOf(owner.address),
         nonce,
         expiry,
         deadline,
       };
 
       const signature = await owner.signTypedData(domain, delegationTypes, value);
-      const { v, r, s } = ethers.Signature.from(signature);
 
       await expect(
         delegation.registerDelegationWithSig(
@@ -67,11 +78,14 @@ describe("CodeQuillDelegation", function () {
           relayer.address,
           contextId,
           scopes,
+          [],
+          0n,
+          0n,
+          0n,
           expiry,
+          nonce,
           deadline,
-          v,
-          r,
-          s,
+          signature,
         ),
       )
         .to.emit(delegation, "Delegated")
@@ -109,13 +123,17 @@ describe("CodeQuillDelegation", function () {
         relayer: relayer.address,
         contextId,
         scopes,
+        resources: [],
+        maxUses: 0n,
+        quota: 0n,
+        period: 0n,
+        epoch: await delegation.epochOf(owner.address),
         nonce,
         expiry,
         deadline,
       };
 
       const signature = await other.signTypedData(domain, delegationTypes, value);
-      const { v, r, s } = ethers.Signature.from(signature);
 
       await expect(
         delegation.registerDelegationWithSig(
@@ -123,11 +141,14 @@ describe("CodeQuillDelegation", function () {
           relayer.address,
           contextId,
           scopes,
+          [],
+          0n,
+          0n,
+          0n,
           expiry,
+          nonce,
           deadline,
-          v,
-          r,
-          s,
+          signature,
         ),
       ).to.be.revertedWith("BadSigner");
     });
@@ -145,13 +166,17 @@ describe("CodeQuillDelegation", function () {
         relayer: relayer.address,
         contextId,
         scopes,
+        resources: [],
+        maxUses: 0n,
+        quota: 0n,
+        period: 0n,
+        epoch: await delegation.epochOf(owner.address),
         nonce,
         expiry,
         deadline,
       };
 
       const signature = await owner.signTypedData(domain, delegationTypes, value);
-      const { v, r, s } = ethers.Signature.from(signature);
 
       await expect(
         delegation.registerDelegationWithSig(
@@ -159,11 +184,14 @@ describe("CodeQuillDelegation", function () {
           relayer.address,
           contextId,
           scopes,
+          [],
+          0n,
+          0n,
+          0n,
           expiry,
+          nonce,
           deadline,
-          v,
-          r,
-          s,
+          signature,
         ),
       ).to.be.revertedWith("SigExpired");
     });
@@ -181,13 +209,17 @@ describe("CodeQuillDelegation", function () {
         relayer: relayer.address,
         contextId,
         scopes,
+        resources: [],
+        maxUses: 0n,
+        quota: 0n,
+        period: 0n,
+        epoch: await delegation.epochOf(owner.address),
         nonce,
         expiry,
         deadline,
       };
 
       const signature = await owner.signTypedData(domain, delegationTypes, value);
-      const { v, r, s } = ethers.Signature.from(signature);
 
       await expect(
         delegation.registerDelegationWithSig(
@@ -195,11 +227,14 @@ describe("CodeQuillDelegation", function () {
           relayer.address,
           contextId,
           scopes,
+          [],
+          0n,
+          0n,
+          0n,
           expiry,
+          nonce,
           deadline,
-          v,
-          r,
-          s,
+          signature,
         ),
       ).to.be.revertedWith("BadExpiry");
     });
@@ -217,13 +252,17 @@ describe("CodeQuillDelegation", function () {
         relayer: relayer.address,
         contextId,
         scopes,
+        resources: [],
+        maxUses: 0n,
+        quota: 0n,
+        period: 0n,
+        epoch: await delegation.epochOf(owner.address),
         nonce,
         expiry,
         deadline,
       };
 
       const signature = await owner.signTypedData(domain, delegationTypes, value);
-      const { v, r, s } = ethers.Signature.from(signature);
 
       await expect(
         delegation.registerDelegationWithSig(
@@ -231,11 +270,14 @@ describe("CodeQuillDelegation", function () {
           relayer.address,
           contextId,
           scopes,
+          [],
+          0n,
+          0n,
+          0n,
           expiry,
+          nonce,
           deadline,
-          v,
-          r,
-          s,
+          signature,
         ),
       ).to.be.revertedWith("ZeroContext");
     });
@@ -253,13 +295,17 @@ describe("CodeQuillDelegation", function () {
         relayer: ethers.ZeroAddress,
         contextId,
         scopes,
+        resources: [],
+        maxUses: 0n,
+        quota: 0n,
+        period: 0n,
+        epoch: await delegation.epochOf(owner.address),
         nonce,
         expiry,
         deadline,
       };
 
       const signature = await owner.signTypedData(domain, delegationTypes, value);
-      const { v, r, s } = ethers.Signature.from(signature);
 
       await expect(
         delegation.registerDelegationWithSig(
@@ -267,11 +313,14 @@ describe("CodeQuillDelegation", function () {
           ethers.ZeroAddress,
           contextId,
           scopes,
+          [],
+          0n,
+          0n,
+          0n,
           expiry,
+          nonce,
           deadline,
-          v,
-          r,
-          s,
+          signature,
         ),
       ).to.be.revertedWith("ZeroAddr");
     });
@@ -302,24 +351,31 @@ describe("CodeQuillDelegation", function () {
         relayer: relayer.address,
         contextId,
         scopes,
+        resources: [],
+        maxUses: 0n,
+        quota: 0n,
+        period: 0n,
+        epoch: await delegation.epochOf(owner.address),
         nonce,
         expiry,
         deadline,
       };
 
       const signature = await owner.signTypedData(domain, delegationTypes, value);
-      const { v, r, s } = ethers.Signature.from(signature);
 
       await delegation.registerDelegationWithSig(
         owner.address,
         relayer.address,
         contextId,
         scopes,
+        [],
+        0n,
+        0n,
+        0n,
         expiry,
+        nonce,
         deadline,
-        v,
-        r,
-        s,
+        signature,
       );
 
       expect(
@@ -356,24 +412,31 @@ describe("CodeQuillDelegation", function () {
         relayer: relayer.address,
         contextId,
         scopes,
+        resources: [],
+        maxUses: 0n,
+        quota: 0n,
+        period: 0n,
+        epoch: await delegation.epochOf(owner.address),
         nonce,
         expiry,
         deadline,
       };
 
       const signature = await owner.signTypedData(domain, delegationTypes, value);
-      const { v, r, s } = ethers.Signature.from(signature);
 
       await delegation.registerDelegationWithSig(
         owner.address,
         relayer.address,
         contextId,
         scopes,
+        [],
+        0n,
+        0n,
+        0n,
         expiry,
+        nonce,
         deadline,
-        v,
-        r,
-        s,
+        signature,
       );
 
       expect(
@@ -410,24 +473,31 @@ describe("CodeQuillDelegation", function () {
         relayer: relayer.address,
         contextId,
         scopes,
+        resources: [],
+        maxUses: 0n,
+        quota: 0n,
+        period: 0n,
+        epoch: await delegation.epochOf(owner.address),
         nonce,
         expiry,
         deadline,
       };
 
       const signature = await owner.signTypedData(domain, delegationTypes, value);
-      const { v, r, s } = ethers.Signature.from(signature);
 
       await delegation.registerDelegationWithSig(
         owner.address,
         relayer.address,
         contextId,
         scopes,
+        [],
+        0n,
+        0n,
+        0n,
         expiry,
+        nonce,
         deadline,
-        v,
-        r,
-        s,
+        signature,
       );
 
       expect(
@@ -477,23 +547,30 @@ describe("CodeQuillDelegation", function () {
         relayer: relayer.address,
         contextId,
         scopes,
+        resources: [],
+        maxUses: 0n,
+        quota: 0n,
+        period: 0n,
+        epoch: await delegation.epochOf(owner.address),
         nonce,
         expiry,
         deadline,
       };
 
       const signature = await owner.signTypedData(domain, delegationTypes, value);
-      const { v, r, s } = ethers.Signature.from(signature);
       await delegation.registerDelegationWithSig(
         owner.address,
         relayer.address,
         contextId,
         scopes,
+        [],
+        0n,
+        0n,
+        0n,
         expiry,
+        nonce,
         deadline,
-        v,
-        r,
-        s,
+        signature,
       );
 
       const revokeNonce = await delegation.nonces(owner.address);
@@ -511,12 +588,11 @@ describe("CodeQuillDelegation", function () {
         revokeDelegationTypes,
         revokeValue,
       );
-      const { v: vR, r: rR, s: sR } = ethers.Signature.from(revokeSig);
 
       await expect(
         delegation
           .connect(deployer)
-          .revokeWithSig(owner.address, relayer.address, contextId, revokeDeadline, vR, rR, sR),
+          .revokeWithSig(owner.address, relayer.address, contextId, revokeNonce, revokeDeadline, revokeSig),
       )
         .to.emit(delegation, "Revoked")
         .withArgs(owner.address, relayer.address, contextId);
@@ -550,17 +626,15 @@ describe("CodeQuillDelegation", function () {
         revokeDelegationTypes,
         value,
       );
-      const { v, r, s } = ethers.Signature.from(signature);
 
       await expect(
         delegation.revokeWithSig(
           owner.address,
           relayer.address,
           contextId,
+          nonce,
           deadline,
-          v,
-          r,
-          s,
+          signature,
         ),
       ).to.be.revertedWith("BadSigner");
     });
@@ -584,19 +658,1076 @@ describe("CodeQuillDelegation", function () {
         revokeDelegationTypes,
         value,
       );
-      const { v, r, s } = ethers.Signature.from(signature);
 
       await expect(
         delegation.revokeWithSig(
           owner.address,
           relayer.address,
           contextId,
+          nonce,
           deadline,
-          v,
-          r,
-          s,
+          signature,
         ),
       ).to.be.revertedWith("SigExpired");
     });
   });
+
+  describe("ERC-1271 owners", function () {
+    let wallet: any;
+    let walletAddress: string;
+    let contextId: string;
+
+    async function delegateFromWallet() {
+      const now = asBigInt(await time.latest());
+      const expiry = now + 3600n;
+      const deadline = now + 7200n;
+      const scopes = await delegation.SCOPE_CLAIM();
+      const value = {
+        owner: walletAddress,
+        relayer: relayer.address,
+        contextId,
+        scopes,
+        resources: [],
+        maxUses: 0n,
+        quota: 0n,
+        period: 0n,
+        epoch: await delegation.epochOf(walletAddress),
+        nonce: await delegation.nonces(walletAddress),
+        expiry,
+        deadline,
+      };
+
+      // The wallet's EOA owner signs; the wallet vouches for it via isValidSignature.
+      const signature = await owner.signTypedData(domain, delegationTypes, value);
+
+      return delegation
+        .connect(other)
+        .registerDelegationWithSig(
+          walletAddress,
+          relayer.address,
+          contextId,
+          scopes,
+          [],
+          0n,
+          0n,
+          0n,
+          expiry,
+          value.nonce,
+          deadline,
+          signature,
+        );
+    }
+
+    beforeEach(async function () {
+      wallet = await deployMockERC1271Wallet(ethers, owner);
+      walletAddress = await wallet.getAddress();
+      contextId = ethers.encodeBytes32String(contextIdLabel);
+    });
+
+    it("registers and revokes a delegation signed by a contract wallet", async function () {
+      await expect(delegateFromWallet()).to.emit(delegation, "Delegated");
+      expect(
+        await delegation.isAuthorized(walletAddress, relayer.address, await delegation.SCOPE_CLAIM(), contextId),
+      ).to.equal(true);
+
+      const deadline = asBigInt(await time.latest()) + 3600n;
+      const revokeValue = {
+        owner: walletAddress,
+        relayer: relayer.address,
+        contextId,
+        nonce: await delegation.nonces(walletAddress),
+        deadline,
+      };
+      const signature = await owner.signTypedData(domain, revokeDelegationTypes, revokeValue);
+
+      await expect(
+        delegation.connect(other).revokeWithSig(walletAddress, relayer.address, contextId, revokeValue.nonce, deadline, signature),
+      )
+        .to.emit(delegation, "Revoked")
+        .withArgs(walletAddress, relayer.address, contextId);
+    });
+
+    it("rejects a wallet returning the wrong magic value", async function () {
+      await wallet.setMode(MockWalletMode.WRONG_MAGIC);
+      await expect(delegateFromWallet()).to.be.revertedWith("BadSigner");
+    });
+
+    it("rejects a reverting wallet", async function () {
+      await wallet.setMode(MockWalletMode.REVERT);
+      await expect(delegateFromWallet()).to.be.revertedWith("BadSigner");
+    });
+
+    it("rejects signatures the wallet does not vouch for", async function () {
+      wallet = await deployMockERC1271Wallet(ethers, other);
+      walletAddress = await wallet.getAddress();
+      await expect(delegateFromWallet()).to.be.revertedWith("BadSigner");
+    });
+  });
+
+  describe("nonces", function () {
+    let contextId: string;
+
+    async function signDelegation(nonce: bigint) {
+      const now = asBigInt(await time.latest());
+      const expiry = now + 3600n;
+      const deadline = now + 7200n;
+      const scopes = await delegation.SCOPE_CLAIM();
+      const value = {
+        owner: owner.address,
+        relayer: relayer.address,
+        contextId,
+        scopes,
+        resources: [],
+        maxUses: 0n,
+        quota: 0n,
+        period: 0n,
+        epoch: await delegation.epochOf(owner.address),
+        nonce,
+        expiry,
+        deadline,
+      };
+      const signature = await owner.signTypedData(domain, delegationTypes, value);
+
+      return () =>
+        delegation
+          .connect(relayer)
+          .registerDelegationWithSig(
+            owner.address,
+            relayer.address,
+            contextId,
+            scopes,
+            [],
+            0n,
+            0n,
+            0n,
+            expiry,
+            nonce,
+            deadline,
+            signature,
+          );
+    }
+
+    beforeEach(async function () {
+      contextId = ethers.encodeBytes32String(contextIdLabel);
+    });
+
+    it("accepts unordered nonces in any order, once each", async function () {
+      const later = await signDelegation(UNORDERED_NONCE_FLAG | 300n);
+      const earlier = await signDelegation(UNORDERED_NONCE_FLAG | 1n);
+
+      await expect(later()).to.emit(delegation, "Delegated");
+      await expect(earlier()).to.emit(delegation, "Delegated");
+      await expect(later()).to.be.revertedWith("NonceUsed");
+
+      expect(await delegation.nonceBitmap(owner.address, 1n)).to.equal(1n << 44n);
+      expect(await delegation.isNonceUsed(owner.address, UNORDERED_NONCE_FLAG | 1n)).to.equal(true);
+      expect(await delegation.isNonceUsed(owner.address, UNORDERED_NONCE_FLAG | 2n)).to.equal(false);
+      // The sequential counter is untouched
+      expect(await delegation.nonces(owner.address)).to.equal(0n);
+    });
+
+    it("rejects a sequential nonce that is not the next one", async function () {
+      const skipped = await signDelegation(1n);
+      await expect(skipped()).to.be.revertedWith("BadNonce");
+    });
+
+    it("cancelSignature burns a handed-out nonce", async function () {
+      const pending = await signDelegation(UNORDERED_NONCE_FLAG | 7n);
+      await expect(delegation.connect(owner).cancelSignature(UNORDERED_NONCE_FLAG | 7n))
+        .to.emit(delegation, "SignatureCancelled")
+        .withArgs(owner.address, UNORDERED_NONCE_FLAG | 7n);
+      await expect(pending()).to.be.revertedWith("NonceUsed");
+
+      // Cancelling the next sequential nonce unblocks the one after it
+      const stuck = await signDelegation(0n);
+      await delegation.connect(owner).cancelSignature(0n);
+      await expect(stuck()).to.be.revertedWith("BadNonce");
+      await expect((await signDelegation(1n))()).to.emit(delegation, "Delegated");
+    });
+
+    it("cancelSignatureWithSig lets a relayer cancel for the owner", async function () {
+      const pending = await signDelegation(0n);
+      const deadline = asBigInt(await time.latest()) + 3600n;
+      const value = { owner: owner.address, nonce: 0n, deadline };
+
+      const forged = await other.signTypedData(domain, delegationCancelSignatureTypes, value);
+      await expect(
+        delegation.connect(other).cancelSignatureWithSig(owner.address, 0n, deadline, forged),
+      ).to.be.revertedWith("BadSigner");
+
+      const signature = await owner.signTypedData(domain, delegationCancelSignatureTypes, value);
+      await expect(delegation.connect(other).cancelSignatureWithSig(owner.address, 0n, deadline, signature))
+        .to.emit(delegation, "SignatureCancelled")
+        .withArgs(owner.address, 0n);
+      await expect(pending()).to.be.revertedWith("BadNonce");
+    });
+
+    it("invalidateNonces burns a whole range of unordered nonces", async function () {
+      const pending = await signDelegation(UNORDERED_NONCE_FLAG | (2n << 8n) | 5n);
+
+      await expect(delegation.connect(owner).invalidateNonces(2n, 1n << 5n))
+        .to.emit(delegation, "NoncesInvalidated")
+        .withArgs(owner.address, 2n, 1n << 5n);
+      await expect(pending()).to.be.revertedWith("NonceUsed");
+    });
+
+    it("invalidateNoncesWithSig invalidates on behalf of the owner", async function () {
+      const pending = await signDelegation(UNORDERED_NONCE_FLAG | 9n);
+      const deadline = asBigInt(await time.latest()) + 3600n;
+      const mask = ethers.MaxUint256;
+      const value = { owner: owner.address, wordPos: 0n, mask, nonce: 0n, deadline };
+      const signature = await owner.signTypedData(domain, delegationInvalidateNoncesTypes, value);
+
+      await delegation.connect(other).invalidateNoncesWithSig(owner.address, 0n, mask, 0n, deadline, signature);
+      await expect(pending()).to.be.revertedWith("NonceUsed");
+      await expect(
+        delegation.connect(other).invalidateNoncesWithSig(owner.address, 0n, mask, 0n, deadline, signature),
+      ).to.be.revertedWith("BadNonce");
+    });
+  });
+
+  describe("resource constraints", function () {
+    let contextId: string;
+    const repoA = "0x00000000000000000000000000000000000000000000000000000000000000aa";
+    const repoB = "0x00000000000000000000000000000000000000000000000000000000000000bb";
+
+    async function delegateFor(resources: string[]) {
+      const now = asBigInt(await time.latest());
+      const expiry = now + 3600n;
+      const deadline = now + 7200n;
+      const scopes = await delegation.SCOPE_SNAPSHOT();
+      const value = {
+        owner: owner.address,
+        relayer: relayer.address,
+        contextId,
+        scopes,
+        resources,
+        maxUses: 0n,
+        quota: 0n,
+        period: 0n,
+        epoch: await delegation.epochOf(owner.address),
+        nonce: await delegation.nonces(owner.address),
+        expiry,
+        deadline,
+      };
+      const signature = await owner.signTypedData(domain, delegationTypes, value);
+
+      return delegation
+        .connect(relayer)
+        .registerDelegationWithSig(
+          owner.address,
+          relayer.address,
+          contextId,
+          scopes,
+          resources,
+          0n,
+          0n,
+          0n,
+          expiry,
+          value.nonce,
+          deadline,
+          signature,
+        );
+    }
+
+    async function authorizedFor(resourceId: string) {
+      return delegation.isAuthorizedFor(
+        owner.address,
+        relayer.address,
+        await delegation.SCOPE_SNAPSHOT(),
+        contextId,
+        resourceId,
+      );
+    }
+
+    beforeEach(async function () {
+      contextId = ethers.encodeBytes32String(contextIdLabel);
+    });
+
+    it("covers every resource when no allow-list is signed", async function () {
+      await delegateFor([]);
+
+      expect(await authorizedFor(repoA)).to.equal(true);
+      expect(await authorizedFor(repoB)).to.equal(true);
+      expect(await delegation.resourceListOf(owner.address, relayer.address, contextId)).to.equal(ethers.ZeroHash);
+    });
+
+    it("only covers the listed resources, and never context-wide checks", async function () {
+      await expect(delegateFor([repoA]))
+        .to.emit(delegation, "ResourcesRestricted")
+        .withArgs(owner.address, relayer.address, contextId, [repoA]);
+
+      expect(await authorizedFor(repoA)).to.equal(true);
+      expect(await authorizedFor(repoB)).to.equal(false);
+      expect(await authorizedFor(ethers.ZeroHash)).to.equal(false);
+      expect(
+        await delegation.isAuthorized(owner.address, relayer.address, await delegation.SCOPE_SNAPSHOT(), contextId),
+      ).to.equal(false);
+    });
+
+    it("replaces the allow-list on re-registration and clears it on revoke", async function () {
+      await delegateFor([repoA]);
+      await delegateFor([repoB]);
+
+      expect(await authorizedFor(repoA)).to.equal(false);
+      expect(await authorizedFor(repoB)).to.equal(true);
+
+      await delegation.connect(owner).revoke(relayer.address, contextId);
+      expect(await delegation.resourceListOf(owner.address, relayer.address, contextId)).to.equal(ethers.ZeroHash);
+      expect(await authorizedFor(repoB)).to.equal(false);
+    });
+
+    it("rejects a zero resourceId in the allow-list", async function () {
+      await expect(delegateFor([repoA, ethers.ZeroHash])).to.be.revertedWith("ZeroResource");
+    });
+  });
+
+  describe("usage limits", function () {
+    let contextId: string;
+    let scope: bigint;
+    const MAX = 2n ** 256n - 1n;
+
+    async function delegateWithLimits(maxUses: bigint, quota: bigint, period: bigint) {
+      const now = asBigInt(await time.latest());
+      const expiry = now + 7n * 86400n;
+      const deadline = now + 3600n;
+      const value = {
+        owner: owner.address,
+        relayer: relayer.address,
+        contextId,
+        scopes: scope,
+        resources: [],
+        maxUses,
+        quota,
+        period,
+        epoch: await delegation.epochOf(owner.address),
+        nonce: await delegation.nonces(owner.address),
+        expiry,
+        deadline,
+      };
+      const signature = await owner.signTypedData(domain, delegationTypes, value);
+
+      return delegation
+        .connect(relayer)
+        .registerDelegationWithSig(
+          owner.address,
+          relayer.address,
+          contextId,
+          scope,
+          [],
+          maxUses,
+          quota,
+          period,
+          expiry,
+          value.nonce,
+          deadline,
+          signature,
+        );
+    }
+
+    function consume() {
+      return delegation.connect(deployer).consume(owner.address, relayer.address, scope, contextId, ethers.ZeroHash);
+    }
+
+    function authorized() {
+      return delegation.isAuthorized(owner.address, relayer.address, scope, contextId);
+    }
+
+    beforeEach(async function () {
+      contextId = ethers.encodeBytes32String(contextIdLabel);
+      scope = await delegation.SCOPE_SNAPSHOT();
+      await delegation.connect(deployer).setConsumer(deployer.address, true);
+    });
+
+    it("only lets the owner register consumers, and only consumers consume", async function () {
+      await expect(delegation.connect(other).setConsumer(other.address, true))
+        .to.be.revertedWithCustomError(delegation, "OwnableUnauthorizedAccount");
+
+      await delegateWithLimits(0n, 0n, 0n);
+      await expect(
+        delegation.connect(other).consume(owner.address, relayer.address, scope, contextId, ethers.ZeroHash),
+      ).to.be.revertedWith("NotConsumer");
+    });
+
+    it("reports unlimited delegations as unlimited", async function () {
+      await delegateWithLimits(0n, 0n, 0n);
+      await expect(consume()).to.not.emit(delegation, "DelegationUsed");
+
+      expect(await delegation.remainingUses(owner.address, relayer.address, contextId)).to.deep.equal([MAX, MAX]);
+    });
+
+    it("stops authorizing once maxUses is used up", async function () {
+      await expect(delegateWithLimits(2n, 0n, 0n))
+        .to.emit(delegation, "UsageLimitsSet")
+        .withArgs(owner.address, relayer.address, contextId, 2n, 0n, 0n);
+
+      await expect(consume())
+        .to.emit(delegation, "DelegationUsed")
+        .withArgs(owner.address, relayer.address, contextId, 1n, MAX);
+      await expect(consume())
+        .to.emit(delegation, "DelegationUsed")
+        .withArgs(owner.address, relayer.address, contextId, 0n, MAX);
+
+      expect(await authorized()).to.equal(false);
+      expect(
+        await delegation
+          .connect(deployer)
+          .consume.staticCall(owner.address, relayer.address, scope, contextId, ethers.ZeroHash),
+      ).to.equal(false);
+
+      // Re-registering resets the counters
+      await delegateWithLimits(2n, 0n, 0n);
+      expect(await authorized()).to.equal(true);
+    });
+
+    it("refills the quota every period", async function () {
+      await delegateWithLimits(0n, 1n, 86400n);
+
+      await expect(consume())
+        .to.emit(delegation, "DelegationUsed")
+        .withArgs(owner.address, relayer.address, contextId, MAX, 0n);
+      expect(await authorized()).to.equal(false);
+
+      await time.increase(86400);
+      expect(await authorized()).to.equal(true);
+      expect(await delegation.remainingUses(owner.address, relayer.address, contextId)).to.deep.equal([MAX, 1n]);
+    });
+
+    it("rejects a quota without a period", async function () {
+      await expect(delegateWithLimits(0n, 5n, 0n)).to.be.revertedWith("BadQuota");
+    });
+  });
+
+  describe("sub-delegation", function () {
+    let contextId: string;
+    let workers: any[];
+    let claim: bigint;
+    let snapshot: bigint;
+    let expiry: bigint;
+
+    async function delegateRoot(scopes: bigint, maxUses = 0n) {
+      const now = asBigInt(await time.latest());
+      expiry = now + 3600n;
+      const deadline = now + 3600n;
+      const value = {
+        owner: owner.address,
+        relayer: relayer.address,
+        contextId,
+        scopes,
+        resources: [],
+        maxUses,
+        quota: 0n,
+        period: 0n,
+        epoch: await delegation.epochOf(owner.address),
+        nonce: await delegation.nonces(owner.address),
+        expiry,
+        deadline,
+      };
+      const signature = await owner.signTypedData(domain, delegationTypes, value);
+
+      await delegation
+        .connect(relayer)
+        .registerDelegationWithSig(
+          owner.address,
+          relayer.address,
+          contextId,
+          scopes,
+          [],
+          maxUses,
+          0n,
+          0n,
+          expiry,
+          value.nonce,
+          deadline,
+          signature,
+        );
+    }
+
+    function subDelegate(from: any, to: any, scopes: bigint, subExpiry = expiry) {
+      return delegation.connect(from).subDelegate(owner.address, to.address, contextId, scopes, subExpiry);
+    }
+
+    function authorized(relayerAddr: string, scope: bigint) {
+      return delegation.isAuthorized(owner.address, relayerAddr, scope, contextId);
+    }
+
+    beforeEach(async function () {
+      contextId = ethers.encodeBytes32String(contextIdLabel);
+      workers = (await ethers.getSigners()).slice(5, 10);
+      claim = await delegation.SCOPE_CLAIM();
+      snapshot = await delegation.SCOPE_SNAPSHOT();
+      await delegateRoot(claim | snapshot);
+    });
+
+    it("hands a subset of scopes to a worker", async function () {
+      await expect(subDelegate(relayer, workers[0], snapshot, expiry - 600n))
+        .to.emit(delegation, "SubDelegated")
+        .withArgs(owner.address, relayer.address, workers[0].address, contextId, snapshot, expiry - 600n);
+
+      expect(await authorized(workers[0].address, snapshot)).to.equal(true);
+      expect(await authorized(workers[0].address, claim)).to.equal(false);
+
+      const link = await delegation.linkOf(owner.address, workers[0].address, contextId);
+      expect(link.delegator).to.equal(relayer.address);
+      expect(link.depth).to.equal(1n);
+
+      // The sub-delegation expires on its own, before its parent
+      await time.increase(3000);
+      expect(await authorized(workers[0].address, snapshot)).to.equal(false);
+      expect(await authorized(relayer.address, snapshot)).to.equal(true);
+    });
+
+    it("rejects scope escalation and longer expiries", async function () {
+      await expect(subDelegate(relayer, workers[0], await delegation.SCOPE_ATTEST())).to.be.revertedWith(
+        "ScopeEscalation",
+      );
+      await expect(subDelegate(relayer, workers[0], await delegation.SCOPE_ALL())).to.be.revertedWith(
+        "ScopeEscalation",
+      );
+      await expect(subDelegate(relayer, workers[0], 0n)).to.be.revertedWith("ScopeEscalation");
+      await expect(subDelegate(relayer, workers[0], snapshot, expiry + 1n)).to.be.revertedWith("BadExpiry");
+
+      // A worker cannot widen what it was given either
+      await subDelegate(relayer, workers[0], snapshot);
+      await expect(subDelegate(workers[0], workers[1], claim)).to.be.revertedWith("ScopeEscalation");
+    });
+
+    it("rejects callers without a live delegation", async function () {
+      await expect(subDelegate(other, workers[0], snapshot)).to.be.revertedWith("NotDelegated");
+    });
+
+    it("caps the chain depth", async function () {
+      await subDelegate(relayer, workers[0], snapshot);
+      await subDelegate(workers[0], workers[1], snapshot);
+      await subDelegate(workers[1], workers[2], snapshot);
+      expect(await authorized(workers[2].address, snapshot)).to.equal(true);
+
+      await expect(subDelegate(workers[2], workers[3], snapshot)).to.be.revertedWith("TooDeep");
+    });
+
+    it("cuts off every descendant when a parent link is revoked or replaced", async function () {
+      await subDelegate(relayer, workers[0], snapshot);
+      await subDelegate(workers[0], workers[1], snapshot);
+
+      await delegation.connect(owner).revoke(relayer.address, contextId);
+      expect(await authorized(workers[0].address, snapshot)).to.equal(false);
+      expect(await authorized(workers[1].address, snapshot)).to.equal(false);
+
+      // Re-registering the parent does not revive the old chain
+      await delegateRoot(claim | snapshot);
+      expect(await authorized(workers[0].address, snapshot)).to.equal(false);
+      expect(await authorized(workers[1].address, snapshot)).to.equal(false);
+    });
+
+    it("lets only the delegator revoke a sub-delegation", async function () {
+      await subDelegate(relayer, workers[0], snapshot);
+      await subDelegate(workers[0], workers[1], snapshot);
+
+      await expect(
+        delegation.connect(workers[1]).revokeSubDelegation(owner.address, workers[0].address, contextId),
+      ).to.be.revertedWith("NotDelegator");
+
+      await expect(delegation.connect(relayer).revokeSubDelegation(owner.address, workers[0].address, contextId))
+        .to.emit(delegation, "Revoked")
+        .withArgs(owner.address, workers[0].address, contextId);
+      expect(await authorized(workers[1].address, snapshot)).to.equal(false);
+    });
+
+    it("cannot take over a delegation signed by the owner", async function () {
+      await expect(subDelegate(relayer, relayer, snapshot)).to.be.revertedWith("SelfDelegation");
+
+      await subDelegate(relayer, workers[0], snapshot);
+      await expect(subDelegate(workers[0], relayer, snapshot)).to.be.revertedWith("DelegateTaken");
+    });
+
+    it("counts sub-delegated uses against the parent's limits", async function () {
+      await delegateRoot(snapshot, 1n);
+      await subDelegate(relayer, workers[0], snapshot);
+      await delegation.connect(deployer).setConsumer(deployer.address, true);
+
+      await expect(
+        delegation.connect(deployer).consume(owner.address, workers[0].address, snapshot, contextId, ethers.ZeroHash),
+      )
+        .to.emit(delegation, "DelegationUsed")
+        .withArgs(owner.address, relayer.address, contextId, 0n, 2n ** 256n - 1n);
+
+      expect(await authorized(workers[0].address, snapshot)).to.equal(false);
+      expect(await authorized(relayer.address, snapshot)).to.equal(false);
+    });
+  });
+
+  describe("enumeration", function () {
+    let ctxA: string;
+    let ctxB: string;
+    let expiry: bigint;
+
+    async function delegate(relayerAddr: string, contextId: string, scopes: bigint) {
+      const now = asBigInt(await time.latest());
+      expiry = now + 3600n;
+      const deadline = now + 3600n;
+      const value = {
+        owner: owner.address,
+        relayer: relayerAddr,
+        contextId,
+        scopes,
+        resources: [],
+        maxUses: 0n,
+        quota: 0n,
+        period: 0n,
+        epoch: await delegation.epochOf(owner.address),
+        nonce: await delegation.nonces(owner.address),
+        expiry,
+        deadline,
+      };
+      const signature = await owner.signTypedData(domain, delegationTypes, value);
+
+      await delegation.registerDelegationWithSig(
+        owner.address,
+        relayerAddr,
+        contextId,
+        scopes,
+        [],
+        0n,
+        0n,
+        0n,
+        expiry,
+        value.nonce,
+        deadline,
+        signature,
+      );
+    }
+
+    beforeEach(async function () {
+      ctxA = ethers.encodeBytes32String("ctx-a");
+      ctxB = ethers.encodeBytes32String("ctx-b");
+    });
+
+    it("lists delegations by owner, relayer and context", async function () {
+      const claim = await delegation.SCOPE_CLAIM();
+      await delegate(relayer.address, ctxA, claim);
+      await delegate(other.address, ctxA, claim);
+      await delegate(relayer.address, ctxB, claim);
+      // Re-registering does not duplicate the entry
+      await delegate(relayer.address, ctxB, claim);
+
+      expect(await delegation.getDelegationCountByOwner(owner.address)).to.equal(3n);
+      expect(await delegation.getDelegationCountByRelayer(relayer.address)).to.equal(2n);
+      expect(await delegation.getDelegationCountByContext(ctxA)).to.equal(2n);
+
+      const rows = await delegation.getDelegationsByRelayer(relayer.address, 0, 10);
+      expect(rows.map((r: any) => r.contextId)).to.have.members([ctxA, ctxB]);
+      const row = rows.find((r: any) => r.contextId === ctxB);
+      expect(row.owner).to.equal(owner.address);
+      expect(row.scopes).to.equal(claim);
+      expect(row.expiry).to.equal(expiry);
+      expect(row.active).to.equal(true);
+
+      const page = await delegation.getDelegationsByOwner(owner.address, 1, 1);
+      expect(page.length).to.equal(1);
+      expect(await delegation.getDelegationsByOwner(owner.address, 5, 10)).to.deep.equal([]);
+    });
+
+    it("removes entries on revoke and revokeWithSig", async function () {
+      await delegate(relayer.address, ctxA, await delegation.SCOPE_CLAIM());
+      await delegate(other.address, ctxA, await delegation.SCOPE_CLAIM());
+
+      await delegation.connect(owner).revoke(relayer.address, ctxA);
+
+      const deadline = asBigInt(await time.latest()) + 3600n;
+      const value = {
+        owner: owner.address,
+        relayer: other.address,
+        contextId: ctxA,
+        nonce: await delegation.nonces(owner.address),
+        deadline,
+      };
+      const signature = await owner.signTypedData(domain, revokeDelegationTypes, value);
+      await delegation.revokeWithSig(owner.address, other.address, ctxA, value.nonce, deadline, signature);
+
+      expect(await delegation.getDelegationCountByOwner(owner.address)).to.equal(0n);
+      expect(await delegation.getDelegationCountByRelayer(relayer.address)).to.equal(0n);
+      expect(await delegation.getDelegationCountByContext(ctxA)).to.equal(0n);
+    });
+
+    it("flags expired and cut-off entries as inactive", async function () {
+      const snapshot = await delegation.SCOPE_SNAPSHOT();
+      await delegate(relayer.address, ctxA, snapshot);
+      await delegation.connect(relayer).subDelegate(owner.address, other.address, ctxA, snapshot, expiry);
+
+      let rows = await delegation.getDelegationsByOwner(owner.address, 0, 10);
+      expect(rows.map((r: any) => [r.relayer, r.active])).to.have.deep.members([
+        [relayer.address, true],
+        [other.address, true],
+      ]);
+
+      // Replacing the parent cuts the sub-delegation off without removing it
+      await delegate(relayer.address, ctxA, snapshot);
+      rows = await delegation.getDelegationsByRelayer(other.address, 0, 10);
+      expect(rows[0].active).to.equal(false);
+
+      await time.increase(3601);
+      rows = await delegation.getDelegationsByRelayer(relayer.address, 0, 10);
+      expect(rows[0].active).to.equal(false);
+    });
+  });
+
+  describe("revoke all", function () {
+    let ctxA: string;
+    let ctxB: string;
+    let claim: bigint;
+    let expiry: bigint;
+
+    async function delegate(relayerAddr: string, contextId: string) {
+      const now = asBigInt(await time.latest());
+      expiry = now + 3600n;
+      const deadline = now + 3600n;
+      const value = {
+        owner: owner.address,
+        relayer: relayerAddr,
+        contextId,
+        scopes: claim,
+        resources: [],
+        maxUses: 0n,
+        quota: 0n,
+        period: 0n,
+        epoch: await delegation.epochOf(owner.address),
+        nonce: await delegation.nonces(owner.address),
+        expiry,
+        deadline,
+      };
+      const signature = await owner.signTypedData(domain, delegationTypes, value);
+
+      await delegation.registerDelegationWithSig(
+        owner.address,
+        relayerAddr,
+        contextId,
+        claim,
+        [],
+        0n,
+        0n,
+        0n,
+        expiry,
+        value.nonce,
+        deadline,
+        signature,
+      );
+    }
+
+    beforeEach(async function () {
+      ctxA = ethers.encodeBytes32String("ctx-a");
+      ctxB = ethers.encodeBytes32String("ctx-b");
+      claim = await delegation.SCOPE_CLAIM();
+    });
+
+    it("invalidates every delegation across relayers and contexts", async function () {
+      const [, , , , , worker] = await ethers.getSigners();
+      await delegate(relayer.address, ctxA);
+      await delegate(other.address, ctxA);
+      await delegate(relayer.address, ctxB);
+      await delegation.connect(relayer).subDelegate(owner.address, worker.address, ctxB, claim, expiry);
+
+      await expect(delegation.connect(owner).revokeAll())
+        .to.emit(delegation, "AllRevoked")
+        .withArgs(owner.address, 1n);
+      expect(await delegation.epochOf(owner.address)).to.equal(1n);
+
+      expect(await delegation.isAuthorized(owner.address, relayer.address, claim, ctxA)).to.equal(false);
+      expect(await delegation.isAuthorized(owner.address, relayer.address, claim, ctxB)).to.equal(false);
+      expect(await delegation.isAuthorized(owner.address, other.address, claim, ctxA)).to.equal(false);
+      expect(await delegation.isAuthorized(owner.address, worker.address, claim, ctxB)).to.equal(false);
+
+      const rows = await delegation.getDelegationsByOwner(owner.address, 0, 10);
+      expect(rows.length).to.equal(4);
+      expect(rows.every((r: any) => !r.active)).to.equal(true);
+
+      await expect(
+        delegation.connect(relayer).subDelegate(owner.address, worker.address, ctxA, claim, expiry),
+      ).to.be.revertedWith("NotDelegated");
+    });
+
+    it("accepts new delegations registered after the bump", async function () {
+      await delegate(relayer.address, ctxA);
+      await delegation.connect(owner).revokeAll();
+
+      await delegate(relayer.address, ctxA);
+      expect(await delegation.isAuthorized(owner.address, relayer.address, claim, ctxA)).to.equal(true);
+    });
+
+    it("refuses a grant signed before the bump", async function () {
+      const now = asBigInt(await time.latest());
+      const value = {
+        owner: owner.address,
+        relayer: relayer.address,
+        contextId: ctxA,
+        scopes: claim,
+        resources: [],
+        maxUses: 0n,
+        quota: 0n,
+        period: 0n,
+        epoch: await delegation.epochOf(owner.address),
+        nonce: await delegation.nonces(owner.address),
+        expiry: now + 3600n,
+        deadline: now + 3600n,
+      };
+      const signature = await owner.signTypedData(domain, delegationTypes, value);
+      await delegation.connect(owner).revokeAll();
+
+      await expect(
+        delegation
+          .connect(relayer)
+          .registerDelegationWithSig(
+            owner.address,
+            relayer.address,
+            ctxA,
+            claim,
+            [],
+            0n,
+            0n,
+            0n,
+            value.expiry,
+            value.nonce,
+            value.deadline,
+            signature,
+          ),
+      ).to.be.revertedWith("BadSigner");
+    });
+
+    it("does not touch other owners' delegations", async function () {
+      await delegate(relayer.address, ctxA);
+      await delegation.connect(other).revokeAll();
+
+      expect(await delegation.isAuthorized(owner.address, relayer.address, claim, ctxA)).to.equal(true);
+    });
+
+    it("revokes all with an owner signature", async function () {
+      await delegate(relayer.address, ctxA);
+
+      const deadline = asBigInt(await time.latest()) + 3600n;
+      const value = { owner: owner.address, nonce: await delegation.nonces(owner.address), deadline };
+      const signature = await owner.signTypedData(domain, delegationRevokeAllTypes, value);
+
+      await expect(delegation.connect(relayer).revokeAllWithSig(owner.address, value.nonce, deadline, signature))
+        .to.emit(delegation, "AllRevoked")
+        .withArgs(owner.address, 1n);
+      expect(await delegation.isAuthorized(owner.address, relayer.address, claim, ctxA)).to.equal(false);
+
+      // The nonce is consumed
+      await expect(
+        delegation.revokeAllWithSig(owner.address, value.nonce, deadline, signature),
+      ).to.be.revertedWith("BadNonce");
+    });
+
+    it("rejects revokeAllWithSig with a bad signer or expired deadline", async function () {
+      const deadline = asBigInt(await time.latest()) + 3600n;
+      const value = { owner: owner.address, nonce: await delegation.nonces(owner.address), deadline };
+      const badSig = await other.signTypedData(domain, delegationRevokeAllTypes, value);
+      await expect(
+        delegation.revokeAllWithSig(owner.address, value.nonce, deadline, badSig),
+      ).to.be.revertedWith("BadSigner");
+
+      const past = asBigInt(await time.latest()) - 1n;
+      const expired = await owner.signTypedData(domain, delegationRevokeAllTypes, { ...value, deadline: past });
+      await expect(
+        delegation.revokeAllWithSig(owner.address, value.nonce, past, expired),
+      ).to.be.revertedWith("SigExpired");
+    });
+  });
+
+  describe("scope catalogue", function () {
+    async function register(scopes: bigint) {
+      const contextId = ethers.encodeBytes32String(contextIdLabel);
+      const now = asBigInt(await time.latest());
+      const expiry = now + 3600n;
+      const deadline = now + 3600n;
+      const value = {
+        owner: owner.address,
+        relayer: relayer.address,
+        contextId,
+        scopes,
+        resources: [],
+        maxUses: 0n,
+        quota: 0n,
+        period: 0n,
+        epoch: await delegation.epochOf(owner.address),
+        nonce: await delegation.nonces(owner.address),
+        expiry,
+        deadline,
+      };
+      const signature = await owner.signTypedData(domain, delegationTypes, value);
+
+      return delegation.registerDelegationWithSig(
+        owner.address,
+        relayer.address,
+        contextId,
+        scopes,
+        [],
+        0n,
+        0n,
+        0n,
+        expiry,
+        value.nonce,
+        deadline,
+        signature,
+      );
+    }
+
+    it("lists every defined scope with its name", async function () {
+      const [scopes, names] = await delegation.scopeCatalogue();
+      expect(names).to.deep.equal([
+        "CLAIM",
+        "SNAPSHOT",
+        "ATTEST",
+        "BACKUP",
+        "RELEASE",
+        "GOVERN",
+        "DAO_CONFIG",
+        "TRANSFER",
+        "REVOKE",
+      ]);
+      expect(scopes[5]).to.equal(await delegation.SCOPE_GOVERN());
+      expect(scopes.reduce((acc: bigint, x: bigint) => acc | x, 0n)).to.equal(await delegation.SCOPE_DEFINED());
+      expect(await delegation.scopeName(await delegation.SCOPE_TRANSFER())).to.equal("TRANSFER");
+      expect(await delegation.scopeName(1n << 9n)).to.equal("");
+    });
+
+    it("rejects undefined scope bits but accepts SCOPE_ALL", async function () {
+      await expect(register(1n << 9n)).to.be.revertedWith("UndefinedScope");
+      await expect(register((await delegation.SCOPE_CLAIM()) | (1n << 200n))).to.be.revertedWith("UndefinedScope");
+      await expect(register(await delegation.SCOPE_ALL())).to.emit(delegation, "Delegated");
+
+      // A SCOPE_ALL holder cannot hand on undefined bits either
+      const [, , , , , worker] = await ethers.getSigners();
+      const contextId = ethers.encodeBytes32String(contextIdLabel);
+      const expiry = await delegation.expiryOf(owner.address, relayer.address, contextId);
+      await expect(
+        delegation.connect(relayer).subDelegate(owner.address, worker.address, contextId, 1n << 9n, expiry),
+      ).to.be.revertedWith("UndefinedScope");
+    });
+
+    it("expands legacy grants to the split scopes", async function () {
+      const release = await delegation.SCOPE_RELEASE();
+      const claim = await delegation.SCOPE_CLAIM();
+      const snapshot = await delegation.SCOPE_SNAPSHOT();
+
+      const govern = await delegation.SCOPE_GOVERN();
+      const daoConfig = await delegation.SCOPE_DAO_CONFIG();
+      const revoke = await delegation.SCOPE_REVOKE();
+
+      expect(await delegation.expandLegacyScopes(release)).to.equal(release | govern | daoConfig | revoke);
+      expect(await delegation.expandLegacyScopes(claim | snapshot)).to.equal(
+        claim | snapshot | (await delegation.SCOPE_TRANSFER()),
+      );
+      expect(await delegation.expandLegacyScopes(await delegation.SCOPE_ATTEST())).to.equal(
+        (await delegation.SCOPE_ATTEST()) | revoke,
+      );
+      expect(await delegation.expandLegacyScopes(await delegation.SCOPE_ALL())).to.equal(await delegation.SCOPE_ALL());
+    });
+  });
+
+  describe("batch delegation", function () {
+    let claim: bigint;
+    let snapshot: bigint;
+    let contexts: string[];
+    let expiry: bigint;
+    let deadline: bigint;
+
+    async function signBatch(entries: any[], signer = owner) {
+      const value = {
+        owner: owner.address,
+        relayer: relayer.address,
+        entries,
+        epoch: await delegation.epochOf(owner.address),
+        nonce: await delegation.nonces(owner.address),
+        deadline,
+      };
+      const signature = await signer.signTypedData(domain, delegationBatchTypes, value);
+      return { value, signature };
+    }
+
+    function submit(value: any, signature: string, entries = value.entries) {
+      return delegation
+        .connect(relayer)
+        .registerDelegationBatchWithSig(
+          owner.address,
+          relayer.address,
+          entries,
+          value.nonce,
+          value.deadline,
+          signature,
+        );
+    }
+
+    beforeEach(async function () {
+      claim = await delegation.SCOPE_CLAIM();
+      snapshot = await delegation.SCOPE_SNAPSHOT();
+      contexts = ["ctx-a", "ctx-b", "ctx-c"].map((label) => ethers.encodeBytes32String(label));
+      const now = asBigInt(await time.latest());
+      expiry = now + 3600n;
+      deadline = now + 3600n;
+    });
+
+    it("registers one relayer in several contexts with a single signature", async function () {
+      const entries = [
+        { contextId: contexts[0], scopes: claim, expiry },
+        { contextId: contexts[1], scopes: snapshot, expiry },
+        { contextId: contexts[2], scopes: claim | snapshot, expiry: expiry + 60n },
+      ];
+      const { value, signature } = await signBatch(entries);
+
+      const tx = submit(value, signature);
+      await expect(tx)
+        .to.emit(delegation, "Delegated")
+        .withArgs(owner.address, relayer.address, contexts[0], claim, expiry);
+      await expect(tx)
+        .to.emit(delegation, "Delegated")
+        .withArgs(owner.address, relayer.address, contexts[2], claim | snapshot, expiry + 60n);
+
+      expect(await delegation.nonces(owner.address)).to.equal(1n);
+      expect(await delegation.getDelegationCountByRelayer(relayer.address)).to.equal(3n);
+      expect(await delegation.isAuthorized(owner.address, relayer.address, claim, contexts[0])).to.equal(true);
+      expect(await delegation.isAuthorized(owner.address, relayer.address, claim, contexts[1])).to.equal(false);
+      expect(await delegation.isAuthorized(owner.address, relayer.address, snapshot, contexts[1])).to.equal(true);
+      expect(await delegation.expiryOf(owner.address, relayer.address, contexts[2])).to.equal(expiry + 60n);
+    });
+
+    it("rejects altered entries and foreign signers", async function () {
+      const entries = [{ contextId: contexts[0], scopes: claim, expiry }];
+      const { value, signature } = await signBatch(entries);
+
+      await expect(
+        submit(value, signature, [{ contextId: contexts[0], scopes: claim | snapshot, expiry }]),
+      ).to.be.revertedWith("BadSigner");
+      await expect(
+        submit(value, signature, [...entries, { contextId: contexts[1], scopes: claim, expiry }]),
+      ).to.be.revertedWith("BadSigner");
+
+      const forged = await signBatch(entries, other);
+      await expect(submit(forged.value, forged.signature)).to.be.revertedWith("BadSigner");
+    });
+
+    it("refuses a batch signed before revokeAll", async function () {
+      const { value, signature } = await signBatch([{ contextId: contexts[0], scopes: claim, expiry }]);
+      await delegation.connect(owner).revokeAll();
+
+      await expect(submit(value, signature)).to.be.revertedWith("BadSigner");
+      expect(await delegation.getDelegationCountByOwner(owner.address)).to.equal(0n);
+    });
+
+    it("registers nothing if any entry is invalid", async function () {
+      const bad = await signBatch([
+        { contextId: contexts[0], scopes: claim, expiry },
+        { contextId: ethers.ZeroHash, scopes: claim, expiry },
+      ]);
+      await expect(submit(bad.value, bad.signature)).to.be.revertedWith("ZeroContext");
+
+      const undefinedScope = await signBatch([{ contextId: contexts[0], scopes: 1n << 100n, expiry }]);
+      await expect(submit(undefinedScope.value, undefinedScope.signature)).to.be.revertedWith("UndefinedScope");
+
+      const empty = await signBatch([]);
+      await expect(submit(empty.value, empty.signature)).to.be.revertedWith("EmptyBatch");
+
+      expect(await delegation.getDelegationCountByOwner(owner.address)).to.equal(0n);
+      expect(await delegation.nonces(owner.address)).to.equal(0n);
+    });
+  });
 });
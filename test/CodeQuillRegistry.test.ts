@@ -1,11 +1,20 @@
 import { expect } from "chai";
 import {
+  acceptTransferTypes,
   asBigInt,
+  claimVerificationTypes,
+  createWorkspaceChildWithSig,
   delegationTypes,
   getEip712Domain,
   getWorkspaceEip712Domain,
+  RepoLifecycle,
+  setWorkspaceLifecycleWithSig,
   setWorkspaceMemberWithSig,
+  setWorkspaceRolesUntilWithSig,
+  setWorkspaceRolesWithSig,
   setupCodeQuill,
+  signForwardRequest,
+  WorkspaceLifecycle,
 } from "./utils";
 
 describe("CodeQuillRepositoryRegistry", function () {
@@ -14,6 +23,7 @@ describe("CodeQuillRepositoryRegistry", function () {
   let workspace: any;
   let delegation: any;
   let repository: any;
+  let forwarder: any;
   let deployer: any;
   let repoOwner: any;
   let relayer: any;
@@ -35,6 +45,7 @@ describe("CodeQuillRepositoryRegistry", function () {
     workspace = env.workspace;
     delegation = env.delegation;
     repository = env.repository;
+    forwarder = env.forwarder;
 
     domain = await getEip712Domain(
       ethers,
@@ -102,6 +113,56 @@ describe("CodeQuillRepositoryRegistry", function () {
       ).to.be.revertedWith("owner not member");
     });
 
+    it("reverts if owner lacks ROLE_MAINTAINER", async function () {
+      const repoId = ethers.encodeBytes32String("auditor-repo");
+      const now = asBigInt(await time.latest());
+
+      await setWorkspaceRolesWithSig({
+        ethers,
+        workspace,
+        authoritySigner: deployer,
+        relayerSigner: deployer,
+        domain: workspaceDomain,
+        contextId,
+        member: repoOwner.address,
+        roles: await workspace.ROLE_AUDITOR(),
+        deadline: now + 3600n,
+      });
+
+      await expect(
+        repository
+          .connect(repoOwner)
+          .claimRepo(repoId, contextId, "meta", repoOwner.address),
+      ).to.be.revertedWith("owner not maintainer");
+    });
+
+    it("reverts once the owner's membership has expired", async function () {
+      const repoId = ethers.encodeBytes32String("contractor-repo");
+      const now = asBigInt(await time.latest());
+      const validUntil = now + 1000n;
+
+      await setWorkspaceRolesUntilWithSig({
+        ethers,
+        workspace,
+        authoritySigner: deployer,
+        relayerSigner: deployer,
+        domain: workspaceDomain,
+        contextId,
+        member: repoOwner.address,
+        roles: await workspace.ROLE_MAINTAINER(),
+        validUntil,
+        deadline: now + 3600n,
+      });
+
+      await time.increaseTo(validUntil + 1n);
+
+      await expect(
+        repository
+          .connect(repoOwner)
+          .claimRepo(repoId, contextId, "meta", repoOwner.address),
+      ).to.be.revertedWith("owner not member");
+    });
+
     it("reverts if already claimed", async function () {
       const repoId = ethers.encodeBytes32String("claimed-repo");
       await repository
@@ -126,24 +187,31 @@ describe("CodeQuillRepositoryRegistry", function () {
         relayer: relayer.address,
         contextId,
         scopes,
+        resources: [],
+        maxUses: 0n,
+        quota: 0n,
+        period: 0n,
+        epoch: await delegation.epochOf(repoOwner.address),
         nonce,
         expiry,
         deadline,
       };
 
       const signature = await repoOwner.signTypedData(domain, delegationTypes, value);
-      const { v, r, s } = ethers.Signature.from(signature);
 
       await delegation.registerDelegationWithSig(
         repoOwner.address,
         relayer.address,
         contextId,
         scopes,
+        [],
+        0n,
+        0n,
+        0n,
         expiry,
+        nonce,
         deadline,
-        v,
-        r,
-        s,
+        signature,
       );
 
       await expect(
@@ -164,10 +232,7 @@ describe("CodeQuillRepositoryRegistry", function () {
   });
 
   describe("transferRepo", function () {
-    it("allows direct transfer by current owner", async function () {
-      const repoId = ethers.encodeBytes32String("transfer-repo");
-      const now = asBigInt(await time.latest());
-      const deadline = now + 3600n;
+    beforeEach(async function () {
       await setWorkspaceMemberWithSig({
         ethers,
         workspace,
@@ -175,40 +240,31 @@ describe("CodeQuillRepositoryRegistry", function () {
         relayerSigner: deployer,
         domain: workspaceDomain,
         contextId: otherContextId,
-        member: relayer.address,
+        member: repoOwner.address,
         memberStatus: true,
-        deadline,
+        deadline: asBigInt(await time.latest()) + 3600n,
       });
+    });
+
+    it("lets the current owner move the repo to another workspace", async function () {
+      const repoId = ethers.encodeBytes32String("transfer-repo");
 
       await repository
         .connect(repoOwner)
         .claimRepo(repoId, contextId, "meta", repoOwner.address);
 
       await expect(
-        repository.connect(repoOwner).transferRepo(repoId, relayer.address, otherContextId),
+        repository.connect(repoOwner).transferRepo(repoId, otherContextId),
       )
         .to.emit(repository, "RepoTransferred")
-        .withArgs(repoId, repoOwner.address, relayer.address, contextId, otherContextId);
+        .withArgs(repoId, repoOwner.address, repoOwner.address, contextId, otherContextId);
 
-      expect(await repository.repoOwner(repoId)).to.equal(relayer.address);
+      expect(await repository.repoOwner(repoId)).to.equal(repoOwner.address);
       expect(await repository.repoContextId(repoId)).to.equal(otherContextId);
     });
 
-    it("allows delegated relayer to transfer", async function () {
+    it("allows delegated relayer to move the repo", async function () {
       const repoId = ethers.encodeBytes32String("transfer-delegated");
-      const now = asBigInt(await time.latest());
-      const deadline = now + 3600n;
-      await setWorkspaceMemberWithSig({
-        ethers,
-        workspace,
-        authoritySigner: deployer,
-        relayerSigner: deployer,
-        domain: workspaceDomain,
-        contextId: otherContextId,
-        member: relayer.address,
-        memberStatus: true,
-        deadline,
-      });
 
       await repository
         .connect(repoOwner)
@@ -217,7 +273,7 @@ describe("CodeQuillRepositoryRegistry", function () {
       const now2 = asBigInt(await time.latest());
       const expiry = now2 + 3600n;
       const deadline2 = now2 + 7200n;
-      const scopes = await delegation.SCOPE_CLAIM();
+      const scopes = await delegation.SCOPE_TRANSFER();
       const nonce = await delegation.nonces(repoOwner.address);
 
       const value = {
@@ -225,31 +281,43 @@ describe("CodeQuillRepositoryRegistry", function () {
         relayer: relayer.address,
         contextId,
         scopes,
+        resources: [],
+        maxUses: 0n,
+        quota: 0n,
+        period: 0n,
+        epoch: await delegation.epochOf(repoOwner.address),
         nonce,
         expiry,
         deadline: deadline2,
       };
 
       const signature = await repoOwner.signTypedData(domain, delegationTypes, value);
-      const { v, r, s } = ethers.Signature.from(signature);
 
       await delegation.registerDelegationWithSig(
         repoOwner.address,
         relayer.address,
         contextId,
         scopes,
+        [],
+        0n,
+        0n,
+        0n,
         expiry,
+        nonce,
         deadline2,
-        v,
-        r,
-        s,
+        signature,
       );
 
+      // The relayer can move the repo but not hand it to itself
       await expect(
-        repository.connect(relayer).transferRepo(repoId, relayer.address, otherContextId),
+        repository.connect(relayer).offerTransfer(repoId, relayer.address, otherContextId, expiry),
+      ).to.be.revertedWith("offer to self");
+
+      await expect(
+        repository.connect(relayer).transferRepo(repoId, otherContextId),
       )
         .to.emit(repository, "RepoTransferred")
-        .withArgs(repoId, repoOwner.address, relayer.address, contextId, otherContextId);
+        .withArgs(repoId, repoOwner.address, repoOwner.address, contextId, otherContextId);
     });
 
     it("reverts if there is no change", async function () {
@@ -259,11 +327,556 @@ describe("CodeQuillRepositoryRegistry", function () {
         .claimRepo(repoId, contextId, "meta", repoOwner.address);
 
       await expect(
-        repository.connect(repoOwner).transferRepo(repoId, repoOwner.address, contextId),
+        repository.connect(repoOwner).transferRepo(repoId, contextId),
       ).to.be.revertedWith("no change");
     });
   });
 
+  describe("transfer offers", function () {
+    const repoId = "0x" + "ab".repeat(32);
+
+    beforeEach(async function () {
+      await repository.connect(repoOwner).claimRepo(repoId, contextId, "meta", repoOwner.address);
+    });
+
+    async function offer(to: string, ctx = otherContextId) {
+      const expiry = asBigInt(await time.latest()) + 3600n;
+      await expect(repository.connect(repoOwner).offerTransfer(repoId, to, ctx, expiry))
+        .to.emit(repository, "TransferOffered")
+        .withArgs(repoId, repoOwner.address, to, ctx, expiry);
+      return expiry;
+    }
+
+    it("moves the repo only once the recipient accepts", async function () {
+      const expiry = await offer(other.address);
+
+      expect(await repository.repoOwner(repoId)).to.equal(repoOwner.address);
+      const pending = await repository.pendingTransfer(repoId);
+      expect(pending.from).to.equal(repoOwner.address);
+      expect(pending.newOwner).to.equal(other.address);
+      expect(pending.newContextId).to.equal(otherContextId);
+      expect(pending.expiry).to.equal(expiry);
+
+      await expect(repository.connect(relayer).acceptTransfer(repoId)).to.be.revertedWith("not recipient");
+
+      await expect(repository.connect(other).acceptTransfer(repoId))
+        .to.emit(repository, "RepoTransferred")
+        .withArgs(repoId, repoOwner.address, other.address, contextId, otherContextId);
+
+      expect(await repository.repoOwner(repoId)).to.equal(other.address);
+      expect((await repository.pendingTransfer(repoId)).newOwner).to.equal(ethers.ZeroAddress);
+      await expect(repository.connect(other).acceptTransfer(repoId)).to.be.revertedWith("no offer");
+    });
+
+    it("accepts through a relayer with the recipient's signature", async function () {
+      const expiry = await offer(other.address);
+      const repositoryDomain = await getEip712Domain(
+        ethers,
+        "CodeQuillRepositoryRegistry",
+        "1",
+        await repository.getAddress(),
+      );
+      const deadline = asBigInt(await time.latest()) + 3600n;
+      const value = {
+        repoId,
+        from: repoOwner.address,
+        newOwner: other.address,
+        newContextId: otherContextId,
+        expiry,
+        nonce: 0n,
+        deadline,
+      };
+      const accept = async (fields: any) => {
+        const v = { ...value, ...fields };
+        const sig = await other.signTypedData(repositoryDomain, acceptTransferTypes, v);
+        return repository
+          .connect(relayer)
+          .acceptTransferWithSig(repoId, v.from, v.newOwner, v.newContextId, v.expiry, v.nonce, v.deadline, sig);
+      };
+
+      // A signature for a different sender, destination or expiry does not fit the pending offer
+      await expect(accept({ from: relayer.address })).to.be.revertedWith("offer changed");
+      await expect(accept({ newContextId: contextId })).to.be.revertedWith("offer changed");
+      await expect(accept({ expiry: expiry + 1n })).to.be.revertedWith("offer changed");
+
+      await expect(accept({}))
+        .to.emit(repository, "RepoTransferred")
+        .withArgs(repoId, repoOwner.address, other.address, contextId, otherContextId);
+
+      expect(await repository.nonces(other.address)).to.equal(1n);
+    });
+
+    it("can be withdrawn by the owner or declined by the recipient", async function () {
+      await offer(other.address);
+      await expect(repository.connect(relayer).cancelTransfer(repoId)).to.be.revertedWith("not authorized");
+      await expect(repository.connect(repoOwner).cancelTransfer(repoId))
+        .to.emit(repository, "TransferCancelled")
+        .withArgs(repoId, repoOwner.address, other.address);
+      await expect(repository.connect(other).acceptTransfer(repoId)).to.be.revertedWith("no offer");
+
+      await offer(other.address);
+      await expect(repository.connect(other).cancelTransfer(repoId))
+        .to.emit(repository, "TransferCancelled")
+        .withArgs(repoId, repoOwner.address, other.address);
+    });
+
+    it("expires, and lapses once the repo changes hands", async function () {
+      const expiry = await offer(other.address);
+      await time.increaseTo(expiry + 1n);
+      await expect(repository.connect(other).acceptTransfer(repoId)).to.be.revertedWith("offer expired");
+
+      // A verified claim displaces the unverified owner while the offer is pending
+      await offer(other.address);
+      const verifier = ethers.Wallet.createRandom();
+      await repository.connect(deployer).setClaimVerifier(verifier.address);
+      const repositoryDomain = await getEip712Domain(
+        ethers,
+        "CodeQuillRepositoryRegistry",
+        "1",
+        await repository.getAddress(),
+      );
+      const claimExpiry = asBigInt(await time.latest()) + 3600n;
+      const sig = await verifier.signTypedData(repositoryDomain, claimVerificationTypes, {
+        repoId,
+        owner: other.address,
+        contextId: otherContextId,
+        expiry: claimExpiry,
+      });
+      await repository
+        .connect(other)
+        .claimRepoVerified(repoId, otherContextId, "meta", other.address, claimExpiry, sig);
+
+      await expect(repository.connect(other).acceptTransfer(repoId)).to.be.revertedWith("stale offer");
+    });
+
+    it("checks the recipient's membership on acceptance", async function () {
+      await offer(relayer.address);
+      await expect(repository.connect(relayer).acceptTransfer(repoId)).to.be.revertedWith("newOwner not member");
+      await expect(
+        repository.connect(repoOwner).offerTransfer(repoId, repoOwner.address, otherContextId, 0n),
+      ).to.be.revertedWith("bad expiry");
+    });
+  });
+
+  describe("repo maintainers", function () {
+    const repoId = "0x" + "cd".repeat(32);
+
+    beforeEach(async function () {
+      await repository.connect(repoOwner).claimRepo(repoId, contextId, "meta", repoOwner.address);
+    });
+
+    it("lets only the owner manage the maintainer set", async function () {
+      const roles = (await repository.ROLE_SNAPSHOTTER()) | (await repository.ROLE_BACKUP_OPERATOR());
+
+      await expect(repository.connect(other).setMaintainer(repoId, other.address, roles)).to.be.revertedWith(
+        "not owner",
+      );
+      await expect(repository.connect(repoOwner).setMaintainer(repoId, repoOwner.address, roles)).to.be.revertedWith(
+        "bad maintainer",
+      );
+      await expect(repository.connect(repoOwner).setMaintainer(repoId, other.address, 1n << 8n)).to.be.revertedWith(
+        "bad roles",
+      );
+
+      await expect(repository.connect(repoOwner).setMaintainer(repoId, other.address, roles))
+        .to.emit(repository, "MaintainerSet")
+        .withArgs(repoId, other.address, roles);
+
+      expect(await repository.getMaintainers(repoId)).to.deep.equal([other.address]);
+      expect(await repository.maintainerRoles(repoId, other.address)).to.equal(roles);
+      expect(await repository.hasRepoRole(repoId, other.address, await repository.ROLE_SNAPSHOTTER())).to.equal(true);
+      expect(await repository.hasRepoRole(repoId, other.address, await repository.ROLE_TRANSFER_ADMIN())).to.equal(
+        false,
+      );
+      expect(await repository.hasRepoRole(repoId, repoOwner.address, await repository.REPO_ROLES_ALL())).to.equal(true);
+
+      await repository.connect(repoOwner).setMaintainer(repoId, other.address, 0n);
+      expect(await repository.getMaintainers(repoId)).to.deep.equal([]);
+    });
+
+    it("lets a transfer admin move the repo and drops maintainers on owner change", async function () {
+      await setWorkspaceMemberWithSig({
+        ethers,
+        workspace,
+        authoritySigner: deployer,
+        relayerSigner: deployer,
+        domain: workspaceDomain,
+        contextId: otherContextId,
+        member: relayer.address,
+        memberStatus: true,
+        deadline: asBigInt(await time.latest()) + 3600n,
+      });
+
+      const expiry = asBigInt(await time.latest()) + 3600n;
+      await expect(repository.connect(other).offerTransfer(repoId, relayer.address, otherContextId, expiry))
+        .to.be.revertedWith("not authorized");
+
+      await repository.connect(repoOwner).setMaintainer(repoId, other.address, await repository.ROLE_TRANSFER_ADMIN());
+
+      // A transfer admin cannot take the repo for itself
+      await expect(repository.connect(other).offerTransfer(repoId, other.address, otherContextId, expiry))
+        .to.be.revertedWith("offer to self");
+
+      await repository.connect(other).offerTransfer(repoId, relayer.address, otherContextId, expiry);
+      await expect(repository.connect(relayer).acceptTransfer(repoId))
+        .to.emit(repository, "MaintainersCleared")
+        .withArgs(repoId);
+
+      expect(await repository.repoOwner(repoId)).to.equal(relayer.address);
+      expect(await repository.getMaintainers(repoId)).to.deep.equal([]);
+      expect(await repository.maintainerRoles(repoId, other.address)).to.equal(0n);
+    });
+  });
+
+  describe("repo lifecycle", function () {
+    const repoId = "0x" + "ef".repeat(32);
+    const successor = "0x" + "fe".repeat(32);
+
+    beforeEach(async function () {
+      await repository.connect(repoOwner).claimRepo(repoId, contextId, "meta", repoOwner.address);
+    });
+
+    it("lets the owner deprecate with a successor, reactivate and archive for good", async function () {
+      expect(await repository.isWritable(repoId)).to.equal(true);
+      await expect(
+        repository.connect(other).setLifecycle(repoId, RepoLifecycle.ARCHIVED, ethers.ZeroHash),
+      ).to.be.revertedWith("not owner");
+      await expect(
+        repository.connect(repoOwner).setLifecycle(repoId, RepoLifecycle.DEPRECATED, ethers.ZeroHash),
+      ).to.be.revertedWith("bad successor");
+
+      await expect(repository.connect(repoOwner).setLifecycle(repoId, RepoLifecycle.DEPRECATED, successor))
+        .to.emit(repository, "LifecycleSet")
+        .withArgs(repoId, RepoLifecycle.DEPRECATED, successor);
+      expect(await repository.successorOf(repoId)).to.equal(successor);
+      expect(await repository.isWritable(repoId)).to.equal(true);
+
+      await repository.connect(repoOwner).setLifecycle(repoId, RepoLifecycle.ACTIVE, ethers.ZeroHash);
+      expect(await repository.successorOf(repoId)).to.equal(ethers.ZeroHash);
+
+      await repository.connect(repoOwner).setLifecycle(repoId, RepoLifecycle.ARCHIVED, ethers.ZeroHash);
+      expect(await repository.isWritable(repoId)).to.equal(false);
+      await expect(
+        repository.connect(repoOwner).setLifecycle(repoId, RepoLifecycle.ACTIVE, ethers.ZeroHash),
+      ).to.be.revertedWith("repo archived");
+    });
+
+    it("keeps an archived repo archived: it cannot be relinquished and reclaimed", async function () {
+      await repository.connect(repoOwner).setLifecycle(repoId, RepoLifecycle.ARCHIVED, ethers.ZeroHash);
+      await expect(
+        repository.connect(repoOwner).setLifecycle(repoId, RepoLifecycle.RELINQUISHED, ethers.ZeroHash),
+      ).to.be.revertedWith("repo archived");
+
+      expect(await repository.repoOwner(repoId)).to.equal(repoOwner.address);
+      await expect(
+        repository.connect(other).claimRepo(repoId, otherContextId, "meta", other.address),
+      ).to.be.revertedWith("already claimed");
+      expect(await repository.isWritable(repoId)).to.equal(false);
+    });
+
+    it("releases a relinquished claim so the repo can be claimed again", async function () {
+      await repository.connect(repoOwner).setLifecycle(repoId, RepoLifecycle.DEPRECATED, successor);
+      await expect(repository.connect(repoOwner).setLifecycle(repoId, RepoLifecycle.RELINQUISHED, ethers.ZeroHash))
+        .to.emit(repository, "RepoRelinquished")
+        .withArgs(repoId, repoOwner.address, contextId);
+
+      expect(await repository.isClaimed(repoId)).to.equal(false);
+      expect(await repository.isWritable(repoId)).to.equal(false);
+      expect(await repository.repoContextId(repoId)).to.equal(ethers.ZeroHash);
+      expect(await repository.getRepoCountByOwner(repoOwner.address)).to.equal(0n);
+      expect(await repository.getRepoCountByContext(contextId)).to.equal(0n);
+
+      await expect(repository.connect(other).claimRepo(repoId, otherContextId, "meta", other.address))
+        .to.emit(repository, "LifecycleSet")
+        .withArgs(repoId, RepoLifecycle.ACTIVE, ethers.ZeroHash);
+      expect(await repository.successorOf(repoId)).to.equal(ethers.ZeroHash);
+      expect(await repository.repoContextId(repoId)).to.equal(otherContextId);
+      expect(await repository.repoOwner(repoId)).to.equal(other.address);
+      expect(await repository.isWritable(repoId)).to.equal(true);
+    });
+  });
+
+  describe("workspace lifecycle", function () {
+    async function setLifecycle(ctx: string, state: number) {
+      return setWorkspaceLifecycleWithSig({
+        ethers,
+        workspace,
+        authoritySigner: deployer,
+        relayerSigner: deployer,
+        domain: workspaceDomain,
+        contextId: ctx,
+        state,
+        deadline: asBigInt(await time.latest()) + 3600n,
+      });
+    }
+
+    it("refuses claims in a frozen workspace", async function () {
+      const repoId = ethers.encodeBytes32String("frozen-repo");
+      await setLifecycle(contextId, WorkspaceLifecycle.FROZEN);
+
+      await expect(
+        repository.connect(repoOwner).claimRepo(repoId, contextId, "meta", repoOwner.address),
+      ).to.be.revertedWith("context not active");
+    });
+
+    it("refuses transfers out of or into an inactive workspace", async function () {
+      const repoId = ethers.encodeBytes32String("locked-repo");
+      await repository.connect(repoOwner).claimRepo(repoId, contextId, "meta", repoOwner.address);
+
+      await setLifecycle(otherContextId, WorkspaceLifecycle.ARCHIVED);
+      await expect(
+        repository.connect(repoOwner).transferRepo(repoId, otherContextId),
+      ).to.be.revertedWith("newContext not active");
+
+      await setLifecycle(contextId, WorkspaceLifecycle.FROZEN);
+      await expect(
+        repository.connect(repoOwner).transferRepo(repoId, otherContextId),
+      ).to.be.revertedWith("context not active");
+
+      // Reads stay available
+      expect(await repository.repoOwner(repoId)).to.equal(repoOwner.address);
+    });
+
+    it("lets repos move out of an archived workspace", async function () {
+      const repoId = ethers.encodeBytes32String("rescued-repo");
+      await repository.connect(repoOwner).claimRepo(repoId, contextId, "meta", repoOwner.address);
+      await setWorkspaceMemberWithSig({
+        ethers,
+        workspace,
+        authoritySigner: deployer,
+        relayerSigner: deployer,
+        domain: workspaceDomain,
+        contextId: otherContextId,
+        member: repoOwner.address,
+        memberStatus: true,
+        deadline: asBigInt(await time.latest()) + 3600n,
+      });
+
+      await setLifecycle(contextId, WorkspaceLifecycle.ARCHIVED);
+      await expect(repository.connect(repoOwner).transferRepo(repoId, otherContextId))
+        .to.emit(repository, "RepoTransferred")
+        .withArgs(repoId, repoOwner.address, repoOwner.address, contextId, otherContextId);
+      expect(await repository.repoContextId(repoId)).to.equal(otherContextId);
+    });
+  });
+
+  describe("child workspaces", function () {
+    it("lets parent members claim into a child context that inherits membership", async function () {
+      const salt = ethers.encodeBytes32String("team-a");
+      const childId = await workspace.deriveChildContextId(contextId, salt);
+
+      await createWorkspaceChildWithSig({
+        ethers,
+        workspace,
+        parentAuthoritySigner: deployer,
+        relayerSigner: deployer,
+        domain: workspaceDomain,
+        parentId: contextId,
+        salt,
+        childAuthority: other.address,
+        inheritMembers: true,
+        deadline: asBigInt(await time.latest()) + 3600n,
+      });
+
+      const repoId = ethers.encodeBytes32String("team-repo");
+      await expect(repository.connect(repoOwner).claimRepo(repoId, childId, "meta", repoOwner.address))
+        .to.emit(repository, "RepoClaimed")
+        .withArgs(repoId, repoOwner.address, childId, "meta");
+    });
+  });
+
+  describe("trusted forwarder", function () {
+    async function forwardClaim(signer: any, repoId: string, owner: string) {
+      return signForwardRequest({
+        ethers,
+        forwarder,
+        signer,
+        target: repository,
+        data: repository.interface.encodeFunctionData("claimRepo", [repoId, contextId, "meta", owner]),
+        deadline: asBigInt(await time.latest()) + 3600n,
+      });
+    }
+
+    it("lets a member claim through any gas relayer without a delegation", async function () {
+      const repoId = ethers.encodeBytes32String("forwarded-repo");
+      expect(await repository.isTrustedForwarder(await forwarder.getAddress())).to.equal(true);
+
+      const request = await forwardClaim(repoOwner, repoId, repoOwner.address);
+      await expect(forwarder.connect(relayer).execute(request))
+        .to.emit(repository, "RepoClaimed")
+        .withArgs(repoId, repoOwner.address, contextId, "meta");
+
+      expect(await repository.repoOwner(repoId)).to.equal(repoOwner.address);
+      expect(await delegation.getDelegationCountByOwner(repoOwner.address)).to.equal(0n);
+    });
+
+    it("acts as the request signer, never as the relayer", async function () {
+      const repoId = ethers.encodeBytes32String("forwarded-fail");
+
+      // Signed by someone without a delegation from the owner
+      const foreign = await forwardClaim(other, repoId, repoOwner.address);
+      await expect(forwarder.connect(repoOwner).execute(foreign)).to.be.revertedWithCustomError(
+        forwarder,
+        "FailedCall",
+      );
+
+      // The relayer cannot rewrite the signed call
+      const request = await forwardClaim(repoOwner, repoId, repoOwner.address);
+      const tampered = {
+        ...request,
+        data: repository.interface.encodeFunctionData("claimRepo", [repoId, contextId, "evil", repoOwner.address]),
+      };
+      await expect(forwarder.connect(relayer).execute(tampered)).to.be.revertedWithCustomError(
+        forwarder,
+        "ERC2771ForwarderInvalidSigner",
+      );
+    });
+  });
+
+  describe("verified claims", function () {
+    let verifier: any;
+
+    async function verify(repoId: string, owner: string, ctx: string, expiry?: bigint) {
+      expiry ??= asBigInt(await time.latest()) + 3600n;
+      const verifierDomain = await getEip712Domain(
+        ethers,
+        "CodeQuillRepositoryRegistry",
+        "1",
+        await repository.getAddress(),
+      );
+      const sig = await verifier.signTypedData(verifierDomain, claimVerificationTypes, {
+        repoId,
+        owner,
+        contextId: ctx,
+        expiry,
+      });
+      return { expiry, sig };
+    }
+
+    beforeEach(async function () {
+      verifier = ethers.Wallet.createRandom();
+      await expect(repository.connect(deployer).setClaimVerifier(verifier.address))
+        .to.emit(repository, "ClaimVerifierSet")
+        .withArgs(ethers.ZeroAddress, verifier.address);
+    });
+
+    it("only lets the owner configure the verifier", async function () {
+      await expect(repository.connect(other).setClaimVerifier(other.address)).to.be.revertedWithCustomError(
+        repository,
+        "OwnableUnauthorizedAccount",
+      );
+    });
+
+    it("claims and marks a repo verified", async function () {
+      const repoId = ethers.encodeBytes32String("verified-repo");
+      const { expiry, sig } = await verify(repoId, repoOwner.address, contextId);
+
+      await expect(
+        repository.connect(repoOwner).claimRepoVerified(repoId, contextId, "meta", repoOwner.address, expiry, sig),
+      )
+        .to.emit(repository, "RepoVerified")
+        .withArgs(repoId, repoOwner.address, contextId)
+        .and.to.not.emit(repository, "ClaimOverridden");
+
+      expect(await repository.repoOwner(repoId)).to.equal(repoOwner.address);
+      expect(await repository.repoVerified(repoId)).to.equal(true);
+    });
+
+    it("overrides an unverified squatter and then holds against further claims", async function () {
+      const repoId = ethers.encodeBytes32String("squatted-repo");
+      await repository.connect(repoOwner).claimRepo(repoId, contextId, "squat", repoOwner.address);
+      expect(await repository.repoVerified(repoId)).to.equal(false);
+
+      const { expiry, sig } = await verify(repoId, other.address, otherContextId);
+      await expect(
+        repository.connect(other).claimRepoVerified(repoId, otherContextId, "meta", other.address, expiry, sig),
+      )
+        .to.emit(repository, "ClaimOverridden")
+        .withArgs(repoId, repoOwner.address, other.address, contextId, otherContextId);
+
+      expect(await repository.repoOwner(repoId)).to.equal(other.address);
+      expect(await repository.repoContextId(repoId)).to.equal(otherContextId);
+      expect(await repository.repoVerified(repoId)).to.equal(true);
+      expect(await repository.getReposByOwner(repoOwner.address, 0n, 10n)).to.not.include(repoId);
+      expect(await repository.getReposByContext(otherContextId, 0n, 10n)).to.deep.equal([repoId]);
+
+      const retry = await verify(repoId, repoOwner.address, contextId);
+      await expect(
+        repository
+          .connect(repoOwner)
+          .claimRepoVerified(repoId, contextId, "meta", repoOwner.address, retry.expiry, retry.sig),
+      ).to.be.revertedWith("already verified");
+      await expect(
+        repository.connect(repoOwner).claimRepo(repoId, contextId, "meta", repoOwner.address),
+      ).to.be.revertedWith("already claimed");
+    });
+
+    it("keeps an archived or deprecated repo in its state through a verified claim", async function () {
+      const archived = ethers.encodeBytes32String("archived-unverified");
+      await repository.connect(repoOwner).claimRepo(archived, contextId, "meta", repoOwner.address);
+      await repository.connect(repoOwner).setLifecycle(archived, RepoLifecycle.ARCHIVED, ethers.ZeroHash);
+
+      // Neither the owner itself nor another claimant can un-archive the repo with a verifier signature
+      const own = await verify(archived, repoOwner.address, contextId);
+      await expect(
+        repository
+          .connect(repoOwner)
+          .claimRepoVerified(archived, contextId, "meta", repoOwner.address, own.expiry, own.sig),
+      ).to.not.emit(repository, "LifecycleSet");
+      expect(await repository.lifecycleOf(archived)).to.equal(RepoLifecycle.ARCHIVED);
+      expect(await repository.isWritable(archived)).to.equal(false);
+
+      const deprecated = ethers.encodeBytes32String("deprecated-unverified");
+      const successor = ethers.encodeBytes32String("successor");
+      await repository.connect(repoOwner).claimRepo(deprecated, contextId, "meta", repoOwner.address);
+      await repository.connect(repoOwner).setLifecycle(deprecated, RepoLifecycle.DEPRECATED, successor);
+
+      const takeover = await verify(deprecated, other.address, otherContextId);
+      await repository
+        .connect(other)
+        .claimRepoVerified(deprecated, otherContextId, "meta", other.address, takeover.expiry, takeover.sig);
+      expect(await repository.lifecycleOf(deprecated)).to.equal(RepoLifecycle.DEPRECATED);
+      expect(await repository.successorOf(deprecated)).to.equal(successor);
+    });
+
+    it("rejects signatures that are expired, forged or for another owner", async function () {
+      const repoId = ethers.encodeBytes32String("bad-verification");
+      const now = asBigInt(await time.latest());
+
+      const expired = await verify(repoId, repoOwner.address, contextId, now - 1n);
+      await expect(
+        repository
+          .connect(repoOwner)
+          .claimRepoVerified(repoId, contextId, "meta", repoOwner.address, expired.expiry, expired.sig),
+      ).to.be.revertedWith("sig expired");
+
+      const forOther = await verify(repoId, other.address, otherContextId);
+      await expect(
+        repository
+          .connect(repoOwner)
+          .claimRepoVerified(repoId, contextId, "meta", repoOwner.address, forOther.expiry, forOther.sig),
+      ).to.be.revertedWith("bad verifier sig");
+
+      verifier = repoOwner;
+      const forged = await verify(repoId, repoOwner.address, contextId);
+      await expect(
+        repository
+          .connect(repoOwner)
+          .claimRepoVerified(repoId, contextId, "meta", repoOwner.address, forged.expiry, forged.sig),
+      ).to.be.revertedWith("bad verifier sig");
+    });
+
+    it("is disabled while no verifier is configured", async function () {
+      const repoId = ethers.encodeBytes32String("no-verifier");
+      const { expiry, sig } = await verify(repoId, repoOwner.address, contextId);
+      await repository.connect(deployer).setClaimVerifier(ethers.ZeroAddress);
+
+      await expect(
+        repository.connect(repoOwner).claimRepoVerified(repoId, contextId, "meta", repoOwner.address, expiry, sig),
+      ).to.be.revertedWith("verifier not set");
+    });
+  });
+
   describe("views", function () {
     it("returns multiple owners", async function () {
       const repo1 = ethers.encodeBytes32String("repo1");
@@ -284,8 +897,33 @@ describe("CodeQuillRepositoryRegistry", function () {
         .connect(repoOwner)
         .claimRepo(repoX, contextId, "mX", repoOwner.address);
 
-      const repos = await repository.getReposByOwner(repoOwner.address);
+      const repos = await repository.getReposByOwner(repoOwner.address, 0n, 10n);
       expect(repos).to.include(repoX);
     });
+
+    it("keeps the owner and context indexes accurate across transfers, with pagination", async function () {
+      const ids = ["idx-a", "idx-b", "idx-c"].map((label) => ethers.encodeBytes32String(label));
+      for (const id of ids) {
+        await repository.connect(repoOwner).claimRepo(id, contextId, "meta", repoOwner.address);
+      }
+
+      expect(await repository.getRepoCountByOwner(repoOwner.address)).to.equal(3n);
+      expect(await repository.getRepoCountByContext(contextId)).to.equal(3n);
+      const page1 = await repository.getReposByOwner(repoOwner.address, 0n, 2n);
+      const page2 = await repository.getReposByOwner(repoOwner.address, 2n, 2n);
+      expect(page1.length).to.equal(2);
+      expect(page2.length).to.equal(1);
+      expect([...page1, ...page2]).to.have.members(ids);
+      expect(await repository.getReposByOwner(repoOwner.address, 3n, 2n)).to.deep.equal([]);
+
+      const expiry = asBigInt(await time.latest()) + 3600n;
+      await repository.connect(repoOwner).offerTransfer(ids[1], other.address, otherContextId, expiry);
+      await repository.connect(other).acceptTransfer(ids[1]);
+
+      expect(await repository.getReposByOwner(repoOwner.address, 0n, 10n)).to.have.members([ids[0], ids[2]]);
+      expect(await repository.getReposByContext(contextId, 0n, 10n)).to.have.members([ids[0], ids[2]]);
+      expect(await repository.getReposByOwner(other.address, 0n, 10n)).to.deep.equal([ids[1]]);
+      expect(await repository.getReposByContext(otherContextId, 0n, 10n)).to.deep.equal([ids[1]]);
+    });
   });
 });
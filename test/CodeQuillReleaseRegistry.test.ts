@@ -1,12 +1,18 @@
 import { expect } from "chai";
 import { anyValue } from "@nomicfoundation/hardhat-ethers-chai-matchers/withArgs";
 import {
+  anchorReleaseTypes,
   asBigInt,
   delegationTypes,
   getEip712Domain,
   getWorkspaceEip712Domain,
+  RepoLifecycle,
+  setWorkspaceLifecycleWithSig,
   setWorkspaceMemberWithSig,
+  setWorkspaceRolesWithSig,
   setupCodeQuill,
+  signForwardRequest,
+  WorkspaceLifecycle,
 } from "./utils";
 
 describe("CodeQuillReleaseRegistry", function () {
@@ -17,6 +23,7 @@ describe("CodeQuillReleaseRegistry", function () {
   let snapshotRegistry: any;
   let delegation: any;
   let releaseRegistry: any;
+  let forwarder: any;
   let deployer: any;
   let author: any;
   let governance: any;
@@ -40,6 +47,7 @@ describe("CodeQuillReleaseRegistry", function () {
     snapshotRegistry = env.snapshot;
     delegation = env.delegation;
     releaseRegistry = env.release;
+    forwarder = env.forwarder;
 
     author = env.alice;
     governance = env.bob;
@@ -77,7 +85,7 @@ describe("CodeQuillReleaseRegistry", function () {
     }
   });
 
-  async function delegate(scope: bigint, ownerSigner: any, relayerSigner: any) {
+  async function delegate(scope: bigint, ownerSigner: any, relayerSigner: any, resources: string[] = []) {
     const now = asBigInt(await time.latest());
     const expiry = now + 3600n;
     const deadline = now + 7200n;
@@ -88,24 +96,31 @@ describe("CodeQuillReleaseRegistry", function () {
       relayer: relayerSigner.address,
       contextId,
       scopes: scope,
+      resources,
+      maxUses: 0n,
+      quota: 0n,
+      period: 0n,
+      epoch: await delegation.epochOf(ownerSigner.address),
       nonce,
       expiry,
       deadline,
     };
 
     const signature = await ownerSigner.signTypedData(domain, delegationTypes, value);
-    const { v, r, s } = ethers.Signature.from(signature);
 
     await delegation.registerDelegationWithSig(
       ownerSigner.address,
       relayerSigner.address,
       contextId,
       scope,
+      resources,
+      0n,
+      0n,
+      0n,
       expiry,
+      nonce,
       deadline,
-      v,
-      r,
-      s,
+      signature,
     );
   }
 
@@ -196,6 +211,66 @@ describe("CodeQuillReleaseRegistry", function () {
       ).to.emit(releaseRegistry, "ReleaseAnchored");
     });
 
+    it("anchors a release signed by the author, submitted by any relayer", async function () {
+      const { repo1Id, repo2Id, root1, root2 } = await setupTwoReposAndSnapshots();
+      const releaseDomain = await getEip712Domain(
+        ethers,
+        "CodeQuillReleaseRegistry",
+        "1",
+        await releaseRegistry.getAddress(),
+      );
+      const value = {
+        projectId: ethers.id("project-signed"),
+        releaseId: ethers.id("release-signed"),
+        contextId,
+        manifestCid: "cid",
+        name: "v1",
+        author: author.address,
+        governanceAuthority: governance.address,
+        repoIds: [repo1Id, repo2Id],
+        merkleRoots: [root1, root2],
+        nonce: await releaseRegistry.nonces(author.address),
+        deadline: asBigInt(await time.latest()) + 3600n,
+      };
+      const signature = await author.signTypedData(releaseDomain, anchorReleaseTypes, value);
+
+      function submit(repoIds: string[], merkleRoots: string[]) {
+        return releaseRegistry
+          .connect(other)
+          .anchorReleaseWithSig(
+            value.projectId,
+            value.releaseId,
+            contextId,
+            value.manifestCid,
+            value.name,
+            author.address,
+            governance.address,
+            repoIds,
+            merkleRoots,
+            value.nonce,
+            value.deadline,
+            signature,
+          );
+      }
+
+      // The relayer cannot drop a repo from the signed release
+      await expect(submit([repo1Id], [root1])).to.be.revertedWith("bad signer");
+
+      await expect(submit(value.repoIds, value.merkleRoots))
+        .to.emit(releaseRegistry, "ReleaseAnchored")
+        .withArgs(
+          value.projectId,
+          value.releaseId,
+          contextId,
+          author.address,
+          governance.address,
+          "cid",
+          "v1",
+          anyValue,
+        );
+      expect(await releaseRegistry.nonces(author.address)).to.equal(1n);
+    });
+
     it("reverts when called by a non-authorized relayer", async function () {
       const { repo1Id, root1 } = await setupTwoReposAndSnapshots();
 
@@ -236,6 +311,39 @@ describe("CodeQuillReleaseRegistry", function () {
       ).to.be.revertedWith("governance not member");
     });
 
+    it("reverts if governanceAuthority lacks ROLE_GOVERNOR", async function () {
+      const { repo1Id, root1 } = await setupTwoReposAndSnapshots();
+      const now = asBigInt(await time.latest());
+
+      await setWorkspaceRolesWithSig({
+        ethers,
+        workspace,
+        authoritySigner: deployer,
+        relayerSigner: deployer,
+        domain: workspaceDomain,
+        contextId,
+        member: governance.address,
+        roles: await workspace.ROLE_RELEASER(),
+        deadline: now + 3600n,
+      });
+
+      await expect(
+        releaseRegistry
+          .connect(author)
+          .anchorRelease(
+            ethers.id("p"),
+            ethers.id("r"),
+            contextId,
+            "cid",
+            "v1",
+            author.address,
+            governance.address,
+            [repo1Id],
+            [root1],
+          ),
+      ).to.be.revertedWith("governance not governor");
+    });
+
     it("reverts if snapshot does not exist", async function () {
       const repo1Id = ethers.encodeBytes32String("repo1");
       await repository
@@ -258,6 +366,23 @@ describe("CodeQuillReleaseRegistry", function () {
           ),
       ).to.be.revertedWith("snapshot not found");
     });
+
+    it("refuses archived repos but still releases deprecated ones", async function () {
+      const { repo1Id, repo2Id, root1, root2 } = await setupTwoReposAndSnapshots();
+      const gov = governance.address;
+      const anchor = (releaseId: string, ids: string[], roots: string[]) =>
+        releaseRegistry
+          .connect(author)
+          .anchorRelease(ethers.id("p"), releaseId, contextId, "cid", "v1", author.address, gov, ids, roots);
+
+      await repository.connect(repoOwner1).setLifecycle(repo1Id, RepoLifecycle.DEPRECATED, repo2Id);
+      await expect(anchor(ethers.id("r1"), [repo1Id], [root1])).to.emit(releaseRegistry, "ReleaseAnchored");
+
+      await repository.connect(repoOwner2).setLifecycle(repo2Id, RepoLifecycle.ARCHIVED, ethers.ZeroHash);
+      await expect(anchor(ethers.id("r2"), [repo1Id, repo2Id], [root1, root2])).to.be.revertedWith(
+        "repo not writable",
+      );
+    });
   });
 
   describe("governance actions", function () {
@@ -295,15 +420,53 @@ describe("CodeQuillReleaseRegistry", function () {
       );
     });
 
+    it("limits a project-restricted governance delegation to that project", async function () {
+      const { projectId, releaseId } = await anchorOneRelease();
+      await delegate(await delegation.SCOPE_GOVERN(), governance, relayer, [ethers.id("other-project")]);
+      await expect(releaseRegistry.connect(relayer).accept(releaseId)).to.be.revertedWith("not governance");
+
+      await delegate(await delegation.SCOPE_GOVERN(), governance, relayer, [projectId]);
+      await expect(releaseRegistry.connect(relayer).accept(releaseId))
+        .to.emit(releaseRegistry, "GouvernanceStatusChanged");
+    });
+
     it("allows delegated governance relayer", async function () {
       const { releaseId } = await anchorOneRelease();
-      await delegate(await delegation.SCOPE_RELEASE(), governance, relayer);
+      await delegate(await delegation.SCOPE_GOVERN(), governance, relayer);
 
       await expect(releaseRegistry.connect(relayer).accept(releaseId))
         .to.emit(releaseRegistry, "GouvernanceStatusChanged")
         .withArgs(releaseId, 1, relayer.address, anyValue);
     });
 
+    it("does not let a release-only delegate govern or configure the DAO", async function () {
+      const { releaseId } = await anchorOneRelease();
+      await delegate(await delegation.SCOPE_RELEASE(), governance, relayer);
+      await expect(releaseRegistry.connect(relayer).accept(releaseId)).to.be.revertedWith("not governance");
+
+      await delegate(await delegation.SCOPE_RELEASE(), author, relayer);
+      await expect(
+        releaseRegistry.connect(relayer).setDaoExecutor(contextId, author.address, daoExecutor.address),
+      ).to.be.revertedWith("not authorized");
+    });
+
+    it("records the forwarded signer as status author when governance acts through the forwarder", async function () {
+      const { releaseId } = await anchorOneRelease();
+
+      const request = await signForwardRequest({
+        ethers,
+        forwarder,
+        signer: governance,
+        target: releaseRegistry,
+        data: releaseRegistry.interface.encodeFunctionData("accept", [releaseId]),
+        deadline: asBigInt(await time.latest()) + 3600n,
+      });
+      await expect(forwarder.connect(relayer).execute(request))
+        .to.emit(releaseRegistry, "GouvernanceStatusChanged")
+        .withArgs(releaseId, 1, governance.address, anyValue);
+      expect((await releaseRegistry.getReleaseById(releaseId)).statusAuthor).to.equal(governance.address);
+    });
+
     it("allows daoExecutor when set by a workspace member", async function () {
       const { releaseId } = await anchorOneRelease();
       await releaseRegistry.connect(author).setDaoExecutor(contextId, author.address, daoExecutor.address);
@@ -314,12 +477,19 @@ describe("CodeQuillReleaseRegistry", function () {
     });
 
     it("allows delegated relayer to set daoExecutor", async function () {
-      await delegate(await delegation.SCOPE_RELEASE(), author, relayer);
+      await delegate(await delegation.SCOPE_DAO_CONFIG(), author, relayer);
       await expect(releaseRegistry.connect(relayer).setDaoExecutor(contextId, author.address, daoExecutor.address))
         .to.emit(releaseRegistry, "DaoExecutorSet")
         .withArgs(contextId, daoExecutor.address);
     });
 
+    it("refuses a project-restricted delegation for setDaoExecutor", async function () {
+      await delegate(await delegation.SCOPE_DAO_CONFIG(), author, relayer, [ethers.id("project1")]);
+      await expect(
+        releaseRegistry.connect(relayer).setDaoExecutor(contextId, author.address, daoExecutor.address),
+      ).to.be.revertedWith("not authorized");
+    });
+
     it("reverts when setting daoExecutor by non-member", async function () {
       const signers = await ethers.getSigners();
       const nonMember = signers[5];
@@ -327,6 +497,77 @@ describe("CodeQuillReleaseRegistry", function () {
         .to.be.revertedWith("author not member");
     });
 
+    it("refuses anchoring and governance in a frozen workspace but still allows revocation", async function () {
+      const { projectId, releaseId } = await anchorOneRelease();
+      const repo1Id = ethers.encodeBytes32String("repo1");
+      const root1 = ethers.id("root1");
+      await setWorkspaceLifecycleWithSig({
+        ethers,
+        workspace,
+        authoritySigner: deployer,
+        relayerSigner: deployer,
+        domain: workspaceDomain,
+        contextId,
+        state: WorkspaceLifecycle.FROZEN,
+        deadline: asBigInt(await time.latest()) + 3600n,
+      });
+
+      await expect(
+        releaseRegistry
+          .connect(author)
+          .anchorRelease(
+            projectId,
+            ethers.id("release-frozen"),
+            contextId,
+            "cid",
+            "v2",
+            author.address,
+            governance.address,
+            [repo1Id],
+            [root1],
+          ),
+      ).to.be.revertedWith("context not active");
+      await expect(releaseRegistry.connect(governance).accept(releaseId)).to.be.revertedWith(
+        "context not active",
+      );
+      await expect(
+        releaseRegistry.connect(author).setDaoExecutor(contextId, author.address, daoExecutor.address),
+      ).to.be.revertedWith("context not active");
+
+      await expect(releaseRegistry.connect(author).revokeRelease(projectId, releaseId, author.address))
+        .to.emit(releaseRegistry, "ReleaseRevoked");
+      expect((await releaseRegistry.getReleaseById(releaseId)).revoked).to.equal(true);
+    });
+
+    it("refuses a governance authority that has lost ROLE_GOVERNOR since anchoring", async function () {
+      const { releaseId } = await anchorOneRelease();
+      await delegate(await delegation.SCOPE_GOVERN(), governance, relayer);
+      await setWorkspaceRolesWithSig({
+        ethers,
+        workspace,
+        authoritySigner: deployer,
+        relayerSigner: deployer,
+        domain: workspaceDomain,
+        contextId,
+        member: governance.address,
+        roles: await workspace.ROLE_RELEASER(),
+        deadline: asBigInt(await time.latest()) + 3600n,
+      });
+
+      await expect(releaseRegistry.connect(governance).accept(releaseId)).to.be.revertedWith(
+        "governance not governor",
+      );
+      await expect(releaseRegistry.connect(relayer).reject(releaseId)).to.be.revertedWith(
+        "governance not governor",
+      );
+
+      // The DAO executor still decides
+      await releaseRegistry.connect(author).setDaoExecutor(contextId, author.address, daoExecutor.address);
+      await expect(releaseRegistry.connect(daoExecutor).accept(releaseId))
+        .to.emit(releaseRegistry, "GouvernanceStatusChanged")
+        .withArgs(releaseId, 1, daoExecutor.address, anyValue);
+    });
+
     it("reverts for non-governance callers", async function () {
       const { releaseId } = await anchorOneRelease();
       await expect(releaseRegistry.connect(other).accept(releaseId)).to.be.revertedWith(
@@ -404,11 +645,55 @@ describe("CodeQuillReleaseRegistry", function () {
       expect(r.supersededBy).to.equal(release2Id);
 
       // delegated revoke
-      await delegate(await delegation.SCOPE_RELEASE(), author, relayer);
+      await delegate(await delegation.SCOPE_REVOKE(), author, relayer);
       await expect(releaseRegistry.connect(relayer).revokeRelease(projectId, release2Id, author.address))
         .to.emit(releaseRegistry, "ReleaseRevoked")
         .withArgs(projectId, release2Id, author.address, anyValue);
     });
+
+    it("lets an author removed from the workspace still revoke and supersede its releases", async function () {
+      const { repo1Id, root1 } = await setupTwoReposAndSnapshots();
+      const projectId = ethers.id("project-demoted");
+      const release1Id = ethers.id("d1");
+      const release2Id = ethers.id("d2");
+      for (const releaseId of [release1Id, release2Id]) {
+        await releaseRegistry
+          .connect(author)
+          .anchorRelease(
+            projectId,
+            releaseId,
+            contextId,
+            "cid",
+            "v",
+            author.address,
+            governance.address,
+            [repo1Id],
+            [root1],
+          );
+      }
+
+      await setWorkspaceMemberWithSig({
+        ethers,
+        workspace,
+        authoritySigner: deployer,
+        relayerSigner: deployer,
+        domain: workspaceDomain,
+        contextId,
+        member: author.address,
+        memberStatus: false,
+        deadline: asBigInt(await time.latest()) + 3600n,
+      });
+      expect(await workspace.isMember(contextId, author.address)).to.equal(false);
+
+      await expect(releaseRegistry.connect(author).revokeRelease(projectId, release1Id, author.address))
+        .to.emit(releaseRegistry, "ReleaseRevoked")
+        .withArgs(projectId, release1Id, author.address, anyValue);
+      await expect(
+        releaseRegistry.connect(author).supersedeRelease(projectId, release1Id, release2Id, author.address),
+      )
+        .to.emit(releaseRegistry, "ReleaseSuperseded")
+        .withArgs(projectId, release1Id, release2Id, author.address, anyValue);
+    });
   });
 
   describe("views", function () {
@@ -2,11 +2,16 @@ import { expect } from "chai";
 import { anyValue } from "@nomicfoundation/hardhat-ethers-chai-matchers/withArgs";
 import {
   asBigInt,
+  createSnapshotTypes,
   delegationTypes,
   getEip712Domain,
   getWorkspaceEip712Domain,
+  RepoLifecycle,
+  setWorkspaceLifecycleWithSig,
   setWorkspaceMemberWithSig,
   setupCodeQuill,
+  UNORDERED_NONCE_FLAG,
+  WorkspaceLifecycle,
 } from "./utils";
 
 describe("CodeQuillSnapshotRegistry", function () {
@@ -119,23 +124,30 @@ describe("CodeQuillSnapshotRegistry", function () {
         relayer: relayer.address,
         contextId,
         scopes,
+        resources: [],
+        maxUses: 0n,
+        quota: 0n,
+        period: 0n,
+        epoch: await delegation.epochOf(repoOwner.address),
         nonce,
         expiry,
         deadline,
       };
 
       const signature = await repoOwner.signTypedData(domain, delegationTypes, value);
-      const { v, r, s } = ethers.Signature.from(signature);
       await delegation.registerDelegationWithSig(
         repoOwner.address,
         relayer.address,
         contextId,
         scopes,
+        [],
+        0n,
+        0n,
+        0n,
         expiry,
+        nonce,
         deadline,
-        v,
-        r,
-        s,
+        signature,
       );
 
       await expect(
@@ -163,6 +175,121 @@ describe("CodeQuillSnapshotRegistry", function () {
         );
     });
 
+    it("limits a repo-restricted delegation to the listed repos", async function () {
+      const repoId = ethers.encodeBytes32String(repoIdLabel);
+      const otherRepoId = ethers.encodeBytes32String("other-repo");
+      await repository.connect(repoOwner).claimRepo(otherRepoId, contextId, "meta", repoOwner.address);
+
+      const now = asBigInt(await time.latest());
+      const expiry = now + 3600n;
+      const deadline = now + 7200n;
+      const scopes = await delegation.SCOPE_SNAPSHOT();
+      const resources = [repoId];
+      const nonce = await delegation.nonces(repoOwner.address);
+      const value = {
+        owner: repoOwner.address,
+        relayer: relayer.address,
+        contextId,
+        scopes,
+        resources,
+        maxUses: 0n,
+        quota: 0n,
+        period: 0n,
+        epoch: await delegation.epochOf(repoOwner.address),
+        nonce,
+        expiry,
+        deadline,
+      };
+
+      const signature = await repoOwner.signTypedData(domain, delegationTypes, value);
+      await delegation.registerDelegationWithSig(
+        repoOwner.address,
+        relayer.address,
+        contextId,
+        scopes,
+        resources,
+        0n,
+        0n,
+        0n,
+        expiry,
+        nonce,
+        deadline,
+        signature,
+      );
+
+      await expect(
+        snapshotRegistry
+          .connect(relayer)
+          .createSnapshot(repoId, contextId, ethers.id("c1"), ethers.id("r1"), "cid", repoOwner.address),
+      ).to.emit(snapshotRegistry, "SnapshotCreated");
+
+      await expect(
+        snapshotRegistry
+          .connect(relayer)
+          .createSnapshot(otherRepoId, contextId, ethers.id("c2"), ethers.id("r2"), "cid", repoOwner.address),
+      ).to.be.revertedWith("not authorized");
+    });
+
+    it("counts relayed snapshots against the delegation's use limit", async function () {
+      const repoId = ethers.encodeBytes32String(repoIdLabel);
+      const now = asBigInt(await time.latest());
+      const expiry = now + 3600n;
+      const deadline = now + 7200n;
+      const scopes = await delegation.SCOPE_SNAPSHOT();
+      const nonce = await delegation.nonces(repoOwner.address);
+      const value = {
+        owner: repoOwner.address,
+        relayer: relayer.address,
+        contextId,
+        scopes,
+        resources: [],
+        maxUses: 1n,
+        quota: 0n,
+        period: 0n,
+        epoch: await delegation.epochOf(repoOwner.address),
+        nonce,
+        expiry,
+        deadline,
+      };
+
+      const signature = await repoOwner.signTypedData(domain, delegationTypes, value);
+      await delegation.registerDelegationWithSig(
+        repoOwner.address,
+        relayer.address,
+        contextId,
+        scopes,
+        [],
+        1n,
+        0n,
+        0n,
+        expiry,
+        nonce,
+        deadline,
+        signature,
+      );
+
+      await expect(
+        snapshotRegistry
+          .connect(relayer)
+          .createSnapshot(repoId, contextId, ethers.id("c1"), ethers.id("r1"), "cid", repoOwner.address),
+      )
+        .to.emit(delegation, "DelegationUsed")
+        .withArgs(repoOwner.address, relayer.address, contextId, 0n, 2n ** 256n - 1n);
+
+      await expect(
+        snapshotRegistry
+          .connect(relayer)
+          .createSnapshot(repoId, contextId, ethers.id("c2"), ethers.id("r2"), "cid", repoOwner.address),
+      ).to.be.revertedWith("not authorized");
+
+      // The owner itself is never limited
+      await expect(
+        snapshotRegistry
+          .connect(repoOwner)
+          .createSnapshot(repoId, contextId, ethers.id("c3"), ethers.id("r3"), "cid", repoOwner.address),
+      ).to.emit(snapshotRegistry, "SnapshotCreated");
+    });
+
     it("reverts when caller is not authorized", async function () {
       const repoId = ethers.encodeBytes32String(repoIdLabel);
       await expect(
@@ -227,6 +354,233 @@ describe("CodeQuillSnapshotRegistry", function () {
     });
   });
 
+  describe("repo lifecycle", function () {
+    it("refuses snapshots of archived or relinquished repos but keeps history verifiable", async function () {
+      const repoId = ethers.encodeBytes32String(repoIdLabel);
+      const snap = (label: string) =>
+        snapshotRegistry
+          .connect(repoOwner)
+          .createSnapshot(repoId, contextId, ethers.id(label), ethers.id(label), "cid", repoOwner.address);
+
+      await snap("before");
+      await repository.connect(repoOwner).setLifecycle(repoId, RepoLifecycle.DEPRECATED, ethers.id("next"));
+      await snap("deprecated");
+
+      await repository.connect(repoOwner).setLifecycle(repoId, RepoLifecycle.RELINQUISHED, ethers.ZeroHash);
+      await expect(snap("relinquished")).to.be.revertedWith("repo not claimed");
+
+      await repository.connect(repoOwner).claimRepo(repoId, contextId, "meta", repoOwner.address);
+      await snap("reclaimed");
+      await repository.connect(repoOwner).setLifecycle(repoId, RepoLifecycle.ARCHIVED, ethers.ZeroHash);
+      await expect(snap("archived")).to.be.revertedWith("repo not writable");
+
+      expect(await snapshotRegistry.getSnapshotsCount(repoId)).to.equal(3n);
+      const s = await snapshotRegistry.getSnapshotByRoot(repoId, ethers.id("before"));
+      expect(s.author).to.equal(repoOwner.address);
+    });
+  });
+
+  describe("repo maintainers", function () {
+    const repoId = () => ethers.encodeBytes32String(repoIdLabel);
+
+    async function snapshotBy(signer: any, label: string) {
+      return snapshotRegistry
+        .connect(signer)
+        .createSnapshot(repoId(), contextId, ethers.id(label), ethers.id(label), "cid", signer.address);
+    }
+
+    it("lets a snapshotter maintainer author snapshots of the owner's repo", async function () {
+      await setWorkspaceMemberWithSig({
+        ethers,
+        workspace,
+        authoritySigner: deployer,
+        relayerSigner: deployer,
+        domain: workspaceDomain,
+        contextId,
+        member: other.address,
+        memberStatus: true,
+        deadline: asBigInt(await time.latest()) + 3600n,
+      });
+
+      await expect(snapshotBy(other, "before")).to.be.revertedWith("author not snapshotter");
+
+      // A backup operator cannot snapshot
+      const backupOperator = await repository.ROLE_BACKUP_OPERATOR();
+      await repository.connect(repoOwner).setMaintainer(repoId(), other.address, backupOperator);
+      await expect(snapshotBy(other, "wrong-role")).to.be.revertedWith("author not snapshotter");
+
+      await repository.connect(repoOwner).setMaintainer(repoId(), other.address, await repository.ROLE_SNAPSHOTTER());
+      await expect(snapshotBy(other, "granted"))
+        .to.emit(snapshotRegistry, "SnapshotCreated")
+        .withArgs(repoId(), 0, contextId, other.address, ethers.id("granted"), ethers.id("granted"), "cid", anyValue);
+
+      // Only the author (or its delegate) may submit its snapshot
+      await expect(
+        snapshotRegistry
+          .connect(repoOwner)
+          .createSnapshot(repoId(), contextId, ethers.id("x"), ethers.id("x"), "cid", other.address),
+      ).to.be.revertedWith("not authorized");
+
+      await repository.connect(repoOwner).setMaintainer(repoId(), other.address, 0n);
+      await expect(snapshotBy(other, "removed")).to.be.revertedWith("author not snapshotter");
+    });
+
+    it("requires a co-maintainer author to be a workspace maintainer", async function () {
+      await repository.connect(repoOwner).setMaintainer(repoId(), other.address, await repository.ROLE_SNAPSHOTTER());
+      await expect(snapshotBy(other, "outsider")).to.be.revertedWith("author not member");
+    });
+  });
+
+  describe("workspace lifecycle", function () {
+    async function setLifecycle(state: number) {
+      return setWorkspaceLifecycleWithSig({
+        ethers,
+        workspace,
+        authoritySigner: deployer,
+        relayerSigner: deployer,
+        domain: workspaceDomain,
+        contextId,
+        state,
+        deadline: asBigInt(await time.latest()) + 3600n,
+      });
+    }
+
+    it("refuses snapshots while the workspace is frozen, keeps reads available", async function () {
+      const repoId = ethers.encodeBytes32String(repoIdLabel);
+      await snapshotRegistry
+        .connect(repoOwner)
+        .createSnapshot(repoId, contextId, ethers.id("c1"), ethers.id("r1"), "cid-1", repoOwner.address);
+
+      await setLifecycle(WorkspaceLifecycle.FROZEN);
+      await expect(
+        snapshotRegistry
+          .connect(repoOwner)
+          .createSnapshot(repoId, contextId, ethers.id("c2"), ethers.id("r2"), "cid-2", repoOwner.address),
+      ).to.be.revertedWith("context not active");
+      expect((await snapshotRegistry.getSnapshotByRoot(repoId, ethers.id("r1"))).manifestCid).to.equal("cid-1");
+
+      await setLifecycle(WorkspaceLifecycle.ACTIVE);
+      await snapshotRegistry
+        .connect(repoOwner)
+        .createSnapshot(repoId, contextId, ethers.id("c2"), ethers.id("r2"), "cid-2", repoOwner.address);
+    });
+  });
+
+  describe("createSnapshotWithSig", function () {
+    let snapshotDomain: any;
+    let repoId: string;
+
+    async function signSnapshot(signer: any, overrides: any = {}) {
+      const value = {
+        repoId,
+        contextId,
+        commitHash: ethers.id("commit"),
+        merkleRoot: ethers.id("root"),
+        manifestCid: "cid",
+        author: repoOwner.address,
+        nonce: await snapshotRegistry.nonces(repoOwner.address),
+        deadline: asBigInt(await time.latest()) + 3600n,
+        ...overrides,
+      };
+      const signature = await signer.signTypedData(snapshotDomain, createSnapshotTypes, value);
+      return { value, signature };
+    }
+
+    function submit(value: any, signature: string) {
+      return snapshotRegistry
+        .connect(other)
+        .createSnapshotWithSig(
+          value.repoId,
+          value.contextId,
+          value.commitHash,
+          value.merkleRoot,
+          value.manifestCid,
+          value.author,
+          value.nonce,
+          value.deadline,
+          signature,
+        );
+    }
+
+    beforeEach(async function () {
+      repoId = ethers.encodeBytes32String(repoIdLabel);
+      snapshotDomain = await getEip712Domain(
+        ethers,
+        "CodeQuillSnapshotRegistry",
+        "1",
+        await snapshotRegistry.getAddress(),
+      );
+    });
+
+    it("lets any relayer submit a snapshot signed by the repo owner", async function () {
+      const { value, signature } = await signSnapshot(repoOwner);
+
+      await expect(submit(value, signature))
+        .to.emit(snapshotRegistry, "SnapshotCreated")
+        .withArgs(repoId, 0, contextId, repoOwner.address, value.commitHash, value.merkleRoot, "cid", anyValue);
+      expect(await snapshotRegistry.nonces(repoOwner.address)).to.equal(1n);
+      expect(await delegation.getDelegationCountByOwner(repoOwner.address)).to.equal(0n);
+    });
+
+    it("rejects altered payloads, other signers and replays", async function () {
+      const { value, signature } = await signSnapshot(repoOwner);
+
+      await expect(submit({ ...value, merkleRoot: ethers.id("other-root") }, signature)).to.be.revertedWith(
+        "bad signer",
+      );
+      await expect(submit({ ...value, manifestCid: "other-cid" }, signature)).to.be.revertedWith("bad signer");
+
+      const forged = await signSnapshot(other);
+      await expect(submit(forged.value, forged.signature)).to.be.revertedWith("bad signer");
+
+      await submit(value, signature);
+      await expect(submit(value, signature)).to.be.revertedWith("bad nonce");
+    });
+
+    it("rejects expired intents and signers that are not the repo owner", async function () {
+      const expired = await signSnapshot(repoOwner, { deadline: asBigInt(await time.latest()) - 1n });
+      await expect(submit(expired.value, expired.signature)).to.be.revertedWith("sig expired");
+
+      const notOwner = await signSnapshot(other, {
+        author: other.address,
+        nonce: await snapshotRegistry.nonces(other.address),
+      });
+      await expect(submit(notOwner.value, notOwner.signature)).to.be.revertedWith("author not snapshotter");
+    });
+
+    it("accepts unordered nonces and honours cancelSignature", async function () {
+      const first = await signSnapshot(repoOwner, { nonce: UNORDERED_NONCE_FLAG | 7n });
+      const second = await signSnapshot(repoOwner, {
+        nonce: UNORDERED_NONCE_FLAG | 3n,
+        merkleRoot: ethers.id("root-2"),
+      });
+
+      await expect(snapshotRegistry.connect(repoOwner).cancelSignature(UNORDERED_NONCE_FLAG | 3n))
+        .to.emit(snapshotRegistry, "SignatureCancelled")
+        .withArgs(repoOwner.address, UNORDERED_NONCE_FLAG | 3n);
+      await expect(submit(second.value, second.signature)).to.be.revertedWith("nonce used");
+
+      await expect(submit(first.value, first.signature)).to.emit(snapshotRegistry, "SnapshotCreated");
+      await expect(submit(first.value, first.signature)).to.be.revertedWith("nonce used");
+    });
+
+    it("invalidateNonces burns a range of unordered nonces", async function () {
+      const pending = await signSnapshot(repoOwner, { nonce: UNORDERED_NONCE_FLAG | (1n << 8n) | 4n });
+      expect(await snapshotRegistry.isNonceUsed(repoOwner.address, pending.value.nonce)).to.equal(false);
+
+      await expect(snapshotRegistry.connect(repoOwner).invalidateNonces(1n, 0b11110000n))
+        .to.emit(snapshotRegistry, "NoncesInvalidated")
+        .withArgs(repoOwner.address, 1n, 0b11110000n);
+
+      expect(await snapshotRegistry.isNonceUsed(repoOwner.address, pending.value.nonce)).to.equal(true);
+      await expect(submit(pending.value, pending.signature)).to.be.revertedWith("nonce used");
+
+      // Sequential nonces are unaffected
+      const next = await signSnapshot(repoOwner);
+      await expect(submit(next.value, next.signature)).to.emit(snapshotRegistry, "SnapshotCreated");
+    });
+  });
+
   describe("views", function () {
     it("supports getSnapshot / getSnapshotByRoot and revert paths", async function () {
       const repoId = ethers.encodeBytes32String(repoIdLabel);
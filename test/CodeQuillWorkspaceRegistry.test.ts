@@ -1,11 +1,37 @@
 import { expect } from "chai";
 import {
+  approvalTypes,
   asBigInt,
+  createWorkspaceChildWithSig,
+  deployMockERC1271Wallet,
   getWorkspaceEip712Domain,
+  inviteWorkspaceMemberWithSig,
+  MockWalletMode,
   setupCodeQuill,
   setWorkspaceAuthorityWithSig,
+  setWorkspaceLifecycleWithSig,
   setWorkspaceMemberWithSig,
+  setWorkspaceMembersWithSig,
+  setWorkspaceRolesUntilWithSig,
+  setWorkspaceRolesWithSig,
+  signSortedTypedData,
+  UNORDERED_NONCE_FLAG,
+  WorkspaceLifecycle,
+  workspaceAcceptInviteTypes,
+  workspaceCancelContextSignatureTypes,
+  workspaceCancelInviteTypes,
+  workspaceCancelSignatureTypes,
+  workspaceInitAuthorityTypes,
+  workspaceInvalidateContextNoncesTypes,
+  workspaceInvalidateNoncesTypes,
+  workspaceOverrideAuthorityTypes,
   workspaceSetAuthorityTypes,
+  workspaceSetInheritanceTypes,
+  workspaceSetInviteOnlyTypes,
+  workspaceSetMemberTypes,
+  workspaceSetMembersTypes,
+  workspaceSetMetadataTypes,
+  workspaceSetSignersTypes,
 } from "./utils";
 
 describe("CodeQuillWorkspaceRegistry", function () {
@@ -80,6 +106,87 @@ describe("CodeQuillWorkspaceRegistry", function () {
     });
   });
 
+  describe("derived contexts", function () {
+    const salt = "0x2222222222222222222222222222222222222222222222222222222222222222";
+
+    it("initDerivedAuthority binds the context to the caller", async function () {
+      const derived = await workspace.deriveContextId(authority.address, salt);
+      expect(derived.slice(0, 4)).to.equal("0xff");
+
+      await expect(workspace.connect(authority).initDerivedAuthority(salt))
+        .to.emit(workspace, "AuthoritySet")
+        .withArgs(derived, authority.address);
+      expect(await workspace.isMember(derived, authority.address)).to.equal(true);
+    });
+
+    it("initAuthority refuses the derived namespace", async function () {
+      const derived = await workspace.deriveContextId(authority.address, salt);
+      await expect(
+        workspace.connect(relayer).initAuthority(derived, relayer.address),
+      ).to.be.revertedWith("derived context");
+    });
+
+    it("a front-runner copying the bootstrap cannot capture the context", async function () {
+      const derived = await workspace.deriveContextId(authority.address, salt);
+
+      // Attacker replays the pending call from their own wallet: lands in their own namespace.
+      await workspace.connect(relayer).initDerivedAuthority(salt);
+      expect(await workspace.authorityOf(derived)).to.equal(ethers.ZeroAddress);
+
+      await workspace.connect(authority).initDerivedAuthority(salt);
+      expect(await workspace.authorityOf(derived)).to.equal(authority.address);
+    });
+
+    it("reverts if the derived context is already initialized", async function () {
+      await workspace.connect(authority).initDerivedAuthority(salt);
+      await expect(
+        workspace.connect(authority).initDerivedAuthority(salt),
+      ).to.be.revertedWith("authority already set");
+    });
+
+    it("initAuthorityWithSig lets a relayer bootstrap for the authority", async function () {
+      const derived = await workspace.deriveContextId(authority.address, salt);
+      const deadline = (await time.latest()) + 3600;
+      const value = { contextId: derived, authority: authority.address, nonce: 0n, deadline };
+      const signature = await authority.signTypedData(domain, workspaceInitAuthorityTypes, value);
+
+      await expect(
+        workspace
+          .connect(relayer)
+          .initAuthorityWithSig(salt, authority.address, value.nonce, deadline, signature),
+      )
+        .to.emit(workspace, "AuthoritySet")
+        .withArgs(derived, authority.address);
+
+      expect(await workspace.authorityOf(derived)).to.equal(authority.address);
+      expect(await workspace.nonces(authority.address)).to.equal(1n);
+    });
+
+    it("initAuthorityWithSig rejects other signers and expired deadlines", async function () {
+      const derived = await workspace.deriveContextId(authority.address, salt);
+      const deadline = (await time.latest()) + 3600;
+      const value = { contextId: derived, authority: authority.address, nonce: 0n, deadline };
+
+      const bad = await relayer.signTypedData(domain, workspaceInitAuthorityTypes, value);
+      await expect(
+        workspace
+          .connect(relayer)
+          .initAuthorityWithSig(salt, authority.address, value.nonce, deadline, bad),
+      ).to.be.revertedWith("bad signer");
+
+      const past = (await time.latest()) - 1;
+      const expired = await authority.signTypedData(domain, workspaceInitAuthorityTypes, {
+        ...value,
+        deadline: past,
+      });
+      await expect(
+        workspace
+          .connect(relayer)
+          .initAuthorityWithSig(salt, authority.address, value.nonce, past, expired),
+      ).to.be.revertedWith("sig expired");
+    });
+  });
+
   describe("setAuthorityWithSig", function () {
     beforeEach(async function () {
       await workspace.connect(deployer).initAuthority(contextId, authority.address);
@@ -162,14 +269,13 @@ describe("CodeQuillWorkspaceRegistry", function () {
         deadline,
       };
       const signature = await authority.signTypedData(domain, workspaceSetAuthorityTypes, value);
-      const { v, r, s } = ethers.Signature.from(signature);
 
       await workspace
         .connect(relayer)
-        .setAuthorityWithSig(contextId, member.address, deadline, v, r, s);
+        .setAuthorityWithSig(contextId, member.address, value.nonce, deadline, signature);
 
       await expect(
-        workspace.connect(relayer).setAuthorityWithSig(contextId, member.address, deadline, v, r, s),
+        workspace.connect(relayer).setAuthorityWithSig(contextId, member.address, value.nonce, deadline, signature),
       ).to.be.revertedWith("bad signer");
     });
   });
@@ -341,26 +447,149 @@ describe("CodeQuillWorkspaceRegistry", function () {
           { name: "deadline", type: "uint256" },
         ],
       }, value);
-      const { v, r, s } = ethers.Signature.from(signature);
 
       await workspace
         .connect(relayer)
-        .setMemberWithSig(contextId, member.address, true, deadline, v, r, s);
+        .setMemberWithSig(contextId, member.address, true, value.nonce, deadline, signature);
 
       await expect(
-        workspace.connect(relayer).setMemberWithSig(contextId, member.address, true, deadline, v, r, s),
-      ).to.be.revertedWith("bad signer");
+        workspace.connect(relayer).setMemberWithSig(contextId, member.address, true, value.nonce, deadline, signature),
+      ).to.be.revertedWith("bad nonce");
     });
   });
 
-  describe("leave", function () {
+  describe("setMembersWithSig", function () {
+    let extra: any;
+
     beforeEach(async function () {
+      extra = (await ethers.getSigners())[5];
       await workspace.connect(deployer).initAuthority(contextId, authority.address);
     });
 
-    it("allows a member to self-leave", async function () {
+    it("applies a batch under one signature and one nonce", async function () {
+      const now = asBigInt(await time.latest());
+      const nonceBefore = await workspace.nonces(authority.address);
+
+      const tx = await setWorkspaceMembersWithSig({
+        ethers,
+        workspace,
+        authoritySigner: authority,
+        relayerSigner: relayer,
+        domain,
+        contextId,
+        members: [member.address, relayer.address, extra.address],
+        statuses: [true, true, true],
+        deadline: now + 3600n,
+      });
+
+      await expect(tx).to.emit(workspace, "MemberSet").withArgs(contextId, member.address, true);
+      await expect(tx).to.emit(workspace, "MemberSet").withArgs(contextId, relayer.address, true);
+      await expect(tx).to.emit(workspace, "MemberSet").withArgs(contextId, extra.address, true);
+
+      expect(await workspace.getMemberCount(contextId)).to.equal(4n);
+      expect(await workspace.nonces(authority.address)).to.equal(nonceBefore + 1n);
+    });
+
+    it("mixes additions and removals", async function () {
+      const now = asBigInt(await time.latest());
+
+      await setWorkspaceMembersWithSig({
+        ethers,
+        workspace,
+        authoritySigner: authority,
+        relayerSigner: relayer,
+        domain,
+        contextId,
+        members: [member.address, extra.address],
+        statuses: [true, true],
+        deadline: now + 3600n,
+      });
+
+      await setWorkspaceMembersWithSig({
+        ethers,
+        workspace,
+        authoritySigner: authority,
+        relayerSigner: relayer,
+        domain,
+        contextId,
+        members: [member.address, relayer.address],
+        statuses: [false, true],
+        deadline: now + 3600n,
+      });
+
+      expect(await workspace.isMember(contextId, member.address)).to.equal(false);
+      expect(await workspace.isMember(contextId, relayer.address)).to.equal(true);
+      expect(await workspace.isMember(contextId, extra.address)).to.equal(true);
+    });
+
+    it("reverts the whole batch when it would remove the authority", async function () {
+      const now = asBigInt(await time.latest());
+
+      await expect(
+        setWorkspaceMembersWithSig({
+          ethers,
+          workspace,
+          authoritySigner: authority,
+          relayerSigner: relayer,
+          domain,
+          contextId,
+          members: [member.address, authority.address],
+          statuses: [true, false],
+          deadline: now + 3600n,
+        }),
+      ).to.be.revertedWith("cannot remove authority");
+
+      expect(await workspace.isMember(contextId, member.address)).to.equal(false);
+    });
+
+    it("reverts on empty or mismatched arrays", async function () {
+      const now = asBigInt(await time.latest());
+      const base = {
+        ethers,
+        workspace,
+        authoritySigner: authority,
+        relayerSigner: relayer,
+        domain,
+        contextId,
+        deadline: now + 3600n,
+      };
+
+      await expect(
+        setWorkspaceMembersWithSig({ ...base, members: [], statuses: [] }),
+      ).to.be.revertedWith("empty batch");
+      await expect(
+        setWorkspaceMembersWithSig({ ...base, members: [member.address], statuses: [true, false] }),
+      ).to.be.revertedWith("length mismatch");
+    });
+
+    it("rejects a batch that differs from the signed arrays", async function () {
       const now = asBigInt(await time.latest());
       const deadline = now + 3600n;
+      const value = {
+        contextId,
+        members: [member.address],
+        statuses: [true],
+        nonce: await workspace.nonces(authority.address),
+        deadline,
+      };
+
+      const signature = await authority.signTypedData(domain, workspaceSetMembersTypes, value);
+
+      await expect(
+        workspace
+          .connect(relayer)
+          .setMembersWithSig(contextId, [member.address, relayer.address], [true, true], value.nonce, deadline, signature),
+      ).to.be.revertedWith("bad signer");
+    });
+  });
+
+  describe("setRolesWithSig", function () {
+    beforeEach(async function () {
+      await workspace.connect(deployer).initAuthority(contextId, authority.address);
+    });
+
+    it("grants the authority ROLE_ALL and full members every role", async function () {
+      const now = asBigInt(await time.latest());
 
       await setWorkspaceMemberWithSig({
         ethers,
@@ -371,26 +600,1430 @@ describe("CodeQuillWorkspaceRegistry", function () {
         contextId,
         member: member.address,
         memberStatus: true,
-        deadline,
+        deadline: now + 3600n,
       });
 
-      await expect(workspace.connect(member).leave(contextId))
+      expect(await workspace.rolesOf(contextId, authority.address)).to.equal(await workspace.ROLE_ALL());
+      expect(await workspace.hasRole(contextId, member.address, await workspace.ROLE_GOVERNOR())).to.equal(true);
+      expect(await workspace.hasRole(contextId, member.address, await workspace.ROLE_AUDITOR())).to.equal(true);
+    });
+
+    it("sets a roles bitmask and adds the wallet as a member", async function () {
+      const now = asBigInt(await time.latest());
+      const roles = (await workspace.ROLE_MAINTAINER()) | (await workspace.ROLE_ATTESTOR());
+      const nonceBefore = await workspace.nonces(authority.address);
+
+      const tx = await setWorkspaceRolesWithSig({
+        ethers,
+        workspace,
+        authoritySigner: authority,
+        relayerSigner: relayer,
+        domain,
+        contextId,
+        member: member.address,
+        roles,
+        deadline: now + 3600n,
+      });
+
+      await expect(tx).to.emit(workspace, "RolesSet").withArgs(contextId, member.address, roles);
+      await expect(tx).to.emit(workspace, "MemberSet").withArgs(contextId, member.address, true);
+
+      expect(await workspace.isMember(contextId, member.address)).to.equal(true);
+      expect(await workspace.rolesOf(contextId, member.address)).to.equal(roles);
+      expect(await workspace.hasRole(contextId, member.address, await workspace.ROLE_MAINTAINER())).to.equal(true);
+      expect(await workspace.hasRole(contextId, member.address, await workspace.ROLE_RELEASER())).to.equal(false);
+      expect(await workspace.nonces(authority.address)).to.equal(nonceBefore + 1n);
+    });
+
+    it("does not emit MemberSet when only the roles of an existing member change", async function () {
+      const now = asBigInt(await time.latest());
+
+      await setWorkspaceRolesWithSig({
+        ethers,
+        workspace,
+        authoritySigner: authority,
+        relayerSigner: relayer,
+        domain,
+        contextId,
+        member: member.address,
+        roles: await workspace.ROLE_AUDITOR(),
+        deadline: now + 3600n,
+      });
+
+      await expect(
+        setWorkspaceRolesWithSig({
+          ethers,
+          workspace,
+          authoritySigner: authority,
+          relayerSigner: relayer,
+          domain,
+          contextId,
+          member: member.address,
+          roles: await workspace.ROLE_RELEASER(),
+          deadline: now + 3600n,
+        }),
+      ).to.not.emit(workspace, "MemberSet");
+    });
+
+    it("removes a member when roles are cleared", async function () {
+      const now = asBigInt(await time.latest());
+
+      await setWorkspaceRolesWithSig({
+        ethers,
+        workspace,
+        authoritySigner: authority,
+        relayerSigner: relayer,
+        domain,
+        contextId,
+        member: member.address,
+        roles: await workspace.ROLE_RELEASER(),
+        deadline: now + 3600n,
+      });
+
+      await expect(
+        setWorkspaceRolesWithSig({
+          ethers,
+          workspace,
+          authoritySigner: authority,
+          relayerSigner: relayer,
+          domain,
+          contextId,
+          member: member.address,
+          roles: 0n,
+          deadline: now + 3600n,
+        }),
+      )
         .to.emit(workspace, "MemberSet")
         .withArgs(contextId, member.address, false);
 
       expect(await workspace.isMember(contextId, member.address)).to.equal(false);
     });
 
-    it("reverts if authority tries to leave", async function () {
-      await expect(workspace.connect(authority).leave(contextId)).to.be.revertedWith(
-        "authority cannot leave",
-      );
+    it("prevents clearing the roles of the authority", async function () {
+      const now = asBigInt(await time.latest());
+
+      await expect(
+        setWorkspaceRolesWithSig({
+          ethers,
+          workspace,
+          authoritySigner: authority,
+          relayerSigner: relayer,
+          domain,
+          contextId,
+          member: authority.address,
+          roles: 0n,
+          deadline: now + 3600n,
+        }),
+      ).to.be.revertedWith("cannot remove authority");
     });
 
-    it("reverts on zero context", async function () {
-      await expect(workspace.connect(member).leave(ethers.ZeroHash)).to.be.revertedWith(
-        "zero context",
-      );
+    it("reverts on bad signer", async function () {
+      const now = asBigInt(await time.latest());
+
+      await expect(
+        setWorkspaceRolesWithSig({
+          ethers,
+          workspace,
+          authoritySigner: member,
+          relayerSigner: relayer,
+          domain,
+          contextId,
+          member: member.address,
+          roles: await workspace.ROLE_MAINTAINER(),
+          deadline: now + 3600n,
+        }),
+      ).to.be.revertedWith("bad signer");
+    });
+  });
+
+  describe("setRolesUntilWithSig", function () {
+    beforeEach(async function () {
+      await workspace.connect(deployer).initAuthority(contextId, authority.address);
+    });
+
+    it("grants roles that lapse after validUntil", async function () {
+      const now = asBigInt(await time.latest());
+      const validUntil = now + 1000n;
+      const roles = await workspace.ROLE_AUDITOR();
+
+      const tx = await setWorkspaceRolesUntilWithSig({
+        ethers,
+        workspace,
+        authoritySigner: authority,
+        relayerSigner: relayer,
+        domain,
+        contextId,
+        member: member.address,
+        roles,
+        validUntil,
+        deadline: now + 3600n,
+      });
+
+      await expect(tx).to.emit(workspace, "MemberExpirySet").withArgs(contextId, member.address, validUntil);
+      await expect(tx).to.emit(workspace, "MemberSet").withArgs(contextId, member.address, true);
+
+      expect(await workspace.memberValidUntil(contextId, member.address)).to.equal(validUntil);
+      expect(await workspace.isMember(contextId, member.address)).to.equal(true);
+      expect(await workspace.hasRole(contextId, member.address, roles)).to.equal(true);
+
+      await time.increaseTo(validUntil + 1n);
+
+      expect(await workspace.isMember(contextId, member.address)).to.equal(false);
+      expect(await workspace.hasRole(contextId, member.address, roles)).to.equal(false);
+    });
+
+    it("makes the membership permanent again when set without expiry", async function () {
+      const now = asBigInt(await time.latest());
+      const validUntil = now + 1000n;
+
+      await setWorkspaceRolesUntilWithSig({
+        ethers,
+        workspace,
+        authoritySigner: authority,
+        relayerSigner: relayer,
+        domain,
+        contextId,
+        member: member.address,
+        roles: await workspace.ROLE_AUDITOR(),
+        validUntil,
+        deadline: now + 3600n,
+      });
+
+      await expect(
+        setWorkspaceMemberWithSig({
+          ethers,
+          workspace,
+          authoritySigner: authority,
+          relayerSigner: relayer,
+          domain,
+          contextId,
+          member: member.address,
+          memberStatus: true,
+          deadline: now + 3600n,
+        }),
+      )
+        .to.emit(workspace, "MemberExpirySet")
+        .withArgs(contextId, member.address, 0n);
+
+      await time.increaseTo(validUntil + 1n);
+      expect(await workspace.isMember(contextId, member.address)).to.equal(true);
+    });
+
+    it("reverts for the authority, zero roles or a past validUntil", async function () {
+      const now = asBigInt(await time.latest());
+      const base = {
+        ethers,
+        workspace,
+        authoritySigner: authority,
+        relayerSigner: relayer,
+        domain,
+        contextId,
+        deadline: now + 3600n,
+      };
+
+      await expect(
+        setWorkspaceRolesUntilWithSig({
+          ...base,
+          member: authority.address,
+          roles: await workspace.ROLE_AUDITOR(),
+          validUntil: now + 1000n,
+        }),
+      ).to.be.revertedWith("authority cannot expire");
+
+      await expect(
+        setWorkspaceRolesUntilWithSig({
+          ...base,
+          member: member.address,
+          roles: 0n,
+          validUntil: now + 1000n,
+        }),
+      ).to.be.revertedWith("zero roles");
+
+      await expect(
+        setWorkspaceRolesUntilWithSig({
+          ...base,
+          member: member.address,
+          roles: await workspace.ROLE_AUDITOR(),
+          validUntil: now,
+        }),
+      ).to.be.revertedWith("bad validUntil");
+    });
+  });
+
+  describe("invitations", function () {
+    let roles: bigint;
+
+    async function invite(expiry?: bigint) {
+      const now = asBigInt(await time.latest());
+      return inviteWorkspaceMemberWithSig({
+        ethers,
+        workspace,
+        authoritySigner: authority,
+        relayerSigner: relayer,
+        domain,
+        contextId,
+        member: member.address,
+        roles,
+        expiry: expiry ?? now + 1000n,
+        deadline: now + 3600n,
+      });
+    }
+
+    async function setInviteOnly(enabled: boolean) {
+      const now = asBigInt(await time.latest());
+      const deadline = now + 3600n;
+      const value = {
+        contextId,
+        enabled,
+        nonce: await workspace.nonces(authority.address),
+        deadline,
+      };
+
+      const signature = await authority.signTypedData(domain, workspaceSetInviteOnlyTypes, value);
+      return workspace.connect(relayer).setInviteOnlyWithSig(contextId, enabled, value.nonce, deadline, signature);
+    }
+
+    beforeEach(async function () {
+      await workspace.connect(deployer).initAuthority(contextId, authority.address);
+      roles = asBigInt((await workspace.ROLE_MAINTAINER()) | (await workspace.ROLE_RELEASER()));
+    });
+
+    it("records a pending invite without making the wallet a member", async function () {
+      const now = asBigInt(await time.latest());
+      const expiry = now + 1000n;
+
+      await expect(invite(expiry))
+        .to.emit(workspace, "InviteCreated")
+        .withArgs(contextId, member.address, roles, expiry);
+
+      const pending = await workspace.invites(contextId, member.address);
+      expect(pending.roles).to.equal(roles);
+      expect(pending.expiry).to.equal(expiry);
+      expect(await workspace.getInvitees(contextId)).to.deep.equal([member.address]);
+      expect(await workspace.isMember(contextId, member.address)).to.equal(false);
+    });
+
+    it("lets the invitee accept and grants the invited roles", async function () {
+      await invite();
+
+      const tx = await workspace.connect(member).acceptInvite(contextId);
+      await expect(tx).to.emit(workspace, "InviteAccepted").withArgs(contextId, member.address, roles);
+      await expect(tx).to.emit(workspace, "MemberSet").withArgs(contextId, member.address, true);
+
+      expect(await workspace.rolesOf(contextId, member.address)).to.equal(roles);
+      expect(await workspace.getInvitees(contextId)).to.deep.equal([]);
+      expect((await workspace.invites(contextId, member.address)).roles).to.equal(0n);
+    });
+
+    it("lets a relayer complete acceptance with the invitee's countersignature", async function () {
+      await invite();
+      const now = asBigInt(await time.latest());
+      const deadline = now + 3600n;
+      const value = {
+        contextId,
+        member: member.address,
+        nonce: await workspace.nonces(member.address),
+        deadline,
+      };
+
+      const forged = await relayer.signTypedData(domain, workspaceAcceptInviteTypes, value);
+      await expect(
+        workspace.connect(relayer).acceptInviteWithSig(contextId, member.address, value.nonce, deadline, forged),
+      ).to.be.revertedWith("bad signer");
+
+      const signature = await member.signTypedData(domain, workspaceAcceptInviteTypes, value);
+      await expect(
+        workspace.connect(relayer).acceptInviteWithSig(contextId, member.address, value.nonce, deadline, signature),
+      )
+        .to.emit(workspace, "InviteAccepted")
+        .withArgs(contextId, member.address, roles);
+
+      expect(await workspace.isMember(contextId, member.address)).to.equal(true);
+    });
+
+    it("does not let an older invite overwrite roles granted after it", async function () {
+      await invite();
+      const now = asBigInt(await time.latest());
+      const granted = asBigInt(await workspace.ROLE_AUDITOR());
+      const validUntil = now + 500n;
+      await setWorkspaceRolesUntilWithSig({
+        ethers,
+        workspace,
+        authoritySigner: authority,
+        relayerSigner: relayer,
+        domain,
+        contextId,
+        member: member.address,
+        roles: granted,
+        validUntil,
+        deadline: now + 3600n,
+      });
+
+      await expect(workspace.connect(member).acceptInvite(contextId)).to.be.revertedWith("already member");
+      expect(await workspace.rolesOf(contextId, member.address)).to.equal(granted);
+      expect(await workspace.memberValidUntil(contextId, member.address)).to.equal(validUntil);
+    });
+
+    it("reverts when accepting a missing or expired invite", async function () {
+      await expect(workspace.connect(member).acceptInvite(contextId)).to.be.revertedWith("no invite");
+
+      const now = asBigInt(await time.latest());
+      await invite(now + 100n);
+      await time.increaseTo(now + 101n);
+
+      await expect(workspace.connect(member).acceptInvite(contextId)).to.be.revertedWith(
+        "invite expired",
+      );
+    });
+
+    it("lets the authority cancel and the invitee decline", async function () {
+      await invite();
+      const now = asBigInt(await time.latest());
+      const deadline = now + 3600n;
+      const value = {
+        contextId,
+        member: member.address,
+        nonce: await workspace.nonces(authority.address),
+        deadline,
+      };
+
+      const signature = await authority.signTypedData(domain, workspaceCancelInviteTypes, value);
+      await expect(
+        workspace.connect(relayer).cancelInviteWithSig(contextId, member.address, value.nonce, deadline, signature),
+      )
+        .to.emit(workspace, "InviteCancelled")
+        .withArgs(contextId, member.address);
+
+      await expect(workspace.connect(member).acceptInvite(contextId)).to.be.revertedWith("no invite");
+
+      await invite();
+      await expect(workspace.connect(member).declineInvite(contextId))
+        .to.emit(workspace, "InviteCancelled")
+        .withArgs(contextId, member.address);
+      expect(await workspace.getInvitees(contextId)).to.deep.equal([]);
+    });
+
+    it("refuses to invite an existing member", async function () {
+      await expect(
+        inviteWorkspaceMemberWithSig({
+          ethers,
+          workspace,
+          authoritySigner: authority,
+          relayerSigner: relayer,
+          domain,
+          contextId,
+          member: authority.address,
+          roles,
+          expiry: asBigInt(await time.latest()) + 1000n,
+          deadline: asBigInt(await time.latest()) + 3600n,
+        }),
+      ).to.be.revertedWith("already member");
+    });
+
+    it("disables direct additions in invite-only contexts", async function () {
+      await expect(setInviteOnly(true))
+        .to.emit(workspace, "InviteOnlySet")
+        .withArgs(contextId, true);
+
+      const now = asBigInt(await time.latest());
+      await expect(
+        setWorkspaceMemberWithSig({
+          ethers,
+          workspace,
+          authoritySigner: authority,
+          relayerSigner: relayer,
+          domain,
+          contextId,
+          member: member.address,
+          memberStatus: true,
+          deadline: now + 3600n,
+        }),
+      ).to.be.revertedWith("invite only");
+
+      await invite();
+      await workspace.connect(member).acceptInvite(contextId);
+
+      // Existing members can still be managed directly
+      await expect(
+        setWorkspaceRolesWithSig({
+          ethers,
+          workspace,
+          authoritySigner: authority,
+          relayerSigner: relayer,
+          domain,
+          contextId,
+          member: member.address,
+          roles: 0n,
+          deadline: now + 3600n,
+        }),
+      )
+        .to.emit(workspace, "MemberSet")
+        .withArgs(contextId, member.address, false);
+    });
+  });
+
+  describe("leave", function () {
+    beforeEach(async function () {
+      await workspace.connect(deployer).initAuthority(contextId, authority.address);
+    });
+
+    it("allows a member to self-leave", async function () {
+      const now = asBigInt(await time.latest());
+      const deadline = now + 3600n;
+
+      await setWorkspaceMemberWithSig({
+        ethers,
+        workspace,
+        authoritySigner: authority,
+        relayerSigner: relayer,
+        domain,
+        contextId,
+        member: member.address,
+        memberStatus: true,
+        deadline,
+      });
+
+      await expect(workspace.connect(member).leave(contextId))
+        .to.emit(workspace, "MemberSet")
+        .withArgs(contextId, member.address, false);
+
+      expect(await workspace.isMember(contextId, member.address)).to.equal(false);
+    });
+
+    it("reverts if authority tries to leave", async function () {
+      await expect(workspace.connect(authority).leave(contextId)).to.be.revertedWith(
+        "authority cannot leave",
+      );
+    });
+
+    it("reverts on zero context", async function () {
+      await expect(workspace.connect(member).leave(ethers.ZeroHash)).to.be.revertedWith(
+        "zero context",
+      );
+    });
+  });
+
+  describe("member enumeration", function () {
+    const otherContextId = "0x2222222222222222222222222222222222222222222222222222222222222222";
+
+    async function addMember(ctx: string, wallet: string) {
+      const now = asBigInt(await time.latest());
+      await setWorkspaceMemberWithSig({
+        ethers,
+        workspace,
+        authoritySigner: authority,
+        relayerSigner: relayer,
+        domain,
+        contextId: ctx,
+        member: wallet,
+        memberStatus: true,
+        deadline: now + 3600n,
+      });
+    }
+
+    beforeEach(async function () {
+      await workspace.connect(deployer).initAuthority(contextId, authority.address);
+    });
+
+    it("lists the authority after initAuthority", async function () {
+      expect(await workspace.getMemberCount(contextId)).to.equal(1n);
+      expect(await workspace.getMembers(contextId, 0, 10)).to.deep.equal([authority.address]);
+      expect(await workspace.getContextsOf(authority.address)).to.deep.equal([contextId]);
+    });
+
+    it("paginates members", async function () {
+      await addMember(contextId, member.address);
+      await addMember(contextId, relayer.address);
+
+      expect(await workspace.getMemberCount(contextId)).to.equal(3n);
+      expect(await workspace.getMembers(contextId, 0, 2)).to.deep.equal([
+        authority.address,
+        member.address,
+      ]);
+      expect(await workspace.getMembers(contextId, 2, 2)).to.deep.equal([relayer.address]);
+      expect(await workspace.getMembers(contextId, 3, 2)).to.deep.equal([]);
+    });
+
+    it("does not list a member twice when re-added", async function () {
+      await addMember(contextId, member.address);
+      await addMember(contextId, member.address);
+
+      expect(await workspace.getMemberCount(contextId)).to.equal(2n);
+      expect(await workspace.getContextsOf(member.address)).to.deep.equal([contextId]);
+    });
+
+    it("removes members removed by the authority from both indexes", async function () {
+      await addMember(contextId, member.address);
+      const now = asBigInt(await time.latest());
+
+      await setWorkspaceMemberWithSig({
+        ethers,
+        workspace,
+        authoritySigner: authority,
+        relayerSigner: relayer,
+        domain,
+        contextId,
+        member: member.address,
+        memberStatus: false,
+        deadline: now + 3600n,
+      });
+
+      expect(await workspace.getMembers(contextId, 0, 10)).to.deep.equal([authority.address]);
+      expect(await workspace.getContextsOf(member.address)).to.deep.equal([]);
+    });
+
+    it("removes members that leave from both indexes", async function () {
+      await addMember(contextId, member.address);
+      await workspace.connect(member).leave(contextId);
+
+      expect(await workspace.getMemberCount(contextId)).to.equal(1n);
+      expect(await workspace.getContextsOf(member.address)).to.deep.equal([]);
+    });
+
+    it("tracks the new authority after setAuthorityWithSig", async function () {
+      const now = asBigInt(await time.latest());
+
+      await setWorkspaceAuthorityWithSig({
+        ethers,
+        workspace,
+        currentAuthoritySigner: authority,
+        relayerSigner: relayer,
+        domain,
+        contextId,
+        newAuthority: member.address,
+        deadline: now + 3600n,
+      });
+
+      expect(await workspace.getMembers(contextId, 0, 10)).to.deep.equal([
+        authority.address,
+        member.address,
+      ]);
+      expect(await workspace.getContextsOf(member.address)).to.deep.equal([contextId]);
+    });
+
+    it("lists every context a wallet belongs to", async function () {
+      await workspace.connect(deployer).initAuthority(otherContextId, authority.address);
+      await addMember(contextId, member.address);
+      await addMember(otherContextId, member.address);
+
+      expect(await workspace.getContextsOf(member.address)).to.deep.equal([
+        contextId,
+        otherContextId,
+      ]);
+
+      await workspace.connect(member).leave(contextId);
+      expect(await workspace.getContextsOf(member.address)).to.deep.equal([otherContextId]);
+    });
+  });
+
+  describe("threshold mode", function () {
+    let signerA: any;
+    let signerB: any;
+    let signerC: any;
+
+    async function enableThreshold(threshold: bigint) {
+      const now = asBigInt(await time.latest());
+      const deadline = now + 3600n;
+      const signers = [signerA.address, signerB.address, signerC.address];
+      const value = {
+        contextId,
+        signers,
+        threshold,
+        nonce: await workspace.nonces(authority.address),
+        deadline,
+      };
+
+      const signature = await authority.signTypedData(domain, workspaceSetSignersTypes, value);
+
+      return workspace
+        .connect(relayer)
+        .setSignersWithSig(contextId, signers, threshold, value.nonce, deadline, signature);
+    }
+
+    async function setMemberWithSigs(signers: any[], memberStatus: boolean) {
+      const now = asBigInt(await time.latest());
+      const deadline = now + 3600n;
+      const value = {
+        contextId,
+        member: member.address,
+        isMember: memberStatus,
+        nonce: await workspace.contextNonces(contextId),
+        deadline,
+      };
+
+      const { approvers, signatures } = await signSortedTypedData(signers, domain, workspaceSetMemberTypes, value);
+      return workspace
+        .connect(relayer)
+        .setMemberWithSigs(contextId, member.address, memberStatus, value.nonce, deadline, approvers, signatures);
+    }
+
+    beforeEach(async function () {
+      const signers = await ethers.getSigners();
+      signerA = signers[5];
+      signerB = signers[6];
+      signerC = signers[7];
+
+      await workspace.connect(deployer).initAuthority(contextId, authority.address);
+    });
+
+    it("enables threshold mode with an authority signature", async function () {
+      await expect(enableThreshold(2n))
+        .to.emit(workspace, "SignersSet")
+        .withArgs(contextId, [signerA.address, signerB.address, signerC.address], 2n);
+
+      expect(await workspace.thresholdOf(contextId)).to.equal(2n);
+      expect(await workspace.isSigner(contextId, signerB.address)).to.equal(true);
+      expect(await workspace.getSigners(contextId)).to.deep.equal([
+        signerA.address,
+        signerB.address,
+        signerC.address,
+      ]);
+    });
+
+    it("rejects invalid thresholds and duplicate signers", async function () {
+      await expect(enableThreshold(4n)).to.be.revertedWith("bad threshold");
+      await expect(enableThreshold(0n)).to.be.revertedWith("bad threshold");
+
+      const now = asBigInt(await time.latest());
+      const deadline = now + 3600n;
+      const signers = [signerA.address, signerA.address];
+      const value = {
+        contextId,
+        signers,
+        threshold: 1n,
+        nonce: await workspace.nonces(authority.address),
+        deadline,
+      };
+      const signature = await authority.signTypedData(domain, workspaceSetSignersTypes, value);
+
+      await expect(
+        workspace.connect(relayer).setSignersWithSig(contextId, signers, 1n, value.nonce, deadline, signature),
+      ).to.be.revertedWith("duplicate signer");
+    });
+
+    it("refuses single-authority signatures once enabled", async function () {
+      await enableThreshold(2n);
+      const now = asBigInt(await time.latest());
+
+      await expect(
+        setWorkspaceMemberWithSig({
+          ethers,
+          workspace,
+          authoritySigner: authority,
+          relayerSigner: relayer,
+          domain,
+          contextId,
+          member: member.address,
+          memberStatus: true,
+          deadline: now + 3600n,
+        }),
+      ).to.be.revertedWith("threshold mode");
+    });
+
+    it("adds a member with threshold signatures and consumes the context nonce", async function () {
+      await enableThreshold(2n);
+      const authorityNonce = await workspace.nonces(authority.address);
+
+      await expect(setMemberWithSigs([signerA, signerC], true))
+        .to.emit(workspace, "MemberSet")
+        .withArgs(contextId, member.address, true);
+
+      expect(await workspace.isMember(contextId, member.address)).to.equal(true);
+      expect(await workspace.contextNonces(contextId)).to.equal(1n);
+      expect(await workspace.nonces(authority.address)).to.equal(authorityNonce);
+    });
+
+    it("reverts below threshold", async function () {
+      await enableThreshold(2n);
+      await expect(setMemberWithSigs([signerA], true)).to.be.revertedWith("below threshold");
+    });
+
+    it("rejects duplicate, unsorted and unknown signers", async function () {
+      await enableThreshold(2n);
+      const now = asBigInt(await time.latest());
+      const deadline = now + 3600n;
+      const value = {
+        contextId,
+        member: member.address,
+        isMember: true,
+        nonce: await workspace.contextNonces(contextId),
+        deadline,
+      };
+
+      const {
+        approvers: [a1, a2],
+        signatures: [first, second],
+      } = await signSortedTypedData([signerA, signerB], domain, workspaceSetMemberTypes, value);
+
+      await expect(
+        workspace
+          .connect(relayer)
+          .setMemberWithSigs(contextId, member.address, true, value.nonce, deadline, [a1, a1], [first, first]),
+      ).to.be.revertedWith("unsorted signers");
+      await expect(
+        workspace
+          .connect(relayer)
+          .setMemberWithSigs(contextId, member.address, true, value.nonce, deadline, [a2, a1], [second, first]),
+      ).to.be.revertedWith("unsorted signers");
+      await expect(
+        workspace
+          .connect(relayer)
+          .setMemberWithSigs(contextId, member.address, true, value.nonce, deadline, [a1, a2], [second, first]),
+      ).to.be.revertedWith("bad signer");
+      await expect(
+        workspace
+          .connect(relayer)
+          .setMemberWithSigs(contextId, member.address, true, value.nonce, deadline, [a1, a2], [first]),
+      ).to.be.revertedWith("length mismatch");
+
+      const outsider = await signSortedTypedData([relayer, signerA], domain, workspaceSetMemberTypes, value);
+      await expect(
+        workspace
+          .connect(relayer)
+          .setMemberWithSigs(contextId, member.address, true, value.nonce, deadline, outsider.approvers, outsider.signatures),
+      ).to.be.revertedWith("bad signer");
+    });
+
+    it("does not accept a signature from one mode in the other", async function () {
+      const now = asBigInt(await time.latest());
+      const deadline = now + 3600n;
+      const approval = {
+        contextId,
+        member: member.address,
+        isMember: true,
+        nonce: await workspace.nonces(authority.address),
+        deadline,
+      };
+      const approvalSig = await authority.signTypedData(domain, approvalTypes(workspaceSetMemberTypes), approval);
+      await expect(
+        workspace.connect(relayer).setMemberWithSig(contextId, member.address, true, approval.nonce, deadline, approvalSig),
+      ).to.be.revertedWith("bad signer");
+
+      await enableThreshold(1n);
+      const value = { ...approval, nonce: await workspace.contextNonces(contextId) };
+      const singleSig = await signerA.signTypedData(domain, workspaceSetMemberTypes, value);
+      await expect(
+        workspace
+          .connect(relayer)
+          .setMemberWithSigs(contextId, member.address, true, value.nonce, deadline, [signerA.address], [singleSig]),
+      ).to.be.revertedWith("bad signer");
+    });
+
+    it("rejects threshold signatures in single-authority mode", async function () {
+      await expect(setMemberWithSigs([signerA, signerB], true)).to.be.revertedWith(
+        "not threshold mode",
+      );
+    });
+
+    it("changes the authority with threshold signatures", async function () {
+      await enableThreshold(2n);
+      const now = asBigInt(await time.latest());
+      const deadline = now + 3600n;
+      const value = {
+        contextId,
+        authority: member.address,
+        nonce: await workspace.contextNonces(contextId),
+        deadline,
+      };
+
+      const { approvers, signatures } = await signSortedTypedData(
+        [signerB, signerC],
+        domain,
+        workspaceSetAuthorityTypes,
+        value,
+      );
+
+      await expect(
+        workspace.connect(relayer).setAuthorityWithSigs(contextId, member.address, value.nonce, deadline, approvers, signatures),
+      )
+        .to.emit(workspace, "AuthoritySet")
+        .withArgs(contextId, member.address);
+      expect(await workspace.authorityOf(contextId)).to.equal(member.address);
+    });
+
+    it("requires threshold signatures to change the signer set, and can disable threshold mode", async function () {
+      await enableThreshold(2n);
+      const now = asBigInt(await time.latest());
+      const deadline = now + 3600n;
+      const value = {
+        contextId,
+        signers: [],
+        threshold: 0n,
+        nonce: await workspace.contextNonces(contextId),
+        deadline,
+      };
+
+      const single = await signSortedTypedData([signerA], domain, workspaceSetSignersTypes, value);
+      await expect(
+        workspace.connect(relayer).setSignersWithSigs(contextId, [], 0n, value.nonce, deadline, single.approvers, single.signatures),
+      ).to.be.revertedWith("below threshold");
+
+      const { approvers, signatures } = await signSortedTypedData(
+        [signerA, signerB],
+        domain,
+        workspaceSetSignersTypes,
+        value,
+      );
+      await workspace.connect(relayer).setSignersWithSigs(contextId, [], 0n, value.nonce, deadline, approvers, signatures);
+
+      expect(await workspace.thresholdOf(contextId)).to.equal(0n);
+      expect(await workspace.getSigners(contextId)).to.deep.equal([]);
+
+      // Back to single-authority mode
+      await expect(
+        setWorkspaceMemberWithSig({
+          ethers,
+          workspace,
+          authoritySigner: authority,
+          relayerSigner: relayer,
+          domain,
+          contextId,
+          member: member.address,
+          memberStatus: true,
+          deadline,
+        }),
+      ).to.emit(workspace, "MemberSet");
+    });
+  });
+
+  describe("ERC-1271 signers", function () {
+    let wallet: any;
+    let walletAddress: string;
+
+    // The wallet's EOA owner (authority) signs; the wallet vouches for it via isValidSignature.
+    async function addMemberAsWallet() {
+      const deadline = asBigInt(await time.latest()) + 3600n;
+      const value = {
+        contextId,
+        member: member.address,
+        isMember: true,
+        nonce: await workspace.nonces(walletAddress),
+        deadline,
+      };
+      const signature = await authority.signTypedData(domain, workspaceSetMemberTypes, value);
+
+      return workspace.connect(relayer).setMemberWithSig(contextId, member.address, true, value.nonce, deadline, signature);
+    }
+
+    beforeEach(async function () {
+      wallet = await deployMockERC1271Wallet(ethers, authority);
+      walletAddress = await wallet.getAddress();
+    });
+
+    it("accepts a contract-wallet authority", async function () {
+      await workspace.connect(deployer).initAuthority(contextId, walletAddress);
+
+      await expect(addMemberAsWallet())
+        .to.emit(workspace, "MemberSet")
+        .withArgs(contextId, member.address, true);
+      expect(await workspace.nonces(walletAddress)).to.equal(1n);
+    });
+
+    it("rejects a wallet returning the wrong magic value", async function () {
+      await workspace.connect(deployer).initAuthority(contextId, walletAddress);
+      await wallet.setMode(MockWalletMode.WRONG_MAGIC);
+
+      await expect(addMemberAsWallet()).to.be.revertedWith("bad signer");
+    });
+
+    it("rejects a reverting wallet", async function () {
+      await workspace.connect(deployer).initAuthority(contextId, walletAddress);
+      await wallet.setMode(MockWalletMode.REVERT);
+
+      await expect(addMemberAsWallet()).to.be.revertedWith("bad signer");
+    });
+
+    it("bootstraps a derived context for a contract wallet", async function () {
+      const salt = ethers.id("safe-workspace");
+      const derived = await workspace.deriveContextId(walletAddress, salt);
+      const deadline = asBigInt(await time.latest()) + 3600n;
+      const value = { contextId: derived, authority: walletAddress, nonce: 0n, deadline };
+      const signature = await authority.signTypedData(domain, workspaceInitAuthorityTypes, value);
+
+      await workspace.connect(relayer).initAuthorityWithSig(salt, walletAddress, value.nonce, deadline, signature);
+      expect(await workspace.authorityOf(derived)).to.equal(walletAddress);
+    });
+
+    it("counts a contract wallet towards the threshold", async function () {
+      const signerA = (await ethers.getSigners())[5];
+      const deadline = asBigInt(await time.latest()) + 3600n;
+      await workspace.connect(deployer).initAuthority(contextId, authority.address);
+
+      const signers = [signerA.address, walletAddress];
+      const signature = await authority.signTypedData(domain, workspaceSetSignersTypes, {
+        contextId,
+        signers,
+        threshold: 2n,
+        nonce: 0n,
+        deadline,
+      });
+      await workspace.connect(relayer).setSignersWithSig(contextId, signers, 2n, 0n, deadline, signature);
+
+      const value = {
+        contextId,
+        member: member.address,
+        isMember: true,
+        nonce: await workspace.contextNonces(contextId),
+        deadline,
+      };
+      const walletSig = await authority.signTypedData(domain, approvalTypes(workspaceSetMemberTypes), value);
+      const eoaSig = await signerA.signTypedData(domain, approvalTypes(workspaceSetMemberTypes), value);
+      const [approvers, signatures] =
+        BigInt(signerA.address) < BigInt(walletAddress)
+          ? [[signerA.address, walletAddress], [eoaSig, walletSig]]
+          : [[walletAddress, signerA.address], [walletSig, eoaSig]];
+
+      await wallet.setMode(MockWalletMode.WRONG_MAGIC);
+      await expect(
+        workspace.connect(relayer).setMemberWithSigs(contextId, member.address, true, value.nonce, deadline, approvers, signatures),
+      ).to.be.revertedWith("bad signer");
+
+      await wallet.setMode(MockWalletMode.VALID);
+      await expect(
+        workspace.connect(relayer).setMemberWithSigs(contextId, member.address, true, value.nonce, deadline, approvers, signatures),
+      )
+        .to.emit(workspace, "MemberSet")
+        .withArgs(contextId, member.address, true);
+    });
+  });
+
+  describe("nonces", function () {
+    let deadline: bigint;
+
+    async function signSetMember(wallet: string, nonce: bigint, signer: any = authority) {
+      const value = { contextId, member: wallet, isMember: true, nonce, deadline };
+      const signature = await signer.signTypedData(domain, workspaceSetMemberTypes, value);
+
+      return () =>
+        workspace.connect(relayer).setMemberWithSig(contextId, wallet, true, nonce, deadline, signature);
+    }
+
+    beforeEach(async function () {
+      deadline = asBigInt(await time.latest()) + 3600n;
+      await workspace.connect(deployer).initAuthority(contextId, authority.address);
+    });
+
+    it("accepts unordered authority nonces in any order, once each", async function () {
+      const later = await signSetMember(member.address, UNORDERED_NONCE_FLAG | 42n);
+      const earlier = await signSetMember(relayer.address, UNORDERED_NONCE_FLAG | 3n);
+
+      await expect(later()).to.emit(workspace, "MemberSet");
+      await expect(earlier()).to.emit(workspace, "MemberSet");
+      await expect(later()).to.be.revertedWith("nonce used");
+
+      expect(await workspace.isNonceUsed(authority.address, UNORDERED_NONCE_FLAG | 42n)).to.equal(true);
+      expect(await workspace.nonces(authority.address)).to.equal(0n);
+
+      // Sequential nonces keep working alongside
+      await expect((await signSetMember(deployer.address, 0n))()).to.emit(workspace, "MemberSet");
+      await expect((await signSetMember(deployer.address, 5n))()).to.be.revertedWith("bad nonce");
+    });
+
+    it("accepts unordered context nonces in threshold mode", async function () {
+      const [signerA, signerB] = (await ethers.getSigners()).slice(5, 7);
+      const signers = [signerA.address, signerB.address];
+      const signature = await authority.signTypedData(domain, workspaceSetSignersTypes, {
+        contextId,
+        signers,
+        threshold: 1n,
+        nonce: 0n,
+        deadline,
+      });
+      await workspace.connect(relayer).setSignersWithSig(contextId, signers, 1n, 0n, deadline, signature);
+
+      const nonce = UNORDERED_NONCE_FLAG | 1n;
+      const value = { contextId, member: member.address, isMember: true, nonce, deadline };
+      const { approvers, signatures } = await signSortedTypedData([signerA], domain, workspaceSetMemberTypes, value);
+
+      await expect(
+        workspace.connect(relayer).setMemberWithSigs(contextId, member.address, true, nonce, deadline, approvers, signatures),
+      ).to.emit(workspace, "MemberSet");
+      await expect(
+        workspace.connect(relayer).setMemberWithSigs(contextId, member.address, true, nonce, deadline, approvers, signatures),
+      ).to.be.revertedWith("nonce used");
+      expect(await workspace.contextNonces(contextId)).to.equal(0n);
+    });
+
+    it("cancelSignature burns a handed-out nonce", async function () {
+      const pending = await signSetMember(member.address, UNORDERED_NONCE_FLAG | 8n);
+
+      await expect(workspace.connect(authority).cancelSignature(UNORDERED_NONCE_FLAG | 8n))
+        .to.emit(workspace, "SignatureCancelled")
+        .withArgs(authority.address, UNORDERED_NONCE_FLAG | 8n);
+      await expect(pending()).to.be.revertedWith("nonce used");
+    });
+
+    it("cancelSignatureWithSig unblocks a stuck sequential nonce", async function () {
+      const stuck = await signSetMember(member.address, 0n);
+      const value = { signer: authority.address, nonce: 0n, deadline };
+
+      const forged = await relayer.signTypedData(domain, workspaceCancelSignatureTypes, value);
+      await expect(
+        workspace.connect(relayer).cancelSignatureWithSig(authority.address, 0n, deadline, forged),
+      ).to.be.revertedWith("bad signer");
+
+      const signature = await authority.signTypedData(domain, workspaceCancelSignatureTypes, value);
+      await workspace.connect(relayer).cancelSignatureWithSig(authority.address, 0n, deadline, signature);
+
+      await expect(stuck()).to.be.revertedWith("bad nonce");
+      await expect((await signSetMember(member.address, 1n))()).to.emit(workspace, "MemberSet");
+    });
+
+    it("invalidateNonces / invalidateNoncesWithSig burn unordered nonce ranges", async function () {
+      const first = await signSetMember(member.address, UNORDERED_NONCE_FLAG | 1n);
+      const second = await signSetMember(member.address, UNORDERED_NONCE_FLAG | (1n << 8n) | 1n);
+
+      await expect(workspace.connect(authority).invalidateNonces(0n, 0b10n))
+        .to.emit(workspace, "NoncesInvalidated")
+        .withArgs(authority.address, 0n, 0b10n);
+      await expect(first()).to.be.revertedWith("nonce used");
+
+      const value = { signer: authority.address, wordPos: 1n, mask: 0b10n, nonce: 0n, deadline };
+      const signature = await authority.signTypedData(domain, workspaceInvalidateNoncesTypes, value);
+      await workspace
+        .connect(relayer)
+        .invalidateNoncesWithSig(authority.address, 1n, 0b10n, 0n, deadline, signature);
+      await expect(second()).to.be.revertedWith("nonce used");
+    });
+
+    describe("context nonces", function () {
+      let signerA: any;
+      let signerB: any;
+
+      async function collectSetMember(nonce: bigint) {
+        const value = { contextId, member: member.address, isMember: true, nonce, deadline };
+        const { approvers, signatures } = await signSortedTypedData(
+          [signerA, signerB],
+          domain,
+          workspaceSetMemberTypes,
+          value,
+        );
+        return () =>
+          workspace
+            .connect(relayer)
+            .setMemberWithSigs(contextId, member.address, true, nonce, deadline, approvers, signatures);
+      }
+
+      beforeEach(async function () {
+        [signerA, signerB] = (await ethers.getSigners()).slice(5, 7);
+        const signers = [signerA.address, signerB.address];
+        const signature = await authority.signTypedData(domain, workspaceSetSignersTypes, {
+          contextId,
+          signers,
+          threshold: 2n,
+          nonce: 0n,
+          deadline,
+        });
+        await workspace.connect(relayer).setSignersWithSig(contextId, signers, 2n, 0n, deadline, signature);
+      });
+
+      it("cancelContextSignatureWithSigs burns a context nonce with threshold signatures", async function () {
+        const pending = await collectSetMember(0n);
+        const value = { contextId, nonce: 0n, deadline };
+
+        const lone = await signSortedTypedData([signerA], domain, workspaceCancelContextSignatureTypes, value);
+        await expect(
+          workspace
+            .connect(relayer)
+            .cancelContextSignatureWithSigs(contextId, 0n, deadline, lone.approvers, lone.signatures),
+        ).to.be.revertedWith("below threshold");
+
+        const { approvers, signatures } = await signSortedTypedData(
+          [signerA, signerB],
+          domain,
+          workspaceCancelContextSignatureTypes,
+          value,
+        );
+        await expect(
+          workspace.connect(relayer).cancelContextSignatureWithSigs(contextId, 0n, deadline, approvers, signatures),
+        )
+          .to.emit(workspace, "ContextSignatureCancelled")
+          .withArgs(contextId, 0n);
+
+        expect(await workspace.isContextNonceUsed(contextId, 0n)).to.equal(true);
+        await expect(pending()).to.be.revertedWith("bad nonce");
+        await expect((await collectSetMember(1n))()).to.emit(workspace, "MemberSet");
+      });
+
+      it("invalidateContextNoncesWithSigs burns unordered context nonce ranges", async function () {
+        const pending = await collectSetMember(UNORDERED_NONCE_FLAG | 1n);
+        const value = { contextId, wordPos: 0n, mask: 0b10n, nonce: 0n, deadline };
+        const { approvers, signatures } = await signSortedTypedData(
+          [signerA, signerB],
+          domain,
+          workspaceInvalidateContextNoncesTypes,
+          value,
+        );
+
+        await expect(
+          workspace
+            .connect(relayer)
+            .invalidateContextNoncesWithSigs(contextId, 0n, 0b10n, 0n, deadline, approvers, signatures),
+        )
+          .to.emit(workspace, "ContextNoncesInvalidated")
+          .withArgs(contextId, 0n, 0b10n);
+
+        expect(await workspace.contextNonces(contextId)).to.equal(1n);
+        expect(await workspace.isContextNonceUsed(contextId, UNORDERED_NONCE_FLAG | 1n)).to.equal(true);
+        await expect(pending()).to.be.revertedWith("nonce used");
+      });
+    });
+  });
+
+  describe("metadata and lifecycle", function () {
+    let deadline: bigint;
+
+    function setLifecycle(state: number) {
+      return setWorkspaceLifecycleWithSig({
+        ethers,
+        workspace,
+        authoritySigner: authority,
+        relayerSigner: relayer,
+        domain,
+        contextId,
+        state,
+        deadline,
+      });
+    }
+
+    async function setMetadata(metadataCid: string) {
+      const nonce = await workspace.nonces(authority.address);
+      const value = { contextId, metadataCid, nonce, deadline };
+      const signature = await authority.signTypedData(domain, workspaceSetMetadataTypes, value);
+
+      return workspace.connect(relayer).setMetadataWithSig(contextId, metadataCid, nonce, deadline, signature);
+    }
+
+    beforeEach(async function () {
+      deadline = asBigInt(await time.latest()) + 3600n;
+      await workspace.connect(deployer).initAuthority(contextId, authority.address);
+    });
+
+    it("stores and updates the metadata CID", async function () {
+      await expect(setMetadata("QmProfile1"))
+        .to.emit(workspace, "MetadataSet")
+        .withArgs(contextId, "QmProfile1");
+      await setMetadata("QmProfile2");
+
+      expect(await workspace.metadataCidOf(contextId)).to.equal("QmProfile2");
+    });
+
+    it("defaults to ACTIVE and can be frozen and unfrozen", async function () {
+      expect(await workspace.lifecycleOf(contextId)).to.equal(WorkspaceLifecycle.ACTIVE);
+      expect(await workspace.isActive(contextId)).to.equal(true);
+
+      await expect(setLifecycle(WorkspaceLifecycle.FROZEN))
+        .to.emit(workspace, "LifecycleSet")
+        .withArgs(contextId, WorkspaceLifecycle.FROZEN);
+      expect(await workspace.isActive(contextId)).to.equal(false);
+
+      await setLifecycle(WorkspaceLifecycle.ACTIVE);
+      expect(await workspace.isActive(contextId)).to.equal(true);
+    });
+
+    it("treats ARCHIVED as final", async function () {
+      await setLifecycle(WorkspaceLifecycle.ARCHIVED);
+
+      await expect(setLifecycle(WorkspaceLifecycle.ACTIVE)).to.be.revertedWith("context archived");
+      await expect(setMetadata("QmLate")).to.be.revertedWith("context archived");
+    });
+
+    it("rejects no-op transitions and non-authority signatures", async function () {
+      await expect(setLifecycle(WorkspaceLifecycle.ACTIVE)).to.be.revertedWith("same state");
+
+      await expect(
+        setWorkspaceLifecycleWithSig({
+          ethers,
+          workspace,
+          authoritySigner: member,
+          relayerSigner: relayer,
+          domain,
+          contextId,
+          state: WorkspaceLifecycle.FROZEN,
+          deadline,
+        }),
+      ).to.be.revertedWith("bad signer");
+    });
+
+    it("keeps membership management available while frozen", async function () {
+      await setLifecycle(WorkspaceLifecycle.FROZEN);
+
+      await expect(
+        setWorkspaceMemberWithSig({
+          ethers,
+          workspace,
+          authoritySigner: authority,
+          relayerSigner: relayer,
+          domain,
+          contextId,
+          member: member.address,
+          memberStatus: true,
+          deadline,
+        }),
+      ).to.emit(workspace, "MemberSet");
+    });
+  });
+
+  describe("hierarchy", function () {
+    let teamAuthority: any;
+    let deadline: bigint;
+
+    const teamSalt = "0x000000000000000000000000000000000000000000000000000000000000000a";
+
+    function createChild(parentId: string, salt: string, inheritMembers: boolean, parentAuthority = authority) {
+      return createWorkspaceChildWithSig({
+        ethers,
+        workspace,
+        parentAuthoritySigner: parentAuthority,
+        relayerSigner: relayer,
+        domain,
+        parentId,
+        salt,
+        childAuthority: teamAuthority.address,
+        inheritMembers,
+        deadline,
+      });
+    }
+
+    async function setInheritance(childId: string, enabled: boolean, signer = authority) {
+      const nonce = await workspace.nonces(signer.address);
+      const value = { contextId: childId, enabled, nonce, deadline };
+      const signature = await signer.signTypedData(domain, workspaceSetInheritanceTypes, value);
+
+      return workspace.connect(relayer).setInheritanceWithSig(childId, enabled, nonce, deadline, signature);
+    }
+
+    async function overrideAuthority(childId: string, newAuthority: string, signer = authority) {
+      const nonce = await workspace.nonces(signer.address);
+      const value = { contextId: childId, authority: newAuthority, nonce, deadline };
+      const signature = await signer.signTypedData(domain, workspaceOverrideAuthorityTypes, value);
+
+      return workspace.connect(relayer).overrideAuthorityWithSig(childId, newAuthority, nonce, deadline, signature);
+    }
+
+    beforeEach(async function () {
+      teamAuthority = (await ethers.getSigners())[5];
+      deadline = asBigInt(await time.latest()) + 3600n;
+      await workspace.connect(deployer).initAuthority(contextId, authority.address);
+
+      await setWorkspaceMemberWithSig({
+        ethers,
+        workspace,
+        authoritySigner: authority,
+        relayerSigner: relayer,
+        domain,
+        contextId,
+        member: member.address,
+        memberStatus: true,
+        deadline,
+      });
+    });
+
+    it("creates a child context with a parent authority signature", async function () {
+      const childId = await workspace.deriveChildContextId(contextId, teamSalt);
+
+      await expect(createChild(contextId, teamSalt, false))
+        .to.emit(workspace, "ChildContextCreated")
+        .withArgs(contextId, childId, false);
+
+      expect(await workspace.parentOf(childId)).to.equal(contextId);
+      expect(await workspace.authorityOf(childId)).to.equal(teamAuthority.address);
+      expect(await workspace.isMember(childId, teamAuthority.address)).to.equal(true);
+      expect(await workspace.getChildren(contextId)).to.deep.equal([childId]);
+    });
+
+    it("rejects children signed by anyone but the parent authority, and duplicate salts", async function () {
+      await expect(createChild(contextId, teamSalt, false, member)).to.be.revertedWith("bad signer");
+
+      await createChild(contextId, teamSalt, false);
+      await expect(createChild(contextId, teamSalt, false)).to.be.revertedWith("authority already set");
+    });
+
+    it("resolves inherited membership and roles in isMember / hasRole", async function () {
+      const childId = await workspace.deriveChildContextId(contextId, teamSalt);
+      await createChild(contextId, teamSalt, true);
+
+      expect(await workspace.isMember(childId, member.address)).to.equal(true);
+      expect(await workspace.hasRole(childId, member.address, await workspace.ROLE_MAINTAINER())).to.equal(true);
+      expect(await workspace.isMember(childId, authority.address)).to.equal(true);
+
+      // Inherited members are not listed as direct members of the child
+      expect(await workspace.rolesOf(childId, member.address)).to.equal(0n);
+      expect(await workspace.getMembers(childId, 0, 10)).to.deep.equal([teamAuthority.address]);
+
+      // Membership does not flow upwards
+      expect(await workspace.isMember(contextId, teamAuthority.address)).to.equal(false);
+    });
+
+    it("does not inherit when disabled, and only the parent authority can toggle it", async function () {
+      const childId = await workspace.deriveChildContextId(contextId, teamSalt);
+      await createChild(contextId, teamSalt, false);
+
+      expect(await workspace.isMember(childId, member.address)).to.equal(false);
+
+      await expect(setInheritance(childId, true, teamAuthority)).to.be.revertedWith("bad signer");
+
+      await expect(setInheritance(childId, true))
+        .to.emit(workspace, "InheritanceSet")
+        .withArgs(childId, true);
+      expect(await workspace.isMember(childId, member.address)).to.equal(true);
+
+      await setInheritance(childId, false);
+      expect(await workspace.isMember(childId, member.address)).to.equal(false);
+
+      await expect(setInheritance(contextId, true)).to.be.revertedWith("not a child");
+    });
+
+    it("inherits through several levels and caps the depth", async function () {
+      let parentId = contextId;
+      for (let i = 0; i < 4; i++) {
+        const salt = ethers.zeroPadValue(ethers.toBeHex(i + 1), 32);
+        await createChild(parentId, salt, true, i === 0 ? authority : teamAuthority);
+        parentId = await workspace.deriveChildContextId(parentId, salt);
+      }
+
+      expect(await workspace.isMember(parentId, member.address)).to.equal(true);
+
+      await expect(createChild(parentId, teamSalt, true, teamAuthority)).to.be.revertedWith("too deep");
+    });
+
+    it("lets the parent authority override the child authority in an emergency", async function () {
+      const childId = await workspace.deriveChildContextId(contextId, teamSalt);
+      await createChild(contextId, teamSalt, false);
+
+      await expect(overrideAuthority(childId, member.address, teamAuthority)).to.be.revertedWith("bad signer");
+
+      await expect(overrideAuthority(childId, member.address))
+        .to.emit(workspace, "AuthorityOverridden")
+        .withArgs(childId, contextId, member.address);
+
+      expect(await workspace.authorityOf(childId)).to.equal(member.address);
+      expect(await workspace.isMember(childId, teamAuthority.address)).to.equal(false);
+
+      await expect(overrideAuthority(contextId, member.address)).to.be.revertedWith("not a child");
+    });
+
+    it("drops a child out of threshold mode on override", async function () {
+      const childId = await workspace.deriveChildContextId(contextId, teamSalt);
+      await createChild(contextId, teamSalt, false);
+
+      const signers = [teamAuthority.address, relayer.address];
+      const value = {
+        contextId: childId,
+        signers,
+        threshold: 2n,
+        nonce: await workspace.nonces(teamAuthority.address),
+        deadline,
+      };
+      const signature = await teamAuthority.signTypedData(domain, workspaceSetSignersTypes, value);
+      await workspace
+        .connect(relayer)
+        .setSignersWithSig(childId, signers, 2n, value.nonce, deadline, signature);
+
+      await overrideAuthority(childId, member.address);
+
+      expect(await workspace.thresholdOf(childId)).to.equal(0n);
+      expect(await workspace.getSigners(childId)).to.deep.equal([]);
     });
   });
 });
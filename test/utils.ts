@@ -4,10 +4,17 @@ export function asBigInt(v: any): bigint {
   return typeof v === "bigint" ? v : BigInt(v);
 }
 
+// One in-process network for the whole run; every test starts from a snapshot of the deployment.
+let connection: any;
+
 export async function setupCodeQuill() {
-  const connection = await hre.network.connect();
-  const ethers = (connection as any).ethers;
-  const time = (connection as any).networkHelpers.time;
+  connection ??= await hre.network.connect();
+  return connection.networkHelpers.loadFixture(deployCodeQuill);
+}
+
+async function deployCodeQuill() {
+  const ethers = connection.ethers;
+  const time = connection.networkHelpers.time;
 
   const [deployer, alice, bob, charlie, daoExecutor] = await ethers.getSigners();
 
@@ -19,10 +26,15 @@ export async function setupCodeQuill() {
   const delegation = await Delegation.deploy();
   await delegation.waitForDeployment();
 
+  const Forwarder = await ethers.getContractFactory("CodeQuillForwarder");
+  const forwarder = await Forwarder.deploy();
+  await forwarder.waitForDeployment();
+
   const Repository = await ethers.getContractFactory("CodeQuillRepositoryRegistry");
   const repository = await Repository.deploy(
     await delegation.getAddress(),
     await workspace.getAddress(),
+    await forwarder.getAddress(),
   );
   await repository.waitForDeployment();
 
@@ -31,6 +43,7 @@ export async function setupCodeQuill() {
     await repository.getAddress(),
     await workspace.getAddress(),
     await delegation.getAddress(),
+    await forwarder.getAddress(),
   );
   await snapshot.waitForDeployment();
 
@@ -40,6 +53,7 @@ export async function setupCodeQuill() {
     await workspace.getAddress(),
     await delegation.getAddress(),
     await snapshot.getAddress(),
+    await forwarder.getAddress(),
   );
   await backup.waitForDeployment();
 
@@ -49,6 +63,7 @@ export async function setupCodeQuill() {
     await workspace.getAddress(),
     await delegation.getAddress(),
     await snapshot.getAddress(),
+    await forwarder.getAddress(),
   );
   await release.waitForDeployment();
 
@@ -57,9 +72,15 @@ export async function setupCodeQuill() {
     await workspace.getAddress(),
     await delegation.getAddress(),
     await release.getAddress(),
+    await forwarder.getAddress(),
   );
   await attestation.waitForDeployment();
 
+  // Registries count relayed actions against delegation limits
+  for (const consumer of [repository, snapshot, backup, release, attestation]) {
+    await delegation.setConsumer(await consumer.getAddress(), true);
+  }
+
   return {
     ethers,
     time,
@@ -70,6 +91,7 @@ export async function setupCodeQuill() {
     daoExecutor,
     workspace,
     delegation,
+    forwarder,
     repository,
     snapshot,
     backup,
@@ -98,6 +120,11 @@ export const delegationTypes = {
     { name: "relayer", type: "address" },
     { name: "contextId", type: "bytes32" },
     { name: "scopes", type: "uint256" },
+    { name: "resources", type: "bytes32[]" },
+    { name: "maxUses", type: "uint64" },
+    { name: "quota", type: "uint64" },
+    { name: "period", type: "uint64" },
+    { name: "epoch", type: "uint64" },
     { name: "nonce", type: "uint256" },
     { name: "expiry", type: "uint256" },
     { name: "deadline", type: "uint256" },
@@ -114,6 +141,50 @@ export const revokeDelegationTypes = {
   ],
 };
 
+export const delegationBatchTypes = {
+  DelegateBatch: [
+    { name: "owner", type: "address" },
+    { name: "relayer", type: "address" },
+    { name: "entries", type: "DelegationEntry[]" },
+    { name: "epoch", type: "uint64" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+  DelegationEntry: [
+    { name: "contextId", type: "bytes32" },
+    { name: "scopes", type: "uint256" },
+    { name: "expiry", type: "uint256" },
+  ],
+};
+
+export const UNORDERED_NONCE_FLAG = 1n << 255n;
+
+export const delegationRevokeAllTypes = {
+  RevokeAll: [
+    { name: "owner", type: "address" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export const delegationCancelSignatureTypes = {
+  CancelSignature: [
+    { name: "owner", type: "address" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export const delegationInvalidateNoncesTypes = {
+  InvalidateNonces: [
+    { name: "owner", type: "address" },
+    { name: "wordPos", type: "uint256" },
+    { name: "mask", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
 export const workspaceSetAuthorityTypes = {
   SetAuthority: [
     { name: "contextId", type: "bytes32" },
@@ -175,11 +246,10 @@ export async function setWorkspaceMemberWithSig(params: {
   };
 
   const signature = await authoritySigner.signTypedData(domain, workspaceSetMemberTypes, value);
-  const { v, r, s } = ethers.Signature.from(signature);
 
   return workspace
     .connect(relayerSigner)
-    .setMemberWithSig(contextId, member, memberStatus, deadline, v, r, s);
+    .setMemberWithSig(contextId, member, memberStatus, nonce, deadline, signature);
 }
 
 export async function setWorkspaceAuthorityWithSig(params: {
@@ -216,9 +286,570 @@ export async function setWorkspaceAuthorityWithSig(params: {
     workspaceSetAuthorityTypes,
     value,
   );
-  const { v, r, s } = ethers.Signature.from(signature);
 
   return workspace
     .connect(relayerSigner)
-    .setAuthorityWithSig(contextId, newAuthority, deadline, v, r, s);
+    .setAuthorityWithSig(contextId, newAuthority, nonce, deadline, signature);
+}
+
+export const workspaceSetRolesTypes = {
+  SetRoles: [
+    { name: "contextId", type: "bytes32" },
+    { name: "member", type: "address" },
+    { name: "roles", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export async function setWorkspaceRolesWithSig(params: {
+  ethers: any;
+  workspace: any;
+  authoritySigner: any;
+  relayerSigner: any;
+  domain: any;
+  contextId: string;
+  member: string;
+  roles: bigint;
+  deadline: bigint;
+}) {
+  const {
+    ethers,
+    workspace,
+    authoritySigner,
+    relayerSigner,
+    domain,
+    contextId,
+    member,
+    roles,
+    deadline,
+  } = params;
+
+  const nonce = await workspace.nonces(authoritySigner.address);
+  const value = {
+    contextId,
+    member,
+    roles,
+    nonce,
+    deadline,
+  };
+
+  const signature = await authoritySigner.signTypedData(domain, workspaceSetRolesTypes, value);
+
+  return workspace
+    .connect(relayerSigner)
+    .setRolesWithSig(contextId, member, roles, nonce, deadline, signature);
+}
+
+export const workspaceSetSignersTypes = {
+  SetSigners: [
+    { name: "contextId", type: "bytes32" },
+    { name: "signers", type: "address[]" },
+    { name: "threshold", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+/// Maps a single-authority type set to its threshold counterpart (`SetMember` -> `SetMemberApproval`).
+export function approvalTypes(types: any) {
+  return Object.fromEntries(Object.entries(types).map(([name, fields]) => [`${name}Approval`, fields]));
+}
+
+/// Signs `value` as a threshold approval with every signer, ordered by ascending signer address as
+/// threshold checks require.
+export async function signSortedTypedData(signers: any[], domain: any, types: any, value: any) {
+  const sorted = [...signers].sort((a, b) =>
+    BigInt(a.address) < BigInt(b.address) ? -1 : 1,
+  );
+  const approvers: string[] = sorted.map((signer) => signer.address);
+  const signatures: string[] = await Promise.all(
+    sorted.map((signer) => signer.signTypedData(domain, approvalTypes(types), value)),
+  );
+  return { approvers, signatures };
+}
+
+export const workspaceSetMembersTypes = {
+  SetMembers: [
+    { name: "contextId", type: "bytes32" },
+    { name: "members", type: "address[]" },
+    { name: "statuses", type: "bool[]" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export async function setWorkspaceMembersWithSig(params: {
+  ethers: any;
+  workspace: any;
+  authoritySigner: any;
+  relayerSigner: any;
+  domain: any;
+  contextId: string;
+  members: string[];
+  statuses: boolean[];
+  deadline: bigint;
+}) {
+  const {
+    ethers,
+    workspace,
+    authoritySigner,
+    relayerSigner,
+    domain,
+    contextId,
+    members,
+    statuses,
+    deadline,
+  } = params;
+
+  const nonce = await workspace.nonces(authoritySigner.address);
+  const value = {
+    contextId,
+    members,
+    statuses,
+    nonce,
+    deadline,
+  };
+
+  const signature = await authoritySigner.signTypedData(domain, workspaceSetMembersTypes, value);
+
+  return workspace
+    .connect(relayerSigner)
+    .setMembersWithSig(contextId, members, statuses, nonce, deadline, signature);
+}
+
+export const workspaceSetRolesUntilTypes = {
+  SetRolesUntil: [
+    { name: "contextId", type: "bytes32" },
+    { name: "member", type: "address" },
+    { name: "roles", type: "uint256" },
+    { name: "validUntil", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export async function setWorkspaceRolesUntilWithSig(params: {
+  ethers: any;
+  workspace: any;
+  authoritySigner: any;
+  relayerSigner: any;
+  domain: any;
+  contextId: string;
+  member: string;
+  roles: bigint;
+  validUntil: bigint;
+  deadline: bigint;
+}) {
+  const {
+    ethers,
+    workspace,
+    authoritySigner,
+    relayerSigner,
+    domain,
+    contextId,
+    member,
+    roles,
+    validUntil,
+    deadline,
+  } = params;
+
+  const nonce = await workspace.nonces(authoritySigner.address);
+  const value = {
+    contextId,
+    member,
+    roles,
+    validUntil,
+    nonce,
+    deadline,
+  };
+
+  const signature = await authoritySigner.signTypedData(domain, workspaceSetRolesUntilTypes, value);
+
+  return workspace
+    .connect(relayerSigner)
+    .setRolesUntilWithSig(contextId, member, roles, validUntil, nonce, deadline, signature);
+}
+
+export const workspaceInviteTypes = {
+  Invite: [
+    { name: "contextId", type: "bytes32" },
+    { name: "member", type: "address" },
+    { name: "roles", type: "uint256" },
+    { name: "expiry", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export const workspaceAcceptInviteTypes = {
+  AcceptInvite: [
+    { name: "contextId", type: "bytes32" },
+    { name: "member", type: "address" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export const workspaceCancelInviteTypes = {
+  CancelInvite: [
+    { name: "contextId", type: "bytes32" },
+    { name: "member", type: "address" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export const workspaceSetInviteOnlyTypes = {
+  SetInviteOnly: [
+    { name: "contextId", type: "bytes32" },
+    { name: "enabled", type: "bool" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export async function inviteWorkspaceMemberWithSig(params: {
+  ethers: any;
+  workspace: any;
+  authoritySigner: any;
+  relayerSigner: any;
+  domain: any;
+  contextId: string;
+  member: string;
+  roles: bigint;
+  expiry: bigint;
+  deadline: bigint;
+}) {
+  const {
+    ethers,
+    workspace,
+    authoritySigner,
+    relayerSigner,
+    domain,
+    contextId,
+    member,
+    roles,
+    expiry,
+    deadline,
+  } = params;
+
+  const nonce = await workspace.nonces(authoritySigner.address);
+  const value = {
+    contextId,
+    member,
+    roles,
+    expiry,
+    nonce,
+    deadline,
+  };
+
+  const signature = await authoritySigner.signTypedData(domain, workspaceInviteTypes, value);
+
+  return workspace
+    .connect(relayerSigner)
+    .inviteWithSig(contextId, member, roles, expiry, nonce, deadline, signature);
+}
+
+export const workspaceInitAuthorityTypes = {
+  InitAuthority: [
+    { name: "contextId", type: "bytes32" },
+    { name: "authority", type: "address" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export const MockWalletMode = { VALID: 0, WRONG_MAGIC: 1, REVERT: 2 };
+
+export async function deployMockERC1271Wallet(ethers: any, ownerSigner: any) {
+  const Wallet = await ethers.getContractFactory("MockERC1271Wallet");
+  const wallet = await Wallet.deploy(ownerSigner.address);
+  await wallet.waitForDeployment();
+  return wallet;
+}
+
+export const workspaceCancelSignatureTypes = {
+  CancelSignature: [
+    { name: "signer", type: "address" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export const workspaceInvalidateNoncesTypes = {
+  InvalidateNonces: [
+    { name: "signer", type: "address" },
+    { name: "wordPos", type: "uint256" },
+    { name: "mask", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+/// Threshold-only: sign with signSortedTypedData, which adds the `Approval` suffix.
+export const workspaceCancelContextSignatureTypes = {
+  CancelContextSignature: [
+    { name: "contextId", type: "bytes32" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+/// Threshold-only: sign with signSortedTypedData, which adds the `Approval` suffix.
+export const workspaceInvalidateContextNoncesTypes = {
+  InvalidateContextNonces: [
+    { name: "contextId", type: "bytes32" },
+    { name: "wordPos", type: "uint256" },
+    { name: "mask", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export const WorkspaceLifecycle = { ACTIVE: 0, FROZEN: 1, ARCHIVED: 2 };
+
+export const RepoLifecycle = { ACTIVE: 0, ARCHIVED: 1, DEPRECATED: 2, RELINQUISHED: 3 };
+
+export const workspaceSetLifecycleTypes = {
+  SetLifecycle: [
+    { name: "contextId", type: "bytes32" },
+    { name: "state", type: "uint8" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export const workspaceSetMetadataTypes = {
+  SetMetadata: [
+    { name: "contextId", type: "bytes32" },
+    { name: "metadataCid", type: "string" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export async function setWorkspaceLifecycleWithSig(params: {
+  ethers: any;
+  workspace: any;
+  authoritySigner: any;
+  relayerSigner: any;
+  domain: any;
+  contextId: string;
+  state: number;
+  deadline: bigint;
+}) {
+  const {
+    workspace,
+    authoritySigner,
+    relayerSigner,
+    domain,
+    contextId,
+    state,
+    deadline,
+  } = params;
+
+  const nonce = await workspace.nonces(authoritySigner.address);
+  const value = {
+    contextId,
+    state,
+    nonce,
+    deadline,
+  };
+
+  const signature = await authoritySigner.signTypedData(domain, workspaceSetLifecycleTypes, value);
+
+  return workspace
+    .connect(relayerSigner)
+    .setLifecycleWithSig(contextId, state, nonce, deadline, signature);
+}
+
+export const workspaceCreateChildTypes = {
+  CreateChild: [
+    { name: "parentId", type: "bytes32" },
+    { name: "salt", type: "bytes32" },
+    { name: "authority", type: "address" },
+    { name: "inheritMembers", type: "bool" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export const workspaceSetInheritanceTypes = {
+  SetInheritance: [
+    { name: "contextId", type: "bytes32" },
+    { name: "enabled", type: "bool" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export const workspaceOverrideAuthorityTypes = {
+  OverrideAuthority: [
+    { name: "contextId", type: "bytes32" },
+    { name: "authority", type: "address" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export async function createWorkspaceChildWithSig(params: {
+  ethers: any;
+  workspace: any;
+  parentAuthoritySigner: any;
+  relayerSigner: any;
+  domain: any;
+  parentId: string;
+  salt: string;
+  childAuthority: string;
+  inheritMembers: boolean;
+  deadline: bigint;
+}) {
+  const {
+    workspace,
+    parentAuthoritySigner,
+    relayerSigner,
+    domain,
+    parentId,
+    salt,
+    childAuthority,
+    inheritMembers,
+    deadline,
+  } = params;
+
+  const nonce = await workspace.nonces(parentAuthoritySigner.address);
+  const value = {
+    parentId,
+    salt,
+    authority: childAuthority,
+    inheritMembers,
+    nonce,
+    deadline,
+  };
+
+  const signature = await parentAuthoritySigner.signTypedData(domain, workspaceCreateChildTypes, value);
+
+  return workspace
+    .connect(relayerSigner)
+    .createChildWithSig(parentId, salt, childAuthority, inheritMembers, nonce, deadline, signature);
+}
+
+export const createSnapshotTypes = {
+  CreateSnapshot: [
+    { name: "repoId", type: "bytes32" },
+    { name: "contextId", type: "bytes32" },
+    { name: "commitHash", type: "bytes32" },
+    { name: "merkleRoot", type: "bytes32" },
+    { name: "manifestCid", type: "string" },
+    { name: "author", type: "address" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export const anchorBackupTypes = {
+  AnchorBackup: [
+    { name: "repoId", type: "bytes32" },
+    { name: "contextId", type: "bytes32" },
+    { name: "snapshotMerkleRoot", type: "bytes32" },
+    { name: "archiveSha256", type: "bytes32" },
+    { name: "metadataSha256", type: "bytes32" },
+    { name: "backupCid", type: "string" },
+    { name: "author", type: "address" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export const anchorReleaseTypes = {
+  AnchorRelease: [
+    { name: "projectId", type: "bytes32" },
+    { name: "releaseId", type: "bytes32" },
+    { name: "contextId", type: "bytes32" },
+    { name: "manifestCid", type: "string" },
+    { name: "name", type: "string" },
+    { name: "author", type: "address" },
+    { name: "governanceAuthority", type: "address" },
+    { name: "repoIds", type: "bytes32[]" },
+    { name: "merkleRoots", type: "bytes32[]" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export const claimVerificationTypes = {
+  ClaimVerification: [
+    { name: "repoId", type: "bytes32" },
+    { name: "owner", type: "address" },
+    { name: "contextId", type: "bytes32" },
+    { name: "expiry", type: "uint256" },
+  ],
+};
+
+export const acceptTransferTypes = {
+  AcceptTransfer: [
+    { name: "repoId", type: "bytes32" },
+    { name: "from", type: "address" },
+    { name: "newOwner", type: "address" },
+    { name: "newContextId", type: "bytes32" },
+    { name: "expiry", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export const createAttestationTypes = {
+  CreateAttestation: [
+    { name: "releaseId", type: "bytes32" },
+    { name: "artifactDigest", type: "bytes32" },
+    { name: "attestationCid", type: "string" },
+    { name: "author", type: "address" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export const forwardRequestTypes = {
+  ForwardRequest: [
+    { name: "from", type: "address" },
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "gas", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint48" },
+    { name: "data", type: "bytes" },
+  ],
+};
+
+export async function signForwardRequest(params: {
+  ethers: any;
+  forwarder: any;
+  signer: any;
+  target: any;
+  data: string;
+  deadline: bigint;
+  gas?: bigint;
+}) {
+  const { ethers, forwarder, signer, target, data, deadline } = params;
+  const domain = await getEip712Domain(ethers, "CodeQuillForwarder", "1", await forwarder.getAddress());
+  const value = {
+    from: signer.address,
+    to: await target.getAddress(),
+    value: 0n,
+    gas: params.gas ?? 1_000_000n,
+    nonce: await forwarder.nonces(signer.address),
+    deadline,
+    data,
+  };
+  const signature = await signer.signTypedData(domain, forwardRequestTypes, value);
+
+  return {
+    from: value.from,
+    to: value.to,
+    value: value.value,
+    gas: value.gas,
+    deadline: value.deadline,
+    data: value.data,
+    signature,
+  };
 }